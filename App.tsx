@@ -1,23 +1,48 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { 
-  BoardState, StoneColor, GameConfig, Move, 
-  GamePhase, Point, ScoreResult, Difficulty, TsumegoProblem, TsumegoNode
+  BoardState, StoneColor, GameConfig, Move, GameRecord,
+  GamePhase, Point, ScoreResult, TsumegoProblem, TsumegoNode, PlayerClock, AiMove
 } from './types';
 import { 
   createEmptyGrid, makeMove, generateSGF, 
-  calculateTerritory, getHoshiPoints 
+  getHoshiPoints, pointToGtp, getOpponent
 } from './utils/goLogic';
+import {
+  createGameRecord, createRecordFromTree, getCurrentMoves, getLineMoves, setLineComments,
+  playMove, goToIndex, getNextVariations, selectVariation, deleteVariationAt, isOnMainLine
+} from './utils/gameTree';
+import {
+  KoState, createKoState, recordMove, recordPass, hashAfterMove, toggleStones, getCurrentHash,
+  DEFAULT_KO_RULE, KO_RULE_LABELS, getRuleSet
+} from './utils/rules';
+import { scoreGame, formatSgfResult, guessDeadStones, toggleDeadGroup } from './utils/scoring';
+import { estimatePosition } from './utils/estimator';
+import { findTacticalHints, koAfter } from './utils/tactics';
+import { isTimed, createClock, tickClock, completeMove, restoreClocks, shouldWarn, playClockWarning } from './utils/clock';
 import { tsumegoProblems } from './utils/tsumegoData';
-import { getAIMove } from './services/geminiService';
+import { TsumegoReading, createTsumegoSpec } from './utils/tsumegoSolver';
+import { OUTCOME_LABELS, TsumegoCredit, tsumegoPlayer, swapTsumegoColors, branchCredit } from './utils/tsumegoPlay';
+import { deriveSeed } from './utils/random';
+import { requestEngineMove, getEngineId, getEngineName } from './services/aiEngine';
+import { isAbortError, requestTsumegoReading } from './services/aiClient';
+import { reviewGame, mergeReviewComment } from './services/gameReview';
+import { explainWrongMove, rewordExplanation, canRewordOnline } from './services/tsumegoExplain';
+import { TsumegoAttempt, loadAttempts, recordAttempt } from './utils/tsumegoAttempts';
+import { loadUserProblems, saveUserProblem, addUserProblems, deleteUserProblem } from './utils/tsumegoCollection';
 import GoBoard from './components/GoBoard';
 import SetupModal from './components/SetupModal';
-import SavedGamesModal from './components/SavedGamesModal';
+import SavedGamesModal, { SavedGame } from './components/SavedGamesModal';
+import { SgfGameInfo } from './utils/sgf';
 import HomeScreen from './components/HomeScreen';
 import TsumegoList from './components/TsumegoList';
+import TsumegoEditor from './components/TsumegoEditor';
+import GameClock from './components/GameClock';
+import { getPlayerType, isHumanTurn, getAiDifficulty, getGameMode, GAME_MODE_LABELS, DIFFICULTY_LABELS } from './utils/players';
 import { 
   RotateCcw, Flag, Download, Camera, 
   ChevronRight, Circle, Play, RefreshCw, Undo2, 
-  Save, FolderOpen, Eye, SkipBack, SkipForward, FastForward, Rewind, Home, Hash, Disc, Repeat, ArrowLeft, Lightbulb 
+  Save, FolderOpen, Eye, SkipBack, SkipForward, FastForward, Rewind, Home, Hash, Disc, Repeat, ArrowLeft, Lightbulb,
+  Redo2, GitBranch, Trash2, Pause, StepForward, Crosshair, AlertTriangle, MessageSquare
 } from 'lucide-react';
 
 declare global {
@@ -26,44 +51,68 @@ declare global {
   }
 }
 
-const DIFFICULTY_LABELS: Record<Difficulty, string> = {
-    novice: '小白',
-    entry: '入门',
-    beginner: '新手',
-    elementary: '初级',
-    intermediate: '中级',
-    advanced: '高级',
-    master: '大师',
-    grandmaster: '特级'
-};
-
 const App: React.FC = () => {
   const [grid, setGrid] = useState<(StoneColor | null)[][]>(createEmptyGrid(19));
   const [turn, setTurn] = useState<StoneColor>('black');
   const [captures, setCaptures] = useState({ black: 0, white: 0 });
-  const [history, setHistory] = useState<Move[]>([]);
+  // Game tree: `history` is the line of moves leading to the position on the board
+  const [record, setRecord] = useState<GameRecord>(createGameRecord());
+  const history = useMemo(() => getCurrentMoves(record), [record]);
+  const lineMoves = useMemo(() => getLineMoves(record), [record]);
   
   // Phase state
   const [phase, setPhase] = useState<GamePhase>('home'); 
   const [config, setConfig] = useState<GameConfig | null>(null);
   const [scoreResult, setScoreResult] = useState<ScoreResult | null>(null);
   const [isAiThinking, setIsAiThinking] = useState(false);
+  const [aiProgress, setAiProgress] = useState(0);
+  // Controller for the AI search in flight (aborted when its result would no longer apply)
+  const aiAbortRef = useRef<AbortController | null>(null);
+  const [reviewProgress, setReviewProgress] = useState<number | null>(null); // AI review running when set
+  const reviewAbortRef = useRef<AbortController | null>(null);
   const [territoryMap, setTerritoryMap] = useState<number[][] | undefined>(undefined);
+  // Teaching overlay: ladders, nets and their vital points
+  const [showHints, setShowHints] = useState(false);
+  // Stones marked dead during the scoring phase
+  const [deadStones, setDeadStones] = useState<Point[]>([]);
   const [notification, setNotification] = useState<string | null>(null);
+  const [engineIssue, setEngineIssue] = useState<{ reason: string, details: string[] } | null>(null); // Last engine fallback this game
+  // AI vs AI spectating: paused games only advance by explicit steps
+  const [isAiPaused, setIsAiPaused] = useState(false);
+  const [aiSteps, setAiSteps] = useState(0);
   
   // New States for Review & Storage
   const [showSavedGames, setShowSavedGames] = useState(false);
   const [isReviewMode, setIsReviewMode] = useState(false);
-  const [reviewIndex, setReviewIndex] = useState<number>(0);
   const [currentGameId, setCurrentGameId] = useState<string | null>(null);
+  const [gameInfo, setGameInfo] = useState<SgfGameInfo | null>(null);
 
   // Tsumego States
   const [currentTsumego, setCurrentTsumego] = useState<TsumegoProblem | null>(null);
   const [tsumegoNode, setTsumegoNode] = useState<TsumegoNode | null>(null);
-  const [tsumegoStatus, setTsumegoStatus] = useState<'playing' | 'success' | 'fail'>('playing');
+  const [tsumegoStatus, setTsumegoStatus] = useState<'playing' | 'success' | 'partial' | 'fail'>('playing');
+  const [tsumegoSwapped, setTsumegoSwapped] = useState(false); // Practise with the colours swapped
   const [solvedTsumegoIds, setSolvedTsumegoIds] = useState<string[]>([]);
+  const [tsumegoExplanation, setTsumegoExplanation] = useState<string | null>(null);
+  const [tsumegoAttempts, setTsumegoAttempts] = useState<TsumegoAttempt[]>([]);
+  const [userTsumego, setUserTsumego] = useState<TsumegoProblem[]>([]);
+  const [editingTsumego, setEditingTsumego] = useState<TsumegoProblem | null>(null); // Editor's problem, kept while it is previewed
+  const [explainSettings, setExplainSettings] = useState({ explain: false, online: false }); // Wrong-answer explanations
+  // The problem as it is played: with the colours swapped when asked
+  const playedTsumego = useMemo(
+      () => currentTsumego && tsumegoSwapped ? swapTsumegoColors(currentTsumego) : currentTsumego,
+      [currentTsumego, tsumegoSwapped]
+  );
+  const tsumegoColor = playedTsumego ? tsumegoPlayer(playedTsumego) : 'black';
+  const tsumegoSpec = useMemo(() => playedTsumego ? createTsumegoSpec(playedTsumego) : null, [playedTsumego]);
+  const tsumegoRunRef = useRef(0); // Bumped per (re)started problem, so late explanations for an old run are dropped
 
-  const boardHistoryRef = useRef<string[]>([]);
+  // Game clocks (timed games only). The ref mirrors the state for timers and async AI moves.
+  const [clocks, setClocks] = useState<Record<StoneColor, PlayerClock> | null>(null);
+  const clocksRef = useRef<Record<StoneColor, PlayerClock> | null>(null);
+
+  // Position hashes for ko / superko checks; rebuilt whenever the board is restored from the record
+  const koStateRef = useRef<KoState>(createKoState(createEmptyGrid(19)));
 
   // Init Solved Problems
   useEffect(() => {
@@ -75,8 +124,25 @@ const App: React.FC = () => {
             console.error("Failed to load solved tsumegos", e);
         }
     }
+    setUserTsumego(loadUserProblems());
+  }, []);
+
+  useEffect(() => {
+    const saved = localStorage.getItem('zenGoTsumegoExplain');
+    if (saved) {
+        try {
+            setExplainSettings(JSON.parse(saved));
+        } catch (e) {
+            console.error("Failed to load explanation settings", e);
+        }
+    }
   }, []);
 
+  const updateExplainSettings = (settings: { explain: boolean, online: boolean }) => {
+    setExplainSettings(settings);
+    localStorage.setItem('zenGoTsumegoExplain', JSON.stringify(settings));
+  };
+
   const markTsumegoSolved = (id: string) => {
     setSolvedTsumegoIds(prev => {
         if (prev.includes(id)) return prev;
@@ -87,8 +153,8 @@ const App: React.FC = () => {
   };
 
   // Function to actually save data to localStorage
-  const performSave = useCallback((currentConfig: GameConfig, currentHistory: Move[], isAuto = false) => {
-      if (!currentConfig || currentHistory.length === 0) return;
+  const performSave = useCallback((currentConfig: GameConfig, currentRecord: GameRecord, isAuto = false) => {
+      if (!currentConfig || currentRecord.root.children.length === 0) return;
       if (isReviewMode && isAuto) return; // Don't auto-save if just reviewing and resigning/exiting
 
       const raw = localStorage.getItem('zenGoSavedGames');
@@ -98,7 +164,9 @@ const App: React.FC = () => {
           id: currentGameId || Date.now().toString(),
           timestamp: Date.now(),
           config: currentConfig,
-          history: currentHistory,
+          tree: currentRecord.root,
+          line: currentRecord.line,
+          ...(gameInfo ? { info: gameInfo } : {}),
           autoSaved: isAuto
       };
       
@@ -115,9 +183,20 @@ const App: React.FC = () => {
       if (!isAuto) {
           alert("棋谱已成功保存！");
       }
-  }, [currentGameId, isReviewMode]);
+  }, [currentGameId, isReviewMode, gameInfo]);
+
+  // Drop any AI search in flight; its move will never be played
+  const cancelAiMove = () => {
+    aiAbortRef.current?.abort();
+    aiAbortRef.current = null;
+    setIsAiThinking(false);
+    reviewAbortRef.current?.abort();
+    reviewAbortRef.current = null;
+  };
 
   const startGame = (newConfig: GameConfig) => {
+    cancelAiMove();
+    setEngineIssue(null);
     const empty = createEmptyGrid(newConfig.boardSize);
     const newHistory: Move[] = [];
     let initialGrid = empty;
@@ -140,59 +219,126 @@ const App: React.FC = () => {
     setGrid(initialGrid);
     setConfig(newConfig);
     setPhase('playing');
-    setHistory(newHistory);
+    setRecord(createGameRecord(newHistory));
     setCaptures({ black: 0, white: 0 });
     setScoreResult(null);
+    setDeadStones([]);
     setTerritoryMap(undefined);
     setIsReviewMode(false);
     setCurrentGameId(Date.now().toString()); 
-    boardHistoryRef.current = [];
+    setGameInfo(null);
+    setIsAiPaused(false);
+    setAiSteps(0);
+    koStateRef.current = replayGame(newHistory, newConfig).koState;
+    updateClocks(isTimed(newConfig.timeControl)
+        ? { black: createClock(newConfig.timeControl), white: createClock(newConfig.timeControl) }
+        : null);
+  };
+
+  const updateClocks = (next: Record<StoneColor, PlayerClock> | null) => {
+    clocksRef.current = next;
+    setClocks(next);
+  };
+
+  // Restart the mover's period/increment and note the time left on the move (SGF BL/WL, OB/OW)
+  const stampClock = (color: StoneColor): Pick<Move, 'timeLeft' | 'overtimeLeft'> => {
+    const tc = config?.timeControl;
+    if (!isTimed(tc) || !clocksRef.current) return {};
+    const clock = completeMove(clocksRef.current[color], tc);
+    updateClocks({ ...clocksRef.current, [color]: clock });
+    return {
+        timeLeft: Math.round(clock.time * 10) / 10,
+        ...(clock.inOvertime ? { overtimeLeft: clock.overtimeLeft } : {})
+    };
   };
 
-  const startTsumego = (problem: TsumegoProblem) => {
+  const startTsumego = (problem: TsumegoProblem, swapped = tsumegoSwapped) => {
+      cancelAiMove();
       // Clear any lingering notifications from previous games/problems
       setNotification(null);
       
+      const played = swapped ? swapTsumegoColors(problem) : problem;
+      const player = tsumegoPlayer(played);
       const empty = createEmptyGrid(problem.boardSize);
       // Place initial stones
-      problem.initialStones.forEach(s => {
+      played.initialStones.forEach(s => {
           if (s.y < empty.length && s.x < empty.length) {
               empty[s.y][s.x] = s.color;
           }
       });
 
       setGrid(empty);
-      setTurn('black'); // User is always black in these problems
+      koStateRef.current = createKoState(empty, DEFAULT_KO_RULE, player);
+      setTurn(player); // The user plays the side to move
       setPhase('tsumego-playing');
       setCurrentTsumego(problem);
+      setTsumegoSwapped(swapped);
       setTsumegoNode(problem.solutionTree);
       setTsumegoStatus('playing');
-      setHistory([]);
+      setTsumegoExplanation(null);
+      setTsumegoAttempts(loadAttempts(problem.id));
+      tsumegoRunRef.current++;
+      setRecord(createGameRecord());
       setCaptures({black: 0, white: 0});
       setConfig({ // Mock config for display
           boardSize: problem.boardSize,
           boardTheme: 'wood',
           handicap: 0,
-          playerColor: 'black',
+          playerColor: player,
           difficulty: problem.difficulty,
-          komi: 0,
-          aiMode: 'local'
+          komi: 0
       });
   };
 
   const handleNextTsumego = () => {
       if (!currentTsumego) return;
-      // Because tsumegoProblems is sorted, we can just find the index
-      const currentIndex = tsumegoProblems.findIndex(p => p.id === currentTsumego.id);
+      // Because tsumegoProblems is sorted, we can just find the index; the user's own come after them
+      const problems = [...tsumegoProblems, ...userTsumego];
+      const currentIndex = problems.findIndex(p => p.id === currentTsumego.id);
       
-      if (currentIndex >= 0 && currentIndex < tsumegoProblems.length - 1) {
-          startTsumego(tsumegoProblems[currentIndex + 1]);
+      if (currentIndex >= 0 && currentIndex < problems.length - 1) {
+          startTsumego(problems[currentIndex + 1]);
       } else {
           setNotification("已是列表最后一题！");
           setTimeout(() => setNotification(null), 2000);
       }
   };
 
+  // --- TSUMEGO EDITOR ---
+
+  const openTsumegoEditor = (problem: TsumegoProblem | null) => {
+      cancelAiMove(); // A preview may still be reading
+      setEditingTsumego(problem);
+      setPhase('tsumego-editor');
+  };
+
+  const closeTsumegoEditor = () => {
+      setEditingTsumego(null);
+      setPhase('tsumego-list');
+  };
+
+  const saveTsumego = (problem: TsumegoProblem) => {
+      setUserTsumego(saveUserProblem(problem));
+      closeTsumegoEditor();
+  };
+
+  const deleteTsumego = (problem: TsumegoProblem) => {
+      if (!window.confirm(`确定要删除“${problem.title}”吗？`)) return;
+      setUserTsumego(deleteUserProblem(problem.id));
+  };
+
+  const importTsumego = (problems: TsumegoProblem[]) => {
+      setUserTsumego(addUserProblems(problems));
+  };
+
+  // Play the problem as a student would, with a way back to the editor
+  const previewTsumego = (problem: TsumegoProblem) => {
+      setEditingTsumego(problem);
+      startTsumego(problem, false);
+  };
+
+  const isPreviewingTsumego = !!editingTsumego && editingTsumego.id === currentTsumego?.id;
+
   const restartGame = () => {
     if (config && phase === 'finished') {
       startGame(config);
@@ -202,84 +348,123 @@ const App: React.FC = () => {
   };
 
   const handleIntersectionClick = useCallback(async (x: number, y: number) => {
-    if (isAiThinking || isReviewMode) return;
+    if (isAiThinking) return;
+
+    if (isReviewMode) {
+        exploreMove(x, y);
+        return;
+    }
 
     if (phase === 'playing') {
-        if (config?.playerColor !== turn) return; 
+        if (!isHumanTurn(config, turn)) return; 
         executeMove(x, y, turn);
+    } else if (phase === 'scoring') {
+        toggleDeadStones(x, y);
     } else if (phase === 'tsumego-playing') {
-        if (turn !== 'black') return; // User turn only
+        if (turn !== tsumegoColor) return; // User turn only
         if (tsumegoStatus !== 'playing') return;
 
         handleTsumegoMove(x, y);
     }
 
-  }, [phase, isAiThinking, config, turn, isReviewMode, tsumegoNode, tsumegoStatus]);
+  }, [phase, isAiThinking, config, turn, isReviewMode, tsumegoNode, tsumegoSpec, tsumegoColor, tsumegoStatus, grid, record, deadStones, explainSettings]);
 
   const handleTsumegoMove = async (x: number, y: number): Promise<boolean> => {
+      const player = tsumegoColor;
+      const opponent = getOpponent(player);
+
       // 1. User Move
-      const result = makeMove(grid, x, y, 'black');
+      const result = makeMove(grid, x, y, player, koStateRef.current);
       if (!result.success) return false;
+      recordMove(koStateRef.current, result.hash!, player);
 
       setGrid(result.newGrid);
-      setHistory(prev => [...prev, { x, y, color: 'black', captures: result.captures }]);
+      setRecord(prev => playMove(prev, { x, y, color: player, captures: result.captures }));
       
       const key = `${x},${y}`;
       const branch = tsumegoNode?.[key];
+      const moves: Point[] = [...history, { x, y }];
 
       if (!branch) {
-          // Wrong move (not in tree)
-          setTsumegoStatus('fail');
-          setNotification("回答错误：不在正解路径中");
-          setTimeout(() => setNotification(null), 2000);
+          // Not in the tree: the solver decides whether the move still works and how the opponent answers
+          setIsAiThinking(true);
+          setTurn(opponent);
+          let reading: TsumegoReading | null;
+          try {
+              [reading] = await Promise.all([
+                  readTsumego(result.newGrid, opponent, koAfter(result, { x, y })),
+                  new Promise(r => setTimeout(r, 500))
+              ]);
+          } catch (e) {
+              if (isAbortError(e)) return true; // Restarted or left meanwhile
+              console.error("Tsumego solver failed", e);
+              reading = null;
+          }
+          const reply = reading?.move && reading.move !== 'PASS' ? reading.move : undefined;
+          const aiRes = reply ? playTsumegoResponse(result.newGrid, reply) : null;
+          setIsAiThinking(false);
+
+          if (reading?.status === 'achieved' && aiRes) {
+              // Another way to the goal; the solver keeps answering from here on
+              setTsumegoNode({});
+              setTurn(player);
+              setNotification("这步也成立，请继续。");
+              setTimeout(() => setNotification(null), 2000);
+          } else if (reading?.status === 'achieved') {
+              // Goal reached, or nothing the opponent can do about it
+              completeTsumego('full', undefined, moves);
+          } else {
+              setTsumegoStatus('fail');
+              setNotification(reading?.status === 'failed' ? `回答错误：${opponent === 'white' ? '白' : '黑'}棋有应手` : "回答错误：不在正解路径中");
+              setTimeout(() => setNotification(null), 2000);
+              logTsumegoAttempt('fail', aiRes ? [...moves, reply!] : moves, {
+                  after: result.newGrid, move: { x, y }, refutation: aiRes ? reply : undefined
+              });
+          }
           return true;
       }
 
       // Check status
       if (branch.status === 'wrong') {
           setTsumegoStatus('fail');
-          setNotification(branch.message || "回答错误");
+          setNotification(branch.message || (branch.outcome ? `回答错误：${OUTCOME_LABELS[branch.outcome]}` : "回答错误"));
           // If there is a refutation response, play it
           if (branch.response) {
                setIsAiThinking(true);
                await new Promise(r => setTimeout(r, 500));
-               const aiRes = makeMove(result.newGrid, branch.response.x, branch.response.y, 'white');
-               if (aiRes.success) {
-                   setGrid(aiRes.newGrid);
-                   setHistory(prev => [...prev, { x: branch.response!.x, y: branch.response!.y, color: 'white', captures: aiRes.captures }]);
-               }
+               playTsumegoResponse(result.newGrid, branch.response);
                setIsAiThinking(false);
           }
+          logTsumegoAttempt('fail', branch.response ? [...moves, branch.response] : moves, {
+              after: result.newGrid, move: { x, y }, refutation: branch.response
+          });
           return true;
       }
 
       if (branch.status === 'correct') {
-          setTsumegoStatus('success');
-          setNotification(branch.message || "恭喜，回答正确！");
-          if (currentTsumego) markTsumegoSolved(currentTsumego.id);
+          completeTsumego(branchCredit(playedTsumego!, branch), branch, moves);
           return true;
       }
 
       // If status is 'continue', check response
       if (branch.response) {
            setIsAiThinking(true);
-           setTurn('white');
+           setTurn(opponent);
            
            await new Promise(r => setTimeout(r, 600));
            
-           const aiRes = makeMove(result.newGrid, branch.response.x, branch.response.y, 'white');
+           const aiRes = makeMove(result.newGrid, branch.response.x, branch.response.y, opponent, koStateRef.current);
            if (aiRes.success) {
+               recordMove(koStateRef.current, aiRes.hash!, opponent);
                setGrid(aiRes.newGrid);
-               setHistory(prev => [...prev, { x: branch.response!.x, y: branch.response!.y, color: 'white', captures: aiRes.captures }]);
+               setRecord(prev => playMove(prev, { x: branch.response!.x, y: branch.response!.y, color: opponent, captures: aiRes.captures }));
                
                // Advance the tree
                if (branch.next) {
                    setTsumegoNode(branch.next);
-                   setTurn('black');
+                   setTurn(player);
                } else {
-                   setTsumegoStatus('success');
-                   if (currentTsumego) markTsumegoSolved(currentTsumego.id);
-                   setNotification(branch.message || "恭喜，回答正确！");
+                   completeTsumego('full', branch, [...moves, branch.response]);
                }
            }
            setIsAiThinking(false);
@@ -287,21 +472,94 @@ const App: React.FC = () => {
       return true;
   };
 
+  // Solver reading in the AI worker; null when the problem has no target to read for.
+  // Rejects with an AbortError when the problem is restarted or left (cancelAiMove) meanwhile.
+  const readTsumego = async (board: (StoneColor | null)[][], toMove: StoneColor, ko: Point | null = null): Promise<TsumegoReading | null> => {
+      if (!tsumegoSpec) return null;
+      const controller = new AbortController();
+      aiAbortRef.current = controller;
+      try {
+          return await requestTsumegoReading(board, toMove, tsumegoSpec, ko, { signal: controller.signal });
+      } finally {
+          if (aiAbortRef.current === controller) aiAbortRef.current = null;
+      }
+  };
+
+  // A line that ends in an answer. Partial credit (a ko where the problem has better) doesn't count as solved.
+  const completeTsumego = (credit: TsumegoCredit, branch: TsumegoNode[string] | undefined, moves: Point[]) => {
+      const partial = credit === 'partial';
+      const outcome = branch?.outcome ? `（${OUTCOME_LABELS[branch.outcome]}）` : '';
+      setTsumegoStatus(partial ? 'partial' : 'success');
+      setNotification(branch?.message || (partial ? `部分正确${outcome}，还有更好的下法` : `恭喜，回答正确${outcome}！`));
+      if (!partial && currentTsumego) markTsumegoSolved(currentTsumego.id);
+      logTsumegoAttempt(partial ? 'partial' : 'success', moves);
+  };
+
+  // Play the opponent's answer; null when the rules reject it
+  const playTsumegoResponse = (board: (StoneColor | null)[][], response: Point) => {
+      const color = getOpponent(tsumegoColor);
+      const aiRes = makeMove(board, response.x, response.y, color, koStateRef.current);
+      if (!aiRes.success) return null;
+      recordMove(koStateRef.current, aiRes.hash!, color);
+      setGrid(aiRes.newGrid);
+      setRecord(prev => playMove(prev, { x: response.x, y: response.y, color, captures: aiRes.captures }));
+      return aiRes;
+  };
+
+  // Explain a failure (when enabled) and add the attempt to the problem's log
+  const logTsumegoAttempt = async (
+      result: TsumegoAttempt['result'],
+      moves: Point[],
+      failure?: { after: (StoneColor | null)[][], move: Point, refutation?: Point }
+  ) => {
+      const problem = playedTsumego;
+      if (!problem) return;
+      const run = tsumegoRunRef.current;
+      const vertices = moves.map(m => pointToGtp(m, problem.boardSize));
+      let explanation: string | undefined;
+      if (failure && explainSettings.explain) {
+          explanation = explainWrongMove(failure.after, failure.move, failure.refutation);
+          setTsumegoExplanation(explanation);
+          if (explainSettings.online && canRewordOnline()) {
+              const start = createEmptyGrid(problem.boardSize);
+              problem.initialStones.forEach(s => start[s.y][s.x] = s.color);
+              explanation = await rewordExplanation(start, vertices, explanation, tsumegoPlayer(problem));
+              if (tsumegoRunRef.current === run) setTsumegoExplanation(explanation);
+          }
+      }
+      const attempts = recordAttempt(problem.id, { date: Date.now(), result, moves: vertices, explanation });
+      if (tsumegoRunRef.current === run) setTsumegoAttempts(attempts);
+  };
+
   const handleTsumegoHint = async () => {
-      if (!tsumegoNode || phase !== 'tsumego-playing') return;
+      if (!tsumegoNode || phase !== 'tsumego-playing' || isAiThinking) return;
       
-      // Find the first correct or continue move in the current node
-      const correctMoveKey = Object.keys(tsumegoNode).find(key => {
+      // Find the first correct or continue move in the current node, preferring answers without a ko
+      const answers = Object.keys(tsumegoNode).filter(key => {
           const status = tsumegoNode[key].status;
           return status === 'correct' || status === 'continue';
       });
+      const correctMoveKey = answers.find(key => tsumegoNode[key].outcome !== 'ko') ?? answers[0];
+      // Off the tree (or past its end) the solver looks for the answer
+      let reading: TsumegoReading | null = null;
+      if (!correctMoveKey) {
+          setIsAiThinking(true);
+          try {
+              reading = await readTsumego(grid, tsumegoColor);
+          } catch (e) {
+              if (isAbortError(e)) return; // Restarted or left meanwhile
+              console.error("Tsumego solver failed", e);
+          }
+          setIsAiThinking(false);
+      }
+      const solverMove = reading?.status === 'achieved' && reading.move !== 'PASS' ? reading.move : undefined;
 
-      if (correctMoveKey) {
-          const [x, y] = correctMoveKey.split(',').map(Number);
+      if (correctMoveKey || solverMove) {
+          const [x, y] = correctMoveKey ? correctMoveKey.split(',').map(Number) : [solverMove!.x, solverMove!.y];
           
           // CRITICAL FIX: Verify the move is valid before proclaiming success
           // Check if space is occupied or suicidal
-          const testResult = makeMove(grid, x, y, 'black');
+          const testResult = makeMove(grid, x, y, tsumegoColor, koStateRef.current);
           if (!testResult.success) {
               setNotification("AI 提示错误：正解坐标非法 (此题数据可能有误)");
               return;
@@ -325,8 +583,11 @@ const App: React.FC = () => {
     if (territoryMap) setTerritoryMap(undefined);
 
     if (isPass) {
-      setHistory(prev => [...prev, { x: -1, y: -1, color, captures: 0, pass: true }]);
+      // Stamped outside the updater: StrictMode runs updaters twice, and the stamp applies the increment
+      const stamp = stampClock(color);
+      setRecord(prev => playMove(prev, { x: -1, y: -1, color, captures: 0, pass: true, ...stamp }));
       setTurn((color === 'black' ? 'white' : 'black') as StoneColor);
+      recordPass(koStateRef.current, color);
       const lastMove = history[history.length - 1];
       if (lastMove && lastMove.pass) {
         endGame();
@@ -334,23 +595,26 @@ const App: React.FC = () => {
       return true;
     }
 
-    const result = makeMove(grid, x, y, color);
-    if (!result.success) return false;
-
-    const boardHash = JSON.stringify(result.newGrid);
-    if (boardHistoryRef.current.includes(boardHash)) {
-      alert("打劫规则：不能立即全局同型。");
+    const result = makeMove(grid, x, y, color, koStateRef.current, getRuleSet(config?.rules).suicideAllowed);
+    if (!result.success) {
+      if (result.reason === 'ko') {
+        alert(`打劫规则（${KO_RULE_LABELS[koStateRef.current.rule]}）：不能形成重复局面。`);
+      }
       return false;
     }
 
+    const opponent: StoneColor = color === 'black' ? 'white' : 'black';
     setGrid(result.newGrid);
     setCaptures(prev => ({
       ...prev,
-      [color]: prev[color] + result.captures
+      [color]: prev[color] + result.captures,
+      // Suicide (where allowed) hands the removed stones to the opponent as prisoners
+      [opponent]: prev[opponent] + (result.selfCaptured?.length || 0)
     }));
-    setHistory(prev => [...prev, { x, y, color, captures: result.captures }]);
+    const stamp = stampClock(color);
+    setRecord(prev => playMove(prev, { x, y, color, captures: result.captures, ...stamp }));
     setTurn((color === 'black' ? 'white' : 'black') as StoneColor);
-    boardHistoryRef.current.push(boardHash);
+    recordMove(koStateRef.current, result.hash!, color);
 
     return true;
   };
@@ -358,17 +622,30 @@ const App: React.FC = () => {
   const replayGame = (moves: Move[], targetConfig: GameConfig) => {
       const size = targetConfig.boardSize;
       let tempGrid = createEmptyGrid(size);
+      // Setup stones from an imported SGF
+      targetConfig.initialStones?.forEach(s => {
+          tempGrid[s.y][s.x] = s.color;
+      });
       let tempCaptures = { black: 0, white: 0 };
-      const tempBoardHistory: string[] = [];
+      const firstTurn: StoneColor = moves.length > 0 ? moves[0].color : (targetConfig.handicap > 0 ? 'white' : 'black');
+      const koState = createKoState(tempGrid, targetConfig.koRule ?? DEFAULT_KO_RULE, firstTurn);
 
+      // The record is authoritative, so moves are replayed without ko checks and only recorded
       moves.forEach(move => {
           if (!move.pass) {
-              const res = makeMove(tempGrid, move.x, move.y, move.color);
+              const res = makeMove(tempGrid, move.x, move.y, move.color, undefined, getRuleSet(targetConfig.rules).suicideAllowed);
               if (res.success) {
+                  let hash = hashAfterMove(getCurrentHash(koState), size, move.x, move.y, move.color, res.capturedPoints);
+                  if (res.selfCaptured) {
+                      hash = toggleStones(hash, size, res.selfCaptured, move.color);
+                      tempCaptures[move.color === 'black' ? 'white' : 'black'] += res.selfCaptured.length;
+                  }
+                  recordMove(koState, hash, move.color);
                   tempGrid = res.newGrid;
                   tempCaptures[move.color] += res.captures;
-                  tempBoardHistory.push(JSON.stringify(tempGrid));
               }
+          } else {
+              recordPass(koState, move.color);
           }
       });
       
@@ -379,33 +656,48 @@ const App: React.FC = () => {
           grid: tempGrid,
           captures: tempCaptures,
           turn: nextTurn,
-          boardHistory: tempBoardHistory
+          koState
       };
   };
 
+  // Take back the user's last move and the reply to it, replaying the rest to restore the board, ko and tree
+  const undoTsumego = (problem: TsumegoProblem) => {
+      cancelAiMove(); // A solver reading for the undone move
+      const player = tsumegoPlayer(problem);
+      const steps = history.length >= 2 && history[history.length - 1].color === getOpponent(player) ? 2 : 1;
+      const kept = history.slice(0, history.length - steps);
+
+      let board = createEmptyGrid(problem.boardSize);
+      problem.initialStones.forEach(s => board[s.y][s.x] = s.color);
+      const koState = createKoState(board, DEFAULT_KO_RULE, player);
+      let node: TsumegoNode = problem.solutionTree;
+      let branch: TsumegoNode[string] | undefined;
+      kept.forEach(m => {
+          const result = makeMove(board, m.x, m.y, m.color, koState);
+          if (!result.success) return;
+          recordMove(koState, result.hash!, m.color);
+          board = result.newGrid;
+          if (m.color === player) branch = node[`${m.x},${m.y}`];
+          else node = branch?.next ?? {}; // Past the tree the solver answers, as after an off-tree move
+      });
+
+      koStateRef.current = koState;
+      setGrid(board);
+      setRecord(createGameRecord(kept));
+      setTurn(player);
+      setTsumegoNode(node);
+      setTsumegoStatus('playing');
+      setTsumegoExplanation(null);
+      tsumegoRunRef.current++;
+  };
+
   const handleUndo = () => {
-    if (isAiThinking || !config || history.length === 0 || isReviewMode) return;
+    if (!config || history.length === 0 || isReviewMode) return;
+    if (phase !== 'tsumego-playing') cancelAiMove();
     
     // Tsumego Undo
     if (phase === 'tsumego-playing') {
-        if (window.confirm("死活题模式下建议重新挑战。确定要悔棋吗？")) {
-             // Logic to step back 2 steps if AI responded
-             let steps = 1;
-             if (history.length >= 2 && history[history.length-1].color === 'white') steps = 2;
-             
-             const newHistory = history.slice(0, history.length - steps);
-             // Rebuild grid from initial
-             const empty = createEmptyGrid(currentTsumego!.boardSize);
-             currentTsumego!.initialStones.forEach(s => empty[s.y][s.x] = s.color);
-             
-             newHistory.forEach(m => {
-                 makeMove(empty, m.x, m.y, m.color); // Assume valid
-             });
-             setGrid(empty);
-             setHistory(newHistory);
-             setTsumegoStatus('playing');
-             startTsumego(currentTsumego!); // Force restart for now
-        }
+        if (playedTsumego && window.confirm("死活题模式下建议重新挑战。确定要悔棋吗？")) undoTsumego(playedTsumego);
         return;
     }
 
@@ -415,10 +707,12 @@ const App: React.FC = () => {
     let stepsToUndo = 0;
     const lastMove = history[history.length - 1];
     
-    if (lastMove.color !== config.playerColor) {
+    if (getGameMode(config) === 'two-player') {
+        stepsToUndo = 1;
+    } else if (lastMove.color !== config.playerColor) {
         stepsToUndo = 2; 
     } else {
-        stepsToUndo = 2; 
+        stepsToUndo = 1; // The AI was still thinking about its reply
     }
 
     if (history.length - stepsToUndo < config.handicap) {
@@ -429,32 +723,85 @@ const App: React.FC = () => {
         }
     }
 
-    const newHistory = history.slice(0, history.length - stepsToUndo);
-    const restoredState = replayGame(newHistory, config);
+    // Undo only moves the cursor; the undone moves stay in the tree for redo
+    const newRecord = goToIndex(record, history.length - stepsToUndo);
+    const restoredState = replayGame(getCurrentMoves(newRecord), config);
     
-    setHistory(newHistory);
+    setRecord(newRecord);
     setGrid(restoredState.grid);
     setCaptures(restoredState.captures);
     setTurn(restoredState.turn);
-    boardHistoryRef.current = restoredState.boardHistory;
+    koStateRef.current = restoredState.koState;
     setScoreResult(null);
+    setDeadStones([]);
     setPhase('playing');
   };
 
+  const handleRedo = () => {
+    if (isAiThinking || !config || isReviewMode || phase !== 'playing') return;
+    if (record.index >= lineMoves.length) return;
+
+    // Step forward until it is the player's turn again (or the line ends)
+    let newIndex = record.index;
+    do {
+        newIndex++;
+    } while (newIndex < lineMoves.length && !isHumanTurn(config, lineMoves[newIndex].color));
+
+    const newRecord = goToIndex(record, newIndex);
+    const restoredState = replayGame(getCurrentMoves(newRecord), config);
+
+    if (territoryMap) setTerritoryMap(undefined);
+    setRecord(newRecord);
+    setGrid(restoredState.grid);
+    setCaptures(restoredState.captures);
+    setTurn(restoredState.turn);
+    koStateRef.current = restoredState.koState;
+  };
+
   useEffect(() => {
-    if (phase !== 'playing' || !config || isReviewMode) return;
+    if (phase !== 'playing' || !config || isReviewMode || isAiThinking) return;
+    if (getGameMode(config) === 'ai-vs-ai' && isAiPaused && aiSteps === 0) return;
     
-    if (turn !== config.playerColor) {
+    if (getPlayerType(config, turn) === 'ai') {
+      const difficulty = getAiDifficulty(config, turn);
       const performAiMove = async () => {
+        const controller = new AbortController();
+        aiAbortRef.current = controller;
         setIsAiThinking(true);
+        setAiProgress(0);
         const lastMove = history.length > 0 && !history[history.length-1].pass 
             ? history[history.length-1] 
             : null;
 
-        const aiMove = await getAIMove(grid, turn, config.difficulty, lastMove, config.aiMode);
+        let aiMove: AiMove;
+        try {
+            const result = await requestEngineMove(getEngineId(config), {
+                grid, color: turn, difficulty, lastMove, ko: koStateRef.current,
+                // One seed per move number, so undoing and replaying a move gets the same answer
+                seed: config.seed !== undefined ? deriveSeed(config.seed, history.length) : undefined,
+                komi: config.komi, rules: config.rules, captures, history, initialStones: config.initialStones
+            }, {
+                signal: controller.signal,
+                onProgress: setAiProgress
+            });
+            aiMove = result.move;
+            if (result.fallbackReason) {
+                setNotification(`${result.fallbackReason}，已改用${result.engine.name}`);
+                setTimeout(() => setNotification(null), 3000);
+                setEngineIssue({ reason: result.fallbackReason, details: result.diagnostics || [] });
+                if (result.diagnostics?.length) console.warn(result.fallbackReason, result.diagnostics);
+            }
+        } catch (e) {
+            if (isAbortError(e)) return; // Game left, undone or restarted meanwhile
+            console.error("AI failed, forcing pass", e);
+            aiMove = 'PASS';
+        }
+        if (aiAbortRef.current !== controller) return;
+        aiAbortRef.current = null;
+        setAiSteps(steps => Math.max(0, steps - 1));
         
         if (aiMove === 'PASS') {
-          setNotification(`AI (${DIFFICULTY_LABELS[config.difficulty]}) 停一手`);
+          setNotification(`AI (${DIFFICULTY_LABELS[difficulty]}) 停一手`);
           setTimeout(() => setNotification(null), 3000);
           executeMove(0, 0, turn, true);
         } else {
@@ -469,36 +816,84 @@ const App: React.FC = () => {
 
       performAiMove();
     }
-  }, [turn, phase, config, grid, isReviewMode]);
+  }, [turn, phase, config, grid, isReviewMode, isAiPaused, aiSteps]);
 
+  // Run the clock of the side to move
+  useEffect(() => {
+    const tc = config?.timeControl;
+    if (phase !== 'playing' || isReviewMode || !isTimed(tc) || !clocksRef.current) return;
+
+    let lastTick = Date.now();
+    const timer = setInterval(() => {
+        const current = clocksRef.current;
+        if (!current) return;
+        const now = Date.now();
+        const { clock, flagged } = tickClock(current[turn], tc, (now - lastTick) / 1000);
+        lastTick = now;
+        if (shouldWarn(current[turn], clock, tc)) playClockWarning(clock.time <= 3);
+        updateClocks({ ...current, [turn]: clock });
+        if (flagged) handleTimeout(turn);
+    }, 200);
+    return () => clearInterval(timer);
+  }, [turn, phase, config, isReviewMode, record]);
+
+  const handleTimeout = (color: StoneColor) => {
+    cancelAiMove();
+    setPhase('finished');
+    setScoreResult({
+        blackTerritory: 0, whiteTerritory: 0, blackCaptures: 0, whiteCaptures: 0, komi: 0,
+        winner: color === 'black' ? 'white' : 'black',
+        margin: 0,
+        reason: 'time',
+        rules: config?.rules
+    });
+    if (config && history.length > 0) {
+        performSave(config, record, true);
+    }
+  };
+
+  // Both players passed: mark dead stones before the result is fixed
   const endGame = () => {
+    if (!config) return;
+    const guessed = guessDeadStones(grid);
+    setDeadStones(guessed);
+    setTerritoryMap(scoreGame(grid, captures, config, guessed).territoryMap);
     setPhase('scoring');
-    calculateScore(true); 
+  };
+
+  const toggleDeadStones = (x: number, y: number) => {
+    if (!config) return;
+    const newDeadStones = toggleDeadGroup(grid, deadStones, x, y);
+    setDeadStones(newDeadStones);
+    setTerritoryMap(scoreGame(grid, captures, config, newDeadStones).territoryMap);
+  };
+
+  const confirmScore = () => {
+    calculateScore(true);
+    setPhase('finished');
     if (config && history.length > 0) {
-        performSave(config, history, true);
+        performSave(config, record, true);
     }
   };
 
+  // Disagreement about dead stones is settled by playing on
+  const continuePlaying = () => {
+    setDeadStones([]);
+    setTerritoryMap(undefined);
+    setPhase('playing');
+  };
+
   const calculateScore = (isFinal = false) => {
     if (!config) return;
-    const { black: bArea, white: wArea, territoryMap } = calculateTerritory(grid);
-    const komi = config.komi;
-    
-    const totalBlack = bArea; 
-    const totalWhite = wArea + komi;
+    // Mid-game estimates judge group status themselves; final scores use the marked dead stones
+    const { result, territoryMap } = isFinal || phase === 'scoring'
+        ? scoreGame(grid, captures, config, deadStones)
+        : estimatePosition(grid, captures, config);
 
     setTerritoryMap(territoryMap);
     
     if (isFinal) {
-        setScoreResult({
-            blackTerritory: bArea,
-            whiteTerritory: wArea,
-            blackCaptures: captures.black,
-            whiteCaptures: captures.white,
-            komi,
-            winner: totalBlack > totalWhite ? 'black' : 'white',
-            margin: Math.abs(totalBlack - totalWhite)
-        });
+        setScoreResult(result);
     }
   };
 
@@ -511,83 +906,163 @@ const App: React.FC = () => {
   };
 
   const handlePass = () => {
-    if (config?.playerColor === turn) {
+    if (isHumanTurn(config, turn)) {
         executeMove(0, 0, turn, true);
     }
   };
   
   const handleResign = () => {
+    cancelAiMove();
     setPhase('finished');
     setScoreResult({
         blackTerritory: 0, whiteTerritory: 0, blackCaptures: 0, whiteCaptures: 0, komi: 0,
         winner: turn === 'black' ? 'white' : 'black',
-        margin: 0 
+        margin: 0,
+        reason: 'resign',
+        rules: config?.rules
     });
     if (config && history.length > 0) {
-        performSave(config, history, true);
+        performSave(config, record, true);
     }
   };
 
   const handleManualSave = () => {
       if (config) {
-          performSave(config, history);
+          performSave(config, record);
       }
   };
 
-  const loadSavedGame = (game: any) => {
+  const loadSavedGame = (game: SavedGame) => {
+      cancelAiMove();
+      setEngineIssue(null);
+      // Older saves stored a flat move list
+      const loadedRecord = game.tree
+          ? createRecordFromTree(game.tree, game.line)
+          : createGameRecord(game.history || []);
+
       setConfig(game.config);
-      setHistory(game.history);
+      setGameInfo(game.info || null);
+      setRecord(loadedRecord);
       setIsReviewMode(true);
-      setReviewIndex(game.history.length);
       setCurrentGameId(game.id);
       
-      const restored = replayGame(game.history, game.config);
+      const restored = replayGame(getCurrentMoves(loadedRecord), game.config);
+      updateClocks(isTimed(game.config.timeControl) ? restoreClocks(game.config.timeControl, getCurrentMoves(loadedRecord)) : null);
       setGrid(restored.grid);
       setCaptures(restored.captures);
       setTurn(restored.turn);
+      koStateRef.current = restored.koState;
       setPhase('playing');
       setScoreResult(null);
+      setDeadStones([]);
       setTerritoryMap(undefined);
       setShowSavedGames(false);
   };
 
-  const jumpToMove = (index: number) => {
+  // Show the position reached by a record (review navigation)
+  const showRecord = (newRecord: GameRecord) => {
       if (!config) return;
-      if (index < 0 || index > history.length) return;
-      const partialHistory = history.slice(0, index);
-      const restored = replayGame(partialHistory, config);
+      const restored = replayGame(getCurrentMoves(newRecord), config);
+      setRecord(newRecord);
       setGrid(restored.grid);
       setCaptures(restored.captures);
-      setReviewIndex(index);
+      setTurn(restored.turn);
+      koStateRef.current = restored.koState;
+  };
+
+  const jumpToMove = (index: number) => {
+      if (index < 0 || index > lineMoves.length) return;
+      showRecord(goToIndex(record, index));
+  };
+
+  const chooseVariation = (childIndex: number) => {
+      showRecord(selectVariation(record, childIndex));
+  };
+
+  const deleteCurrentVariation = () => {
+      if (record.index === 0 || isOnMainLine(record)) return;
+      // Drop the branch from the last point where the line left the main line
+      const branchIndex = record.line.reduce((found, childIndex, i) => childIndex !== 0 ? i + 1 : found, 0);
+      showRecord(deleteVariationAt(record, branchIndex));
+  };
+
+  // Review mode: clicking the board explores a new variation without AI replies
+  const exploreMove = (x: number, y: number) => {
+      const result = makeMove(grid, x, y, turn, koStateRef.current, getRuleSet(config?.rules).suicideAllowed);
+      if (!result.success) return;
+      showRecord(playMove(record, { x, y, color: turn, captures: result.captures }));
   };
 
   const enterReviewMode = () => {
+      cancelAiMove();
       setIsReviewMode(true);
-      setReviewIndex(history.length);
+  };
+
+  // Comment the current line's key moves (online model or local stand-in); comments go into the record
+  const runAiReview = async () => {
+      if (!config || reviewAbortRef.current) return;
+      enterReviewMode();
+      const controller = new AbortController();
+      reviewAbortRef.current = controller;
+      setReviewProgress(0);
+      const reviewed = record;
+      const moves = getLineMoves(reviewed);
+      try {
+          const review = await reviewGame(moves, config, { signal: controller.signal, onProgress: setReviewProgress });
+          const comments = new Map<number, string>();
+          moves.forEach((move, i) => {
+              const texts = review.comments.filter(c => c.moveNumber === i + 1).map(c => c.comment);
+              if (i === moves.length - 1) texts.push(`总评：${review.summary}`);
+              comments.set(i + 1, mergeReviewComment(move.comment, texts.join('\n') || undefined));
+          });
+          // Navigation may have moved the cursor meanwhile; the comments belong to the reviewed line
+          setRecord(prev => ({ ...prev, root: setLineComments({ ...prev, line: reviewed.line }, comments).root }));
+          setNotification(review.fallbackReason
+              ? `${review.fallbackReason}，已改用${review.reviewer}复盘`
+              : `复盘完成：${review.comments.length} 条点评`);
+      } catch (e) {
+          if (isAbortError(e)) return;
+          console.error("AI review failed", e);
+          setNotification('复盘失败');
+      } finally {
+          if (reviewAbortRef.current === controller) reviewAbortRef.current = null;
+          setReviewProgress(null);
+      }
+      setTimeout(() => setNotification(null), 3000);
   };
 
   const resumeGame = () => {
       if (config) {
-        const restored = replayGame(history, config);
+        // Continue from the end of the line currently followed
+        const newRecord = goToIndex(record, record.line.length);
+        const restored = replayGame(getCurrentMoves(newRecord), config);
+        if (isTimed(config.timeControl)) {
+            updateClocks(restoreClocks(config.timeControl, getCurrentMoves(newRecord)));
+        }
+        setRecord(newRecord);
         setGrid(restored.grid);
         setCaptures(restored.captures);
         setTurn(restored.turn);
+        koStateRef.current = restored.koState;
         setPhase('playing');
       }
       setIsReviewMode(false);
   };
 
   const goHome = () => {
+      cancelAiMove();
       setPhase('home');
       setConfig(null);
       setGrid(createEmptyGrid(19));
       setCurrentGameId(null);
+      setGameInfo(null);
       setScoreResult(null);
+      setDeadStones([]);
   };
 
   const downloadSGF = () => {
     if (!config) return;
-    const sgfContent = generateSGF(history, config.handicap, config.komi, config.boardSize, scoreResult?.winner === 'black' ? 'B+Resign' : 'W+Resign');
+    const sgfContent = generateSGF(record.root, config.handicap, config.komi, config.boardSize, scoreResult ? formatSgfResult(scoreResult) : undefined, config.initialStones, config.timeControl);
     const blob = new Blob([sgfContent], { type: 'application/x-go-sgf' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -610,12 +1085,29 @@ const App: React.FC = () => {
     }
   };
 
+  // Ownership shading while the estimate is shown during play
+  const estimate = useMemo(() => (
+      territoryMap && config && phase === 'playing' ? estimatePosition(grid, captures, config) : null
+  ), [territoryMap, grid, captures, config, phase]);
+
+  const tacticalHints = useMemo(() => (
+      showHints && phase === 'playing' ? findTacticalHints(grid, turn) : undefined
+  ), [showHints, grid, turn, phase]);
+
   const getEstimationStats = () => {
       if (!territoryMap || !config) return null;
-      const { black, white } = calculateTerritory(grid);
-      return { black, white, komi: config.komi };
+      const { result } = estimate || scoreGame(grid, captures, config, deadStones);
+      // `white` already includes komi and handicap compensation
+      return {
+          black: result.blackScore!,
+          white: result.whiteScore!,
+          komi: config.komi,
+          compensation: result.handicapCompensation || 0,
+          rules: getRuleSet(config.rules)
+      };
   };
   const est = getEstimationStats();
+  const nextVariations = getNextVariations(record);
 
   // --- RENDER ---
 
@@ -638,10 +1130,37 @@ const App: React.FC = () => {
               onSelectProblem={startTsumego}
               onBack={() => setPhase('home')}
               solvedProblemIds={solvedTsumegoIds}
+              userProblems={userTsumego}
+              onCreate={() => openTsumegoEditor(null)}
+              onEdit={openTsumegoEditor}
+              onDelete={deleteTsumego}
+              onImport={importTsumego}
+          />
+      );
+  }
+
+  if (phase === 'tsumego-editor') {
+      return (
+          <TsumegoEditor
+              initial={editingTsumego}
+              onSave={saveTsumego}
+              onPreview={previewTsumego}
+              onBack={closeTsumegoEditor}
           />
       );
   }
 
+  const aiReviewButton = (
+      <button 
+          onClick={runAiReview}
+          disabled={reviewProgress !== null || lineMoves.length === 0}
+          className="w-full py-2 sm:py-2.5 border border-stone-200 text-stone-600 rounded-lg text-xs sm:text-sm font-medium hover:bg-stone-50 disabled:opacity-60 flex items-center justify-center gap-2 transition-colors"
+      >
+          <MessageSquare className="w-4 h-4" /> 
+          {reviewProgress !== null ? `AI 复盘中... ${Math.round(reviewProgress * 100)}%` : 'AI 复盘'}
+      </button>
+  );
+
   return (
     <div className="min-h-screen flex flex-col items-center bg-stone-100 font-sans">
       {phase === 'setup' && (
@@ -666,11 +1185,30 @@ const App: React.FC = () => {
                     <span className="text-amber-600 flex items-center gap-1"><Eye className="w-3 h-3 sm:w-4 sm:h-4"/> 复盘模式</span>
                 ) : (
                     <span className="text-stone-600">
-                        {config?.aiMode === 'online' ? '云端对战' : '本地对战'}
+                        {config && getGameMode(config) !== 'human-vs-ai'
+                            ? GAME_MODE_LABELS[getGameMode(config)]
+                            : (config ? getEngineName(config) : '')}
                     </span>
                 )}
+                {!isReviewMode && engineIssue && (
+                    <button
+                        onClick={() => alert([engineIssue.reason, ...engineIssue.details].join('\n'))}
+                        className="text-amber-600 hover:text-amber-700"
+                        title={engineIssue.reason}
+                    >
+                        <AlertTriangle className="w-3 h-3 sm:w-4 sm:h-4"/>
+                    </button>
+                )}
             </div>
         )}
+        {phase !== 'tsumego-playing' && config && clocks && isTimed(config.timeControl) && (
+            <GameClock
+                clocks={clocks}
+                timeControl={config.timeControl}
+                turn={turn}
+                running={phase === 'playing' && !isReviewMode}
+            />
+        )}
         {phase === 'tsumego-playing' && (
             <div className="flex items-center gap-2 bg-amber-100 text-amber-800 rounded-full px-2 py-1 sm:px-3 sm:py-1 text-xs sm:text-sm font-bold truncate max-w-[150px] sm:max-w-none">
                 死活题：{currentTsumego?.title}
@@ -699,9 +1237,14 @@ const App: React.FC = () => {
                 onIntersectionClick={handleIntersectionClick} 
                 lastMove={history.length > 0 && !history[history.length-1].pass ? history[history.length-1] : null}
                 history={history}
+                variations={isReviewMode && nextVariations.length > 1 ? nextVariations.map(v => v.move.pass ? { x: -1, y: -1 } : v.move) : undefined}
                 territoryMap={territoryMap}
-                isInteractive={(phase === 'playing' || phase === 'tsumego-playing') && !isAiThinking && !isReviewMode && tsumegoStatus === 'playing'}
+                deadStones={phase === 'scoring' || phase === 'finished' ? deadStones : estimate?.deadStones}
+                ownership={estimate?.ownership}
+                hints={tacticalHints}
+                isInteractive={(phase === 'playing' || phase === 'tsumego-playing' || phase === 'scoring') && !isAiThinking && tsumegoStatus === 'playing'}
                 theme={config?.boardTheme || 'wood'}
+                rotated={!!config?.autoRotate && getGameMode(config) === 'two-player' && phase === 'playing' && !isReviewMode && turn === 'white'}
                 config={config}
                 scoreResult={scoreResult}
                 captures={captures}
@@ -711,20 +1254,65 @@ const App: React.FC = () => {
             {notification && (
                 <div className={`absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 z-50 px-4 py-2 sm:px-6 sm:py-3 rounded-full shadow-xl animate-in fade-in zoom-in duration-300 pointer-events-none font-bold text-sm sm:text-base whitespace-nowrap ${
                     tsumegoStatus === 'success' ? 'bg-green-600 text-white' : 
+                    tsumegoStatus === 'partial' ? 'bg-amber-500 text-white' :
                     tsumegoStatus === 'fail' ? 'bg-red-600 text-white' : 'bg-black/80 text-white'
                 }`}>
                     {notification}
                 </div>
             )}
             
+            {/* Imported Game Info */}
+            {isReviewMode && gameInfo && (
+                <div className="w-full bg-white px-3 py-2 rounded-xl shadow-sm border border-stone-200 text-xs sm:text-sm text-stone-600 flex flex-wrap items-center justify-center gap-x-3 gap-y-1">
+                    <span className="font-bold text-stone-800">{gameInfo.playerBlack || '黑方'} vs {gameInfo.playerWhite || '白方'}</span>
+                    {gameInfo.result && <span>结果：{gameInfo.result}</span>}
+                    {gameInfo.date && <span className="font-mono text-stone-400">{gameInfo.date}</span>}
+                </div>
+            )}
+
             {/* Review Controls */}
             {isReviewMode && (
                 <div className="flex items-center gap-2 sm:gap-4 bg-white p-2 rounded-xl shadow-sm border border-stone-200 overflow-x-auto w-full justify-center">
                     <button onClick={() => jumpToMove(0)} className="p-2 hover:bg-stone-100 rounded"><Rewind className="w-4 h-4 sm:w-5 sm:h-5"/></button>
-                    <button onClick={() => jumpToMove(reviewIndex - 1)} className="p-2 hover:bg-stone-100 rounded"><SkipBack className="w-4 h-4 sm:w-5 sm:h-5"/></button>
-                    <span className="font-mono text-xs sm:text-sm w-12 sm:w-16 text-center">{reviewIndex} / {history.length}</span>
-                    <button onClick={() => jumpToMove(reviewIndex + 1)} className="p-2 hover:bg-stone-100 rounded"><SkipForward className="w-4 h-4 sm:w-5 sm:h-5"/></button>
-                    <button onClick={() => jumpToMove(history.length)} className="p-2 hover:bg-stone-100 rounded"><FastForward className="w-4 h-4 sm:w-5 sm:h-5"/></button>
+                    <button onClick={() => jumpToMove(record.index - 1)} className="p-2 hover:bg-stone-100 rounded"><SkipBack className="w-4 h-4 sm:w-5 sm:h-5"/></button>
+                    <span className="font-mono text-xs sm:text-sm w-12 sm:w-16 text-center">{record.index} / {lineMoves.length}</span>
+                    <button onClick={() => jumpToMove(record.index + 1)} className="p-2 hover:bg-stone-100 rounded"><SkipForward className="w-4 h-4 sm:w-5 sm:h-5"/></button>
+                    <button onClick={() => jumpToMove(lineMoves.length)} className="p-2 hover:bg-stone-100 rounded"><FastForward className="w-4 h-4 sm:w-5 sm:h-5"/></button>
+                </div>
+            )}
+
+            {/* Variations */}
+            {isReviewMode && config && (nextVariations.length > 1 || !isOnMainLine(record)) && (
+                <div className="w-full bg-white p-2 rounded-xl shadow-sm border border-stone-200 flex flex-wrap items-center gap-2 text-xs sm:text-sm">
+                    <span className="flex items-center gap-1 text-stone-500 font-bold"><GitBranch className="w-4 h-4"/> 变化</span>
+                    {nextVariations.length > 1 && nextVariations.map((v, i) => (
+                        <button
+                            key={v.childIndex}
+                            onClick={() => chooseVariation(v.childIndex)}
+                            className={`px-2 py-1 rounded border font-mono ${record.line[record.index] === v.childIndex ? 'bg-amber-100 border-amber-300 text-amber-800' : 'border-stone-200 text-stone-600 hover:bg-stone-50'}`}
+                        >
+                            {String.fromCharCode(65 + i)}: {v.move.pass ? '停' : pointToGtp(v.move, config.boardSize)}
+                        </button>
+                    ))}
+                    {!isOnMainLine(record) && (
+                        <button onClick={deleteCurrentVariation} className="ml-auto px-2 py-1 rounded text-red-400 hover:bg-red-50 hover:text-red-600 flex items-center gap-1">
+                            <Trash2 className="w-3 h-3"/> 删除此变化
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {/* Tsumego Explanation */}
+            {phase === 'tsumego-playing' && tsumegoStatus === 'fail' && tsumegoExplanation && (
+                <div className="w-full bg-red-50 p-3 rounded-xl border border-red-100 text-xs sm:text-sm text-red-900 whitespace-pre-wrap">
+                    {tsumegoExplanation}
+                </div>
+            )}
+
+            {/* Move Comment */}
+            {isReviewMode && history.length > 0 && history[history.length - 1].comment && (
+                <div className="w-full bg-amber-50 p-3 rounded-xl border border-amber-100 text-xs sm:text-sm text-amber-900 whitespace-pre-wrap">
+                    {history[history.length - 1].comment}
                 </div>
             )}
         </div>
@@ -740,12 +1328,24 @@ const App: React.FC = () => {
                         <div className="p-3 bg-amber-50 rounded-lg border border-amber-100 text-sm text-amber-900">
                             <h3 className="font-bold mb-1">题目描述</h3>
                             <p className="text-xs sm:text-sm">{currentTsumego?.description}</p>
+                            <p className="mt-1 text-xs font-bold">
+                                你执{tsumegoColor === 'black' ? '黑' : '白'}先走{tsumegoSwapped && '（黑白互换）'}
+                            </p>
                         </div>
                         
                         <div className="flex items-center gap-2 mb-4">
-                            <div className={`flex-1 h-2 rounded-full ${tsumegoStatus === 'success' ? 'bg-green-500' : tsumegoStatus === 'fail' ? 'bg-red-500' : 'bg-stone-200'}`}></div>
+                            <div className={`flex-1 h-2 rounded-full ${tsumegoStatus === 'success' ? 'bg-green-500' : tsumegoStatus === 'partial' ? 'bg-amber-500' : tsumegoStatus === 'fail' ? 'bg-red-500' : 'bg-stone-200'}`}></div>
                         </div>
 
+                        {isPreviewingTsumego && (
+                            <button 
+                                onClick={() => openTsumegoEditor(editingTsumego)}
+                                className="w-full py-2.5 sm:py-3 bg-stone-800 text-white font-bold rounded-lg hover:bg-stone-700 flex items-center justify-center gap-2 text-sm"
+                            >
+                                <ArrowLeft className="w-4 h-4" /> 试做中，返回编辑
+                            </button>
+                        )}
+
                         {tsumegoStatus === 'playing' ? (
                             <>
                                 <button 
@@ -760,13 +1360,20 @@ const App: React.FC = () => {
                                 >
                                     <RefreshCw className="w-4 h-4" /> 重置题目
                                 </button>
+                                <button
+                                    onClick={() => currentTsumego && startTsumego(currentTsumego, !tsumegoSwapped)}
+                                    className="w-full py-2.5 sm:py-3 bg-stone-100 text-stone-700 font-bold rounded-lg hover:bg-stone-200 flex items-center justify-center gap-2 text-sm"
+                                    title="交换黑白棋子，从另一方练习同一道题"
+                                >
+                                    <Repeat className="w-4 h-4" /> {tsumegoSwapped ? '恢复原题颜色' : '黑白互换练习'}
+                                </button>
                             </>
                         ) : (
                             <div className="space-y-2 animate-in fade-in slide-in-from-bottom-2">
-                                <div className={`text-center py-2 font-bold ${tsumegoStatus === 'success' ? 'text-green-600' : 'text-red-600'}`}>
-                                    {tsumegoStatus === 'success' ? '挑战成功！' : '挑战失败'}
+                                <div className={`text-center py-2 font-bold ${tsumegoStatus === 'success' ? 'text-green-600' : tsumegoStatus === 'partial' ? 'text-amber-600' : 'text-red-600'}`}>
+                                    {tsumegoStatus === 'success' ? '挑战成功！' : tsumegoStatus === 'partial' ? '部分正确：打劫' : '挑战失败'}
                                 </div>
-                                {tsumegoStatus === 'success' && (
+                                {tsumegoStatus === 'success' && !isPreviewingTsumego && (
                                     <button 
                                         onClick={handleNextTsumego}
                                         className="w-full py-3 bg-amber-600 text-white font-bold rounded-lg hover:bg-amber-700 flex items-center justify-center gap-2 shadow-md animate-pulse"
@@ -781,15 +1388,53 @@ const App: React.FC = () => {
                                     <Repeat className="w-4 h-4" /> 再次尝试
                                 </button>
                                 <button 
-                                    onClick={() => setPhase('tsumego-list')}
+                                    onClick={() => { cancelAiMove(); setPhase('tsumego-list'); }}
                                     className="w-full py-3 bg-white border border-stone-200 text-stone-700 font-bold rounded-lg hover:bg-stone-50 flex items-center justify-center gap-2"
                                 >
                                     <ArrowLeft className="w-4 h-4" /> 返回列表
                                 </button>
                             </div>
                         )}
+                        <div className="pt-2 border-t border-stone-100 space-y-1 text-xs text-stone-600">
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={explainSettings.explain}
+                                    onChange={e => updateExplainSettings({ ...explainSettings, explain: e.target.checked })}
+                                />
+                                答错时讲解原因
+                            </label>
+                            <label className={`flex items-center gap-2 ${explainSettings.explain && canRewordOnline() ? 'cursor-pointer' : 'opacity-50'}`}>
+                                <input
+                                    type="checkbox"
+                                    checked={explainSettings.online}
+                                    disabled={!explainSettings.explain || !canRewordOnline()}
+                                    onChange={e => updateExplainSettings({ ...explainSettings, online: e.target.checked })}
+                                />
+                                使用云端 AI 润色讲解{!canRewordOnline() && ' (不可用)'}
+                            </label>
+                        </div>
+
+                        {tsumegoAttempts.length > 0 && (
+                            <div className="pt-2 border-t border-stone-100">
+                                <h3 className="text-xs font-bold text-stone-700 mb-1">尝试记录</h3>
+                                <ul className="space-y-1 max-h-40 overflow-y-auto text-[11px] text-stone-500">
+                                    {tsumegoAttempts.map(a => (
+                                        <li key={a.date} title={a.explanation}>
+                                            <span className={a.result === 'success' ? 'text-green-600' : a.result === 'partial' ? 'text-amber-600' : 'text-red-500'}>
+                                                {a.result === 'success' ? '✓' : a.result === 'partial' ? '△' : '✗'}
+                                            </span>
+                                            <span className="ml-1 font-mono">{new Date(a.date).toLocaleString()}</span>
+                                            <span className="ml-1 font-mono">{a.moves.join(' ')}</span>
+                                            {a.explanation && <p className="pl-4 text-stone-400">{a.explanation}</p>}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        )}
+
                          <button 
-                            onClick={() => setPhase('home')}
+                            onClick={() => { cancelAiMove(); setPhase('home'); }}
                             className="w-full mt-4 py-2 text-stone-400 text-xs sm:text-sm hover:text-stone-600"
                         >
                             退出练习
@@ -810,7 +1455,7 @@ const App: React.FC = () => {
                                     )
                                 )}
                                 <span className="text-xs sm:text-sm font-bold text-stone-700">
-                                    {isAiThinking ? 'AI 思考中...' : ((phase === 'finished' || phase === 'scoring') ? '对局结束' : (turn === 'black' ? '黑方落子' : '白方落子'))}
+                                    {isAiThinking ? `AI 思考中... ${Math.round(aiProgress * 100)}%` : ((phase === 'finished' || phase === 'scoring') ? '对局结束' : (turn === 'black' ? '黑方落子' : '白方落子'))}
                                 </span>
                             </div>
                             <div className="flex items-center gap-1 text-[10px] sm:text-xs text-stone-500 bg-white px-2 py-1 rounded border border-stone-200">
@@ -822,7 +1467,8 @@ const App: React.FC = () => {
                         {territoryMap && est && (
                             <div className="mb-4 bg-amber-50 rounded-lg p-3 border border-amber-100 animate-in fade-in slide-in-from-top-2">
                                 <div className="text-xs font-bold text-amber-800 mb-2 flex items-center gap-1">
-                                    <Eye className="w-3 h-3" /> 形势判断 (预估)
+                                    <Eye className="w-3 h-3" /> {scoreResult ? '终局计分' : (phase === 'scoring' ? '点目 (确认死子)' : '形势判断 (预估)')}
+                                    <span className="ml-auto font-normal text-amber-700/70">{est.rules.label} · {est.rules.scoring === 'area' ? '数子' : '数目'}</span>
                                 </div>
                                 <div className="space-y-1 text-xs sm:text-sm">
                                     <div className="flex justify-between items-center text-stone-800">
@@ -830,20 +1476,39 @@ const App: React.FC = () => {
                                         <span className="font-mono">{est.black} 目</span>
                                     </div>
                                     <div className="flex justify-between items-center text-stone-600">
-                                        <span className="flex items-center gap-1"><div className="w-2 h-2 bg-white border border-stone-300 rounded-full"></div> 白方 (+{est.komi})</span>
-                                        <span className="font-mono">{est.white + est.komi} 目</span>
+                                        <span className="flex items-center gap-1"><div className="w-2 h-2 bg-white border border-stone-300 rounded-full"></div> 白方 (+{est.komi}{est.compensation > 0 ? ` +${est.compensation}` : ''})</span>
+                                        <span className="font-mono">{est.white} 目</span>
                                     </div>
                                     <div className="border-t border-amber-200/50 mt-1 pt-1 flex justify-between items-center font-bold text-amber-700">
                                         <span>领先</span>
                                         <span>
-                                            {est.black > (est.white + est.komi) ? '黑' : '白'} +{Math.abs(est.black - (est.white + est.komi)).toFixed(1)}
+                                            {est.black === est.white ? '和棋' : `${est.black > est.white ? '黑' : '白'} +${Math.abs(est.black - est.white).toFixed(1)}`}
                                         </span>
                                     </div>
                                 </div>
                             </div>
                         )}
 
-                        {(phase === 'finished' || phase === 'scoring') ? (
+                        {phase === 'scoring' ? (
+                            <div className="space-y-2 sm:space-y-3 animate-in fade-in slide-in-from-bottom-2">
+                                <div className="p-3 bg-stone-50 rounded-lg border border-stone-100 text-xs sm:text-sm text-stone-600">
+                                    点击棋盘上的棋块标记死活，死子显示为半透明。已自动判断一次，请核对后确认。
+                                    {deadStones.length > 0 && <span className="block mt-1 font-bold text-stone-700">已标记死子 {deadStones.length} 枚</span>}
+                                </div>
+                                <button 
+                                    onClick={confirmScore}
+                                    className="w-full py-2.5 sm:py-3 bg-amber-600 text-white font-bold rounded-lg hover:bg-amber-700 flex items-center justify-center gap-2 shadow-sm transition-colors text-sm sm:text-base"
+                                >
+                                    <Flag className="w-4 h-4" /> 确认结果
+                                </button>
+                                <button 
+                                    onClick={continuePlaying}
+                                    className="w-full py-2.5 sm:py-3 bg-stone-100 text-stone-700 font-bold rounded-lg hover:bg-stone-200 flex items-center justify-center gap-2 transition-colors text-sm sm:text-base"
+                                >
+                                    <Play className="w-4 h-4" /> 继续对局
+                                </button>
+                            </div>
+                        ) : phase === 'finished' ? (
                             <div className="space-y-2 sm:space-y-3 animate-in fade-in slide-in-from-bottom-2">
                                 <button 
                                     onClick={restartGame}
@@ -873,6 +1538,7 @@ const App: React.FC = () => {
                                         <RotateCcw className="w-3 h-3 sm:w-4 sm:h-4"/> 复盘
                                     </button>
                                 </div>
+                                {aiReviewButton}
                                 <div className="grid grid-cols-2 gap-2">
                                     <button 
                                         onClick={downloadSGF} 
@@ -891,30 +1557,58 @@ const App: React.FC = () => {
                         ) : (
                             <div className="space-y-2 sm:space-y-3">
                                 {isReviewMode ? (
+                                    <>
                                     <button 
                                         onClick={resumeGame}
                                         className="w-full py-2.5 sm:py-3 bg-amber-600 text-white rounded-lg text-sm font-bold hover:bg-amber-700 flex items-center justify-center gap-2 transition-colors shadow-sm"
                                     >
                                         <Play className="w-4 h-4" /> 结束复盘
                                     </button>
+                                    {aiReviewButton}
+                                    </>
                                 ) : (
                                     <>
+                                        {config && getGameMode(config) === 'ai-vs-ai' ? (
                                         <div className="grid grid-cols-2 gap-2 sm:gap-3">
+                                            <button 
+                                                onClick={() => setIsAiPaused(paused => !paused)}
+                                                className="py-2 sm:py-2.5 bg-stone-100 text-stone-700 font-medium rounded-lg text-xs sm:text-sm hover:bg-stone-200 flex items-center justify-center gap-1 transition-colors"
+                                            >
+                                                {isAiPaused ? <><Play className="w-4 h-4"/> 继续</> : <><Pause className="w-4 h-4"/> 暂停</>}
+                                            </button>
+                                            <button 
+                                                onClick={() => setAiSteps(steps => steps + 1)}
+                                                disabled={!isAiPaused || isAiThinking}
+                                                className="py-2 sm:py-2.5 bg-stone-100 text-stone-700 font-medium rounded-lg text-xs sm:text-sm hover:bg-stone-200 disabled:opacity-50 flex items-center justify-center gap-1 transition-colors"
+                                            >
+                                                <StepForward className="w-4 h-4"/> 单步
+                                            </button>
+                                        </div>
+                                        ) : (
+                                        <div className="grid grid-cols-3 gap-2 sm:gap-3">
                                             <button 
                                                 onClick={handlePass}
-                                                disabled={turn !== config?.playerColor || isAiThinking}
+                                                disabled={!isHumanTurn(config, turn) || isAiThinking}
                                                 className="py-2 sm:py-2.5 bg-stone-100 text-stone-700 font-medium rounded-lg text-xs sm:text-sm hover:bg-stone-200 disabled:opacity-50 transition-colors"
                                             >
                                                 停一手
                                             </button>
                                             <button 
                                                 onClick={handleUndo}
-                                                disabled={isAiThinking || history.length <= (config?.handicap || 0)}
+                                                disabled={history.length <= (config?.handicap || 0)}
                                                 className="py-2 sm:py-2.5 bg-stone-100 text-stone-700 font-medium rounded-lg text-xs sm:text-sm hover:bg-stone-200 disabled:opacity-50 flex items-center justify-center gap-1 transition-colors"
                                             >
                                                 <Undo2 className="w-4 h-4"/> 悔棋
                                             </button>
+                                            <button 
+                                                onClick={handleRedo}
+                                                disabled={isAiThinking || record.index >= lineMoves.length}
+                                                className="py-2 sm:py-2.5 bg-stone-100 text-stone-700 font-medium rounded-lg text-xs sm:text-sm hover:bg-stone-200 disabled:opacity-50 flex items-center justify-center gap-1 transition-colors"
+                                            >
+                                                <Redo2 className="w-4 h-4"/> 重做
+                                            </button>
                                         </div>
+                                        )}
                                         
                                         <button 
                                             onClick={toggleEstimation}
@@ -923,6 +1617,14 @@ const App: React.FC = () => {
                                             <Eye className="w-4 h-4" /> 
                                             {territoryMap ? '关闭形势判断' : '形势判断'}
                                         </button>
+
+                                        <button 
+                                            onClick={() => setShowHints(!showHints)}
+                                            className={`w-full py-2 sm:py-2.5 border rounded-lg text-xs sm:text-sm font-medium flex items-center justify-center gap-2 transition-all ${showHints ? 'bg-amber-100 border-amber-300 text-amber-800' : 'border-stone-200 text-stone-600 hover:bg-stone-50'}`}
+                                        >
+                                            <Crosshair className="w-4 h-4" /> 
+                                            {showHints ? '关闭战术提示' : '战术提示'}
+                                        </button>
                                         
                                         <div className="grid grid-cols-3 gap-2 pt-2 border-t border-stone-100 mt-2">
                                             <button 
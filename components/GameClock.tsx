@@ -0,0 +1,37 @@
+import React from 'react';
+import { StoneColor, TimeControl, PlayerClock } from '../types';
+import { formatClock, WARNING_SECONDS } from '../utils/clock';
+import { Timer } from 'lucide-react';
+
+interface GameClockProps {
+  clocks: Record<StoneColor, PlayerClock>;
+  timeControl: TimeControl;
+  turn: StoneColor;
+  running: boolean;
+}
+
+const GameClock: React.FC<GameClockProps> = ({ clocks, timeControl, turn, running }) => {
+  const renderClock = (color: StoneColor) => {
+    const clock = clocks[color];
+    const isActive = running && turn === color;
+    const isLow = clock.time <= WARNING_SECONDS && (clock.inOvertime || timeControl.type === 'absolute' || timeControl.type === 'fischer');
+    return (
+      <div className={`flex items-center gap-1 px-2 py-0.5 rounded-full font-mono transition-colors ${
+          isActive ? (isLow ? 'bg-red-600 text-white animate-pulse' : 'bg-stone-800 text-white') : 'text-stone-500'
+      }`}>
+        <div className={`w-2 h-2 rounded-full ${color === 'black' ? 'bg-black ring-1 ring-white/30' : 'bg-white border border-stone-300'}`}></div>
+        {formatClock(clock, timeControl)}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex items-center gap-1 bg-stone-100 rounded-full px-1 py-1 text-[10px] sm:text-xs font-medium">
+      <Timer className="w-3 h-3 sm:w-4 sm:h-4 text-stone-400 ml-1" />
+      {renderClock('black')}
+      {renderClock('white')}
+    </div>
+  );
+};
+
+export default GameClock;
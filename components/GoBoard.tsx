@@ -1,6 +1,9 @@
 import React, { useRef, useMemo } from 'react';
-import { StoneColor, Point, BoardTheme, Move, GameConfig, ScoreResult, Difficulty } from '../types';
+import { StoneColor, Point, BoardTheme, Move, GameConfig, ScoreResult } from '../types';
 import { getHoshiPoints } from '../utils/goLogic';
+import { getRuleSet } from '../utils/rules';
+import { getPlayerType, getAiDifficulty, getGameMode, DIFFICULTY_LABELS } from '../utils/players';
+import { TacticalHint } from '../utils/tactics';
 import { User, Bot, Crown } from 'lucide-react';
 
 interface GoBoardProps {
@@ -8,33 +11,32 @@ interface GoBoardProps {
   onIntersectionClick: (x: number, y: number) => void;
   lastMove: Point | null;
   history: Move[];
+  variations?: Point[]; // Review mode: alternatives for the next move, labelled A, B, ...
   territoryMap?: number[][];
+  deadStones?: Point[]; // Scoring phase: stones marked dead are drawn faded
+  ownership?: number[][]; // Estimate: -1 (white) .. 1 (black), shades territory by confidence
+  hints?: TacticalHint[]; // Teaching overlay: chains in ladders/nets and the vital point to play
   isInteractive: boolean;
   theme: BoardTheme;
+  rotated?: boolean; // Two-player auto-rotation: White's view of the board
   config?: GameConfig | null;
   scoreResult?: ScoreResult | null;
   captures?: { black: number, white: number };
 }
 
-const DIFFICULTY_LABELS: Record<Difficulty, string> = {
-    novice: '小白',
-    entry: '入门',
-    beginner: '新手',
-    elementary: '初级',
-    intermediate: '中级',
-    advanced: '高级',
-    master: '大师',
-    grandmaster: '特级'
-};
-
 const GoBoard: React.FC<GoBoardProps> = ({ 
   grid, 
   onIntersectionClick, 
   lastMove, 
   history,
+  variations,
   territoryMap, 
+  deadStones,
+  ownership,
+  hints,
   isInteractive,
   theme,
+  rotated,
   config,
   scoreResult,
   captures
@@ -56,6 +58,22 @@ const GoBoard: React.FC<GoBoardProps> = ({
     return map;
   }, [history]);
 
+  const deadSet = useMemo(() => new Set((deadStones || []).map(p => `${p.x},${p.y}`)), [deadStones]);
+  // Chain stones -> their hint, and vital points -> the hint they resolve
+  const hintStones = useMemo(() => {
+    const map = new Map<string, TacticalHint>();
+    (hints || []).forEach(h => h.chain.forEach(p => map.set(`${p.x},${p.y}`, h)));
+    return map;
+  }, [hints]);
+  const hintKeys = useMemo(() => {
+    const map = new Map<string, TacticalHint>();
+    (hints || []).forEach(h => h.key && map.set(`${h.key.x},${h.key.y}`, h));
+    return map;
+  }, [hints]);
+
+  // Dead stones without an estimate means the players are marking groups, not placing stones
+  const isMarking = !!deadStones && !ownership;
+
   // Theme configuration
   const getThemeStyles = (t: BoardTheme) => {
       switch(t) {
@@ -72,9 +90,13 @@ const GoBoard: React.FC<GoBoardProps> = ({
   const styles = getThemeStyles(theme);
   
   // Player Identification
-  const isPlayerBlack = config?.playerColor === 'black';
-  const playerLabel = "我";
-  const aiLabel = `AI (${config ? DIFFICULTY_LABELS[config.difficulty] : ''})`;
+  const getPlayerLabel = (color: StoneColor) => {
+      if (!config) return '';
+      const mode = getGameMode(config);
+      if (getPlayerType(config, color) === 'ai') return `AI (${DIFFICULTY_LABELS[getAiDifficulty(config, color)]})`;
+      if (mode === 'two-player') return color === 'black' ? '黑方' : '白方';
+      return '我';
+  };
 
   // Winner logic
   const isGameOver = !!scoreResult;
@@ -101,8 +123,9 @@ const GoBoard: React.FC<GoBoardProps> = ({
         }}
         >
         <div 
-            className="w-full h-full border border-opacity-20"
+            className="w-full h-full border border-opacity-20 transition-transform duration-700"
             style={{ 
+            transform: rotated ? 'rotate(180deg)' : undefined,
             display: 'grid', 
             gridTemplateColumns: `repeat(${size}, 1fr)`, 
             gridTemplateRows: `repeat(${size}, 1fr)`,
@@ -113,6 +136,11 @@ const GoBoard: React.FC<GoBoardProps> = ({
                 row.map((stone, x) => {
                     const territoryOwner = territoryMap ? territoryMap[y][x] : 0;
                     const moveNum = moveNumberMap.get(`${x},${y}`);
+                    const isDead = !!stone && deadSet.has(`${x},${y}`);
+                    const confidence = ownership ? Math.abs(ownership[y][x]) : 0.8;
+                    const variationIndex = variations ? variations.findIndex(v => v.x === x && v.y === y) : -1;
+                    const chainHint = stone ? hintStones.get(`${x},${y}`) : undefined;
+                    const keyHint = !stone ? hintKeys.get(`${x},${y}`) : undefined;
                     
                     const isTop = y === 0;
                     const isBottom = y === size - 1;
@@ -133,19 +161,32 @@ const GoBoard: React.FC<GoBoardProps> = ({
                             {isHoshi(x, y) && ( <div className="absolute w-[18%] h-[18%] rounded-full z-0 pointer-events-none" style={{ backgroundColor: styles.star }} /> )}
 
                             {/* Ghost Stone */}
-                            {isInteractive && !stone && ( <div className="w-[90%] h-[90%] rounded-full opacity-0 hover:opacity-40 bg-black transition-opacity z-10 absolute" /> )}
+                            {isInteractive && !stone && !isMarking && ( <div className="w-[90%] h-[90%] rounded-full opacity-0 hover:opacity-40 bg-black transition-opacity z-10 absolute" /> )}
 
                             {/* Stone */}
                             {stone && (
-                                <div className={`w-[95%] h-[95%] rounded-full shadow-md z-20 relative flex items-center justify-center origin-center animate-stone-drop ${ stone === 'black' ? 'bg-gradient-to-br from-gray-800 to-black ring-1 ring-white/5' : 'bg-gradient-to-br from-white to-gray-200 ring-1 ring-black/10' }`}>
+                                <div className={`w-[95%] h-[95%] rounded-full shadow-md z-20 relative flex items-center justify-center origin-center animate-stone-drop ${isDead ? 'opacity-40' : ''} ${ stone === 'black' ? 'bg-gradient-to-br from-gray-800 to-black ring-1 ring-white/5' : 'bg-gradient-to-br from-white to-gray-200 ring-1 ring-black/10' }`}>
                                     {moveNum !== undefined && ( <span className={`text-[8px] sm:text-[10px] md:text-xs font-sans font-medium opacity-90 ${ stone === 'black' ? 'text-white' : 'text-black' }`}> {moveNum} </span> )}
                                     {lastMove && lastMove.x === x && lastMove.y === y && ( <div className={`absolute top-0 left-0 w-full h-full rounded-full border-2 ${stone === 'black' ? 'border-white/50' : 'border-black/50'}`} /> )}
+                                    {chainHint && ( <div className={`absolute -inset-[6%] rounded-full border-2 border-dashed pointer-events-none ${chainHint.status === 'dead' ? 'border-red-500' : 'border-amber-400'}`} /> )}
+                                </div>
+                            )}
+
+                            {/* Variation Marker */}
+                            {!stone && variationIndex >= 0 && (
+                                <div className="absolute w-[70%] h-[70%] rounded-full z-10 bg-amber-100/90 border border-amber-500 flex items-center justify-center text-[8px] sm:text-[10px] md:text-xs font-bold text-amber-800 pointer-events-none">
+                                    {String.fromCharCode(65 + variationIndex)}
                                 </div>
                             )}
 
+                            {/* Tactical Hint: vital point to capture or escape */}
+                            {keyHint && (
+                                <div className={`absolute w-[45%] h-[45%] rounded-full z-10 border-2 pointer-events-none animate-pulse ${keyHint.status === 'dead' ? 'border-red-500' : 'border-amber-500'}`} />
+                            )}
+
                             {/* Territory Marker */}
-                            {!stone && territoryOwner !== 0 && (
-                                <div className={`absolute w-3 h-3 z-10 opacity-80 shadow-sm ${territoryOwner === 1 ? 'bg-black' : 'bg-white border border-gray-400'}`} style={{ backgroundColor: territoryOwner === 1 ? styles.line : '#ffffff' }} />
+                            {(!stone || isDead) && territoryOwner !== 0 && (
+                                <div className={`absolute w-3 h-3 ${isDead ? 'z-30' : 'z-10'} shadow-sm ${territoryOwner === 1 ? 'bg-black' : 'bg-white border border-gray-400'}`} style={{ backgroundColor: territoryOwner === 1 ? styles.line : '#ffffff', opacity: confidence }} />
                             )}
                         </div>
                     );
@@ -167,7 +208,7 @@ const GoBoard: React.FC<GoBoardProps> = ({
                     <div className={`relative flex items-center gap-1.5 px-2 py-1 sm:px-3 sm:py-1.5 rounded-full ${!isGameOver && currentTurn === 'black' ? 'bg-white/10 ring-1 ring-white/20 shadow-lg' : ''}`}>
                         <div className="w-3 h-3 sm:w-4 sm:h-4 rounded-full bg-black ring-1 ring-white/30 shadow-sm"></div>
                         <span className="text-xs sm:text-sm font-bold tracking-wide text-stone-100 max-w-[60px] sm:max-w-none truncate">
-                            {isPlayerBlack ? playerLabel : aiLabel}
+                            {getPlayerLabel('black')}
                         </span>
                         
                         {/* Active Indicator Dot */}
@@ -184,13 +225,14 @@ const GoBoard: React.FC<GoBoardProps> = ({
                          <div className="flex items-center gap-2 mb-1">
                              {winnerColor === 'black' && <Crown className="w-5 h-5 sm:w-6 sm:h-6 text-amber-400 fill-amber-400 animate-bounce" />}
                              <span className="text-2xl sm:text-4xl font-serif font-black text-transparent bg-clip-text bg-gradient-to-b from-amber-200 via-amber-400 to-amber-600 drop-shadow-sm tracking-tight whitespace-nowrap">
-                                {winnerColor === 'black' ? '黑方胜' : '白方胜'}
+                                {winnerColor === 'draw' ? '和棋' : (winnerColor === 'black' ? '黑方胜' : '白方胜')}
                              </span>
                              {winnerColor === 'white' && <Crown className="w-5 h-5 sm:w-6 sm:h-6 text-amber-400 fill-amber-400 animate-bounce" />}
                          </div>
                          <div className="flex items-center gap-2 text-xs sm:text-sm text-amber-200/80 font-medium tracking-widest uppercase">
                             <span className="bg-stone-900/80 backdrop-blur-sm px-4 py-0.5 rounded-full border border-amber-500/30 whitespace-nowrap">
-                                胜 {winMargin?.toFixed(1)} 目
+                                {scoreResult?.reason === 'resign' ? '中盘胜' : scoreResult?.reason === 'time' ? '超时胜' : (winnerColor === 'draw' ? '持棋' : `胜 ${winMargin?.toFixed(1)} 目`)}
+                                {scoreResult?.rules && <span className="ml-2 opacity-60 normal-case">{getRuleSet(scoreResult.rules).label}</span>}
                             </span>
                          </div>
                     </div>
@@ -209,7 +251,7 @@ const GoBoard: React.FC<GoBoardProps> = ({
                 <div className={`relative z-10 flex flex-col items-center gap-1.5 transition-all duration-500 ${isGameOver ? 'scale-75 opacity-30 blur-[0.5px]' : (currentTurn === 'white' ? 'scale-105 opacity-100' : 'opacity-70')} `}>
                     <div className={`relative flex items-center gap-1.5 px-2 py-1 sm:px-3 sm:py-1.5 rounded-full ${!isGameOver && currentTurn === 'white' ? 'bg-white/10 ring-1 ring-white/20 shadow-lg' : ''}`}>
                         <span className="text-xs sm:text-sm font-bold tracking-wide text-stone-100 text-right max-w-[60px] sm:max-w-none truncate">
-                            {!isPlayerBlack ? playerLabel : aiLabel}
+                            {getPlayerLabel('white')}
                         </span>
                         <div className="w-3 h-3 sm:w-4 sm:h-4 rounded-full bg-white shadow-sm"></div>
 
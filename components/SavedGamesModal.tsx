@@ -1,12 +1,19 @@
-import React, { useEffect, useState } from 'react';
-import { GameConfig, Move } from '../types';
-import { Trash2, PlayCircle, Clock, Calendar } from 'lucide-react';
+import React, { useEffect, useState, useRef } from 'react';
+import { GameConfig, Move, GameTreeNode } from '../types';
+import { sgfToGame, SgfGameInfo, SgfParseError } from '../utils/sgf';
+import { getMainLineMoves } from '../utils/gameTree';
+import { getGameMode, GAME_MODE_LABELS } from '../utils/players';
+import { getEngineId, getEngineName, DEFAULT_ENGINE_ID } from '../services/aiEngine';
+import { Trash2, PlayCircle, Clock, Calendar, Upload } from 'lucide-react';
 
-interface SavedGame {
+export interface SavedGame {
   id: string;
   timestamp: number;
   config: GameConfig;
-  history: Move[];
+  tree?: GameTreeNode; // Whole game tree, variations included
+  line?: number[]; // Variation that was being followed when saved
+  history?: Move[]; // Older saves: flat move list
+  info?: SgfGameInfo; // Player names / result from an imported SGF
   thumbnail?: string; // Optional: could store board screenshot dataurl
 }
 
@@ -17,6 +24,8 @@ interface SavedGamesModalProps {
 
 const SavedGamesModal: React.FC<SavedGamesModalProps> = ({ onLoad, onClose }) => {
   const [games, setGames] = useState<SavedGame[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     const loadFromStorage = () => {
@@ -41,6 +50,34 @@ const SavedGamesModal: React.FC<SavedGamesModalProps> = ({ onLoad, onClose }) =>
     localStorage.setItem('zenGoSavedGames', JSON.stringify(newGames));
   };
 
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const imported = sgfToGame(text);
+      setImportError(null);
+      onLoad({
+        id: Date.now().toString(),
+        timestamp: Date.now(),
+        config: imported.config,
+        tree: imported.tree,
+        info: imported.info
+      });
+    } catch (err) {
+      if (err instanceof SgfParseError) {
+        setImportError(err.message);
+      } else {
+        console.error("Error importing SGF", err);
+        setImportError("无法读取该文件");
+      }
+    }
+  };
+
+  const countMoves = (game: SavedGame) => game.tree ? getMainLineMoves(game.tree).length : (game.history?.length || 0);
+
   const formatDate = (ts: number) => {
     return new Date(ts).toLocaleString('zh-CN', {
         month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
@@ -55,9 +92,30 @@ const SavedGamesModal: React.FC<SavedGamesModalProps> = ({ onLoad, onClose }) =>
                 <Calendar className="w-6 h-6" />
                 本地棋谱 ({games.length})
             </h2>
-            <button onClick={onClose} className="text-stone-500 hover:text-stone-800">关闭</button>
+            <div className="flex items-center gap-3">
+                <button 
+                    onClick={() => fileInputRef.current?.click()}
+                    className="px-3 py-1.5 bg-stone-800 text-white text-sm font-medium rounded-lg hover:bg-stone-700 flex items-center gap-1.5 transition-colors"
+                >
+                    <Upload className="w-4 h-4" /> 导入 SGF
+                </button>
+                <input 
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".sgf,application/x-go-sgf"
+                    className="hidden"
+                    onChange={handleImportFile}
+                />
+                <button onClick={onClose} className="text-stone-500 hover:text-stone-800">关闭</button>
+            </div>
         </div>
 
+        {importError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg">
+                导入失败：{importError}
+            </div>
+        )}
+
         <div className="flex-1 overflow-y-auto space-y-3 pr-2">
             {games.length === 0 ? (
                 <div className="text-center text-stone-400 py-10">
@@ -76,11 +134,19 @@ const SavedGamesModal: React.FC<SavedGamesModalProps> = ({ onLoad, onClose }) =>
                             </div>
                             <div>
                                 <div className="font-bold text-stone-800">
-                                    {game.config.playerColor === 'black' ? '执黑' : '执白'} vs AI ({game.config.difficulty})
+                                    {game.info && (game.info.playerBlack || game.info.playerWhite)
+                                        ? `${game.info.playerBlack || '黑方'} vs ${game.info.playerWhite || '白方'}`
+                                        : (getGameMode(game.config) === 'human-vs-ai'
+                                            ? `${game.config.playerColor === 'black' ? '执黑' : '执白'} vs AI (${game.config.difficulty})`
+                                            : GAME_MODE_LABELS[getGameMode(game.config)])}
+                                    {getGameMode(game.config) !== 'two-player' && getEngineId(game.config) !== DEFAULT_ENGINE_ID && (
+                                        <span className="ml-2 text-xs font-normal text-blue-600">{getEngineName(game.config)}</span>
+                                    )}
+                                    {game.info?.result && <span className="ml-2 text-xs font-normal text-stone-500">{game.info.result}</span>}
                                 </div>
                                 <div className="text-xs text-stone-500 flex items-center gap-2">
                                     <Clock className="w-3 h-3" />
-                                    {formatDate(game.timestamp)} • {game.history.length} 手
+                                    {formatDate(game.timestamp)} • {countMoves(game)} 手
                                 </div>
                             </div>
                         </div>
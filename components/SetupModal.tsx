@@ -1,6 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { Difficulty, GameConfig, StoneColor, BoardTheme, AiMode } from '../types';
-import { Brain, Play, Grip, Palette, Shuffle, Grid3X3, Zap, CloudLightning, X } from 'lucide-react';
+import { Difficulty, GameConfig, StoneColor, BoardTheme, KoRule, RuleSet, TimeControl, TimeControlType } from '../types';
+import { DEFAULT_KO_RULE, KO_RULE_LABELS, DEFAULT_RULE_SET, RULE_SETS, getDefaultKomi } from '../utils/rules';
+import { TIME_CONTROL_LABELS, DEFAULT_TIME_CONTROLS, describeTimeControl, isTimed } from '../utils/clock';
+import { GameMode, GAME_MODE_LABELS, DIFFICULTY_LABELS, createPlayers } from '../utils/players';
+import { listEngines, DEFAULT_ENGINE_ID } from '../services/aiEngine';
+import { createRng, randomSeed } from '../utils/random';
+import { Brain, Play, Grip, Palette, Shuffle, Grid3X3, Zap, CloudLightning, X, Timer, Users, RotateCw } from 'lucide-react';
 
 interface SetupModalProps {
   onStart: (config: GameConfig) => void;
@@ -8,24 +13,43 @@ interface SetupModalProps {
 }
 
 const SetupModal: React.FC<SetupModalProps> = ({ onStart, onCancel }) => {
+  const [mode, setMode] = useState<GameMode>('human-vs-ai');
   const [difficulty, setDifficulty] = useState<Difficulty>('elementary');
+  const [whiteDifficulty, setWhiteDifficulty] = useState<Difficulty>('elementary'); // AI vs AI only
+  const [autoRotate, setAutoRotate] = useState(false);
   const [playerColor, setPlayerColor] = useState<StoneColor | 'random'>('black');
   const [handicap, setHandicap] = useState<number>(0);
   const [boardSize, setBoardSize] = useState<number>(19);
   const [boardTheme, setBoardTheme] = useState<BoardTheme>('wood');
-  const [aiMode, setAiMode] = useState<AiMode>('local');
+  const [engine, setEngine] = useState<string>(DEFAULT_ENGINE_ID);
+  const [rules, setRules] = useState<RuleSet>(DEFAULT_RULE_SET);
+  const [koRule, setKoRule] = useState<KoRule>(DEFAULT_KO_RULE);
+  const [timeControl, setTimeControl] = useState<TimeControl>(DEFAULT_TIME_CONTROLS.none);
+
+  // Engines behind local servers only know whether they are reachable after a probe
+  const [, setProbed] = useState(0);
+  useEffect(() => {
+    listEngines().forEach(e => e.probe?.().then(() => setProbed(n => n + 1)));
+  }, []);
 
   useEffect(() => {
     const savedConfig = localStorage.getItem('zenGoConfig');
     if (savedConfig) {
       try {
         const parsed = JSON.parse(savedConfig);
+        if (parsed.mode) setMode(parsed.mode);
         if (parsed.difficulty) setDifficulty(parsed.difficulty);
+        if (parsed.whiteDifficulty) setWhiteDifficulty(parsed.whiteDifficulty);
+        if (parsed.autoRotate !== undefined) setAutoRotate(parsed.autoRotate);
         if (parsed.playerColor) setPlayerColor(parsed.playerColor);
         if (parsed.handicap !== undefined) setHandicap(parsed.handicap);
         if (parsed.boardSize) setBoardSize(parsed.boardSize);
         if (parsed.boardTheme) setBoardTheme(parsed.boardTheme);
-        if (parsed.aiMode) setAiMode(parsed.aiMode);
+        if (parsed.engine) setEngine(parsed.engine);
+        else if (parsed.aiMode === 'online') setEngine('gemini'); // Settings saved before engines were pluggable
+        if (parsed.rules) setRules(parsed.rules);
+        if (parsed.koRule) setKoRule(parsed.koRule);
+        if (parsed.timeControl) setTimeControl(parsed.timeControl);
       } catch (e) {
         console.error("Failed to load settings", e);
       }
@@ -33,9 +57,12 @@ const SetupModal: React.FC<SetupModalProps> = ({ onStart, onCancel }) => {
   }, []);
 
   const handleStart = () => {
+    const seed = randomSeed();
     let finalColor: StoneColor;
-    if (playerColor === 'random') {
-        finalColor = Math.random() < 0.5 ? 'black' : 'white';
+    if (mode !== 'human-vs-ai') {
+        finalColor = 'black';
+    } else if (playerColor === 'random') {
+        finalColor = createRng(seed)() < 0.5 ? 'black' : 'white';
     } else {
         finalColor = playerColor;
     }
@@ -44,24 +71,59 @@ const SetupModal: React.FC<SetupModalProps> = ({ onStart, onCancel }) => {
       difficulty,
       playerColor: finalColor,
       handicap,
-      komi: handicap > 0 ? 0.5 : (finalColor === 'white' ? 6.5 : 7.5),
+      komi: getDefaultKomi(rules, handicap),
+      seed,
       boardSize,
       boardTheme,
-      aiMode
+      engine,
+      rules,
+      koRule,
+      ...(isTimed(timeControl) ? { timeControl } : {}),
+      ...(mode !== 'human-vs-ai' ? { players: createPlayers(mode, finalColor) } : {}),
+      ...(mode === 'ai-vs-ai' ? { aiDifficulties: { black: difficulty, white: whiteDifficulty } } : {}),
+      ...(mode === 'two-player' ? { autoRotate } : {})
     };
 
     localStorage.setItem('zenGoConfig', JSON.stringify({
+        mode,
         difficulty,
+        whiteDifficulty,
+        autoRotate,
         playerColor,
         handicap,
         boardSize,
         boardTheme,
-        aiMode
+        engine,
+        rules,
+        koRule,
+        timeControl
     }));
 
     onStart(config);
   };
 
+  // A rule set brings its own ko rule; it can still be overridden below
+  const handleRulesChange = (next: RuleSet) => {
+    setRules(next);
+    setKoRule(RULE_SETS[next].koRule);
+  };
+
+  // Numeric time settings are edited in minutes or seconds; the config stores seconds
+  const updateTime = (field: keyof TimeControl, value: string, unit = 1) => {
+    const n = parseInt(value, 10);
+    if (Number.isNaN(n) || n < 0) return;
+    setTimeControl(prev => ({ ...prev, [field]: n * unit }));
+  };
+
+  const timeFields: { field: keyof TimeControl, label: string, unit: number, types: TimeControlType[] }[] = [
+      { field: 'mainTime', label: '基本时间 (分)', unit: 60, types: ['absolute', 'byoyomi', 'canadian', 'fischer'] },
+      { field: 'periods', label: '读秒次数', unit: 1, types: ['byoyomi'] },
+      { field: 'periodTime', label: '每次 (秒)', unit: 1, types: ['byoyomi'] },
+      { field: 'stones', label: '每段手数', unit: 1, types: ['canadian'] },
+      { field: 'periodTime', label: '每段 (分)', unit: 60, types: ['canadian'] },
+      { field: 'increment', label: '每手加秒', unit: 1, types: ['fischer'] },
+  ];
+
   const themes: {id: BoardTheme, name: string, color: string}[] = [
       { id: 'wood', name: '木纹', color: '#e3c08d' },
       { id: 'warm', name: '黄玉', color: '#f5e6bb' },
@@ -70,16 +132,8 @@ const SetupModal: React.FC<SetupModalProps> = ({ onStart, onCancel }) => {
       { id: 'paper', name: '云白', color: '#f0f0f0' },
   ];
 
-  const difficulties: {id: Difficulty, label: string}[] = [
-      { id: 'novice', label: '小白' },
-      { id: 'entry', label: '入门' },
-      { id: 'beginner', label: '新手' },
-      { id: 'elementary', label: '初级' },
-      { id: 'intermediate', label: '中级' },
-      { id: 'advanced', label: '高级' },
-      { id: 'master', label: '大师' },
-      { id: 'grandmaster', label: '特级' },
-  ];
+  const difficulties: {id: Difficulty, label: string}[] = (Object.keys(DIFFICULTY_LABELS) as Difficulty[])
+      .map(id => ({ id, label: DIFFICULTY_LABELS[id] }));
 
   // Helper to get preview style
   const getPreviewStyle = () => {
@@ -139,32 +193,57 @@ const SetupModal: React.FC<SetupModalProps> = ({ onStart, onCancel }) => {
             </div>
         </div>
 
+        {/* Game Mode */}
+        <div className="mb-4">
+             <label className="block text-sm font-medium text-stone-700 mb-2 flex items-center gap-2">
+                <Users className="w-4 h-4 text-stone-400" /> 对局模式
+             </label>
+             <div className="flex bg-stone-100 p-1 rounded-lg">
+                 {(Object.keys(GAME_MODE_LABELS) as GameMode[]).map(m => (
+                     <button
+                        key={m}
+                        onClick={() => setMode(m)}
+                        className={`flex-1 py-2 rounded-md text-xs sm:text-sm font-medium transition-all ${mode === m ? 'bg-white shadow-sm text-black' : 'text-stone-500'}`}
+                     >
+                        {GAME_MODE_LABELS[m]}
+                     </button>
+                 ))}
+             </div>
+             {mode === 'two-player' && (
+                 <label className="mt-2 flex items-center justify-between text-xs sm:text-sm text-stone-600 cursor-pointer">
+                    <span className="flex items-center gap-2"><RotateCw className="w-4 h-4 text-stone-400" /> 轮到白方时旋转棋盘 (面对面对弈)</span>
+                    <input type="checkbox" checked={autoRotate} onChange={(e) => setAutoRotate(e.target.checked)} className="accent-stone-800" />
+                 </label>
+             )}
+        </div>
+
         {/* AI Mode & Difficulty */}
+        {mode !== 'two-player' && (
         <div className="mb-4 p-3 bg-stone-50 rounded-xl border border-stone-100">
              <label className="text-xs font-bold text-stone-500 uppercase tracking-wider mb-2 block">AI 引擎</label>
              <div className="flex gap-2 mb-3">
-                 <button
-                    onClick={() => setAiMode('local')}
-                    className={`flex-1 py-1.5 sm:py-2 rounded-lg text-xs sm:text-sm font-medium border flex items-center justify-center gap-1.5 transition-all ${
-                        aiMode === 'local' 
-                        ? 'bg-white border-amber-500 text-amber-700 shadow-sm ring-1 ring-amber-500' 
-                        : 'bg-stone-100 border-transparent text-stone-500 hover:bg-white hover:border-stone-300'
-                    }`}
-                 >
-                    <Zap className="w-3 h-3 sm:w-4 sm:h-4" /> 本地 (极速)
-                 </button>
-                 <button
-                    onClick={() => setAiMode('online')}
-                    className={`flex-1 py-1.5 sm:py-2 rounded-lg text-xs sm:text-sm font-medium border flex items-center justify-center gap-1.5 transition-all ${
-                        aiMode === 'online' 
-                        ? 'bg-white border-blue-500 text-blue-700 shadow-sm ring-1 ring-blue-500' 
-                        : 'bg-stone-100 border-transparent text-stone-500 hover:bg-white hover:border-stone-300'
-                    }`}
-                 >
-                    <CloudLightning className="w-3 h-3 sm:w-4 sm:h-4" /> 云端 (强力)
-                 </button>
+                 {listEngines().map(e => {
+                     const available = e.isAvailable();
+                     const Icon = e.capabilities.offline ? Zap : CloudLightning;
+                     return (
+                         <button
+                            key={e.id}
+                            onClick={() => setEngine(e.id)}
+                            disabled={!available}
+                            title={e.description}
+                            className={`flex-1 py-1.5 sm:py-2 rounded-lg text-xs sm:text-sm font-medium border flex items-center justify-center gap-1.5 transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                                engine === e.id 
+                                ? (e.capabilities.offline ? 'bg-white border-amber-500 text-amber-700 shadow-sm ring-1 ring-amber-500' : 'bg-white border-blue-500 text-blue-700 shadow-sm ring-1 ring-blue-500')
+                                : 'bg-stone-100 border-transparent text-stone-500 hover:bg-white hover:border-stone-300'
+                            }`}
+                         >
+                            <Icon className="w-3 h-3 sm:w-4 sm:h-4" /> {e.name}{!available && ' (不可用)'}
+                         </button>
+                     );
+                 })}
              </div>
 
+             {mode === 'ai-vs-ai' && <label className="text-xs text-stone-500 mb-1 block">黑方 AI</label>}
              <div className="grid grid-cols-4 gap-1 bg-stone-200 p-1 rounded-lg">
                 {difficulties.map((d) => (
                     <button
@@ -178,7 +257,27 @@ const SetupModal: React.FC<SetupModalProps> = ({ onStart, onCancel }) => {
                     </button>
                 ))}
             </div>
+
+            {mode === 'ai-vs-ai' && (
+                <>
+                    <label className="text-xs text-stone-500 mt-3 mb-1 block">白方 AI</label>
+                    <div className="grid grid-cols-4 gap-1 bg-stone-200 p-1 rounded-lg">
+                        {difficulties.map((d) => (
+                            <button
+                                key={d.id}
+                                onClick={() => setWhiteDifficulty(d.id as Difficulty)}
+                                className={`py-1.5 text-[10px] sm:text-xs font-medium rounded-md transition-all ${
+                                whiteDifficulty === d.id ? 'bg-white text-stone-900 shadow-sm font-bold' : 'text-stone-500 hover:text-stone-700'
+                                }`}
+                            >
+                                {d.label}
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
         </div>
+        )}
 
         {/* Board Settings */}
         <div className="space-y-4 mb-6">
@@ -203,6 +302,7 @@ const SetupModal: React.FC<SetupModalProps> = ({ onStart, onCancel }) => {
                 </div>
             </div>
 
+            {mode === 'human-vs-ai' && (
             <div>
                  <label className="block text-sm font-medium text-stone-700 mb-2">执棋颜色</label>
                  <div className="flex bg-stone-100 p-1 rounded-lg">
@@ -226,6 +326,7 @@ const SetupModal: React.FC<SetupModalProps> = ({ onStart, onCancel }) => {
                      </button>
                  </div>
             </div>
+            )}
 
             <div className="flex items-center justify-between">
                 <label className="text-sm font-medium text-stone-700 flex items-center gap-2">
@@ -244,6 +345,75 @@ const SetupModal: React.FC<SetupModalProps> = ({ onStart, onCancel }) => {
                 </div>
             </div>
 
+            <div>
+                 <label className="block text-sm font-medium text-stone-700 mb-2 flex items-center justify-between">
+                    规则
+                    <span className="text-xs font-normal text-stone-400">
+                        {RULE_SETS[rules].scoring === 'area' ? '数子法' : '数目法'} · 贴 {getDefaultKomi(rules, handicap)} 目
+                    </span>
+                 </label>
+                 <div className="grid grid-cols-4 gap-1 bg-stone-100 p-1 rounded-lg">
+                     {(Object.keys(RULE_SETS) as RuleSet[]).map(r => (
+                         <button
+                            key={r}
+                            onClick={() => handleRulesChange(r)}
+                            className={`py-2 rounded-md text-xs sm:text-sm font-medium transition-all ${rules === r ? 'bg-white shadow-sm text-black' : 'text-stone-500'}`}
+                         >
+                            {RULE_SETS[r].label}
+                         </button>
+                     ))}
+                 </div>
+            </div>
+
+            <div>
+                 <label className="block text-sm font-medium text-stone-700 mb-2">打劫规则</label>
+                 <div className="flex bg-stone-100 p-1 rounded-lg">
+                     {(Object.keys(KO_RULE_LABELS) as KoRule[]).map(rule => (
+                         <button
+                            key={rule}
+                            onClick={() => setKoRule(rule)}
+                            className={`flex-1 py-2 rounded-md text-xs sm:text-sm font-medium transition-all ${koRule === rule ? 'bg-white shadow-sm text-black' : 'text-stone-500'}`}
+                         >
+                            {KO_RULE_LABELS[rule]}
+                         </button>
+                     ))}
+                 </div>
+            </div>
+
+            <div>
+                 <label className="block text-sm font-medium text-stone-700 mb-2 flex items-center justify-between">
+                    <span className="flex items-center gap-2"><Timer className="w-4 h-4 text-stone-400" /> 用时</span>
+                    {isTimed(timeControl) && <span className="text-xs font-normal text-stone-400">{describeTimeControl(timeControl)}</span>}
+                 </label>
+                 <div className="grid grid-cols-5 gap-1 bg-stone-100 p-1 rounded-lg">
+                     {(Object.keys(TIME_CONTROL_LABELS) as TimeControlType[]).map(type => (
+                         <button
+                            key={type}
+                            onClick={() => setTimeControl(DEFAULT_TIME_CONTROLS[type])}
+                            className={`py-2 rounded-md text-xs sm:text-sm font-medium transition-all ${timeControl.type === type ? 'bg-white shadow-sm text-black' : 'text-stone-500'}`}
+                         >
+                            {TIME_CONTROL_LABELS[type]}
+                         </button>
+                     ))}
+                 </div>
+                 {isTimed(timeControl) && (
+                     <div className="grid grid-cols-3 gap-2 mt-2">
+                         {timeFields.filter(f => f.types.includes(timeControl.type)).map(f => (
+                             <label key={`${f.field}-${f.label}`} className="text-[10px] sm:text-xs text-stone-500">
+                                 {f.label}
+                                 <input
+                                    type="number"
+                                    min={f.field === 'mainTime' || f.field === 'increment' ? 0 : 1}
+                                    value={Math.round(((timeControl[f.field] as number | undefined) ?? 0) / f.unit)}
+                                    onChange={(e) => updateTime(f.field, e.target.value, f.unit)}
+                                    className="mt-1 w-full px-2 py-1 border border-stone-200 rounded-md text-sm text-stone-800 font-mono"
+                                 />
+                             </label>
+                         ))}
+                     </div>
+                 )}
+            </div>
+
              <div className="flex items-center justify-between">
                 <label className="text-sm font-medium text-stone-700">让子 ({handicap})</label>
                 <input 
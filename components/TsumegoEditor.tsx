@@ -0,0 +1,491 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { TsumegoProblem, TsumegoNode, TsumegoGoal, TsumegoOutcome, Difficulty, StoneColor, Point, Move } from '../types';
+import { createEmptyGrid, makeMove, pointToGtp, getOpponent } from '../utils/goLogic';
+import { TsumegoIssue, validateTsumego } from '../utils/tsumegoValidation';
+import { createUserProblemId } from '../utils/tsumegoCollection';
+import { OUTCOME_LABELS, tsumegoPlayer } from '../utils/tsumegoPlay';
+import { DIFFICULTY_LABELS } from '../utils/players';
+import { requestTsumegoValidation, isAbortError } from '../services/aiClient';
+import GoBoard from './GoBoard';
+import { ArrowLeft, PenTool, Save, Play, Undo2, SkipBack, Trash2, ShieldCheck } from 'lucide-react';
+
+interface TsumegoEditorProps {
+  initial: TsumegoProblem | null; // Problem to edit; null starts a new one
+  onSave: (problem: TsumegoProblem) => void;
+  onPreview: (problem: TsumegoProblem) => void;
+  onBack: () => void;
+}
+
+type EditorMode = 'setup' | 'solution';
+type SetupTool = StoneColor | 'erase';
+type BranchStatus = TsumegoNode[string]['status'];
+
+const STATUS_LABELS: Record<BranchStatus, string> = {
+    correct: '正解',
+    wrong: '失败',
+    continue: '继续'
+};
+
+const BOARD_SIZES = [9, 13, 19];
+
+const colorName = (color: StoneColor) => color === 'black' ? '黑' : '白';
+// The description a new problem starts with; replaced along with the side to move until it is edited
+const defaultDescription = (toMove: StoneColor) => `${colorName(toMove)}先。`;
+
+const createProblem = (): TsumegoProblem => ({
+    id: createUserProblemId(),
+    title: '',
+    description: defaultDescription('black'),
+    difficulty: 'beginner',
+    boardSize: 9,
+    initialStones: [],
+    solutionTree: {},
+    goal: 'kill'
+});
+
+const keyOf = (p: Point) => `${p.x},${p.y}`;
+
+// Walks `path` (the side to move first, alternating) through a tree being edited. `node` is where the side
+// to move plays next, `branch` the branch of its last move; missing `next` nodes are created on the way.
+const walk = (tree: TsumegoNode, path: Point[]) => {
+    let node = tree;
+    let branch: TsumegoNode[string] | undefined;
+    path.forEach((p, i) => {
+        if (i % 2 === 0) {
+            branch = node[keyOf(p)];
+        } else if (branch) {
+            if (!branch.next) branch.next = {};
+            node = branch.next;
+        }
+    });
+    return { node, branch };
+};
+
+const TsumegoEditor: React.FC<TsumegoEditorProps> = ({ initial, onSave, onPreview, onBack }) => {
+  const [problem, setProblem] = useState<TsumegoProblem>(() => initial ? structuredClone(initial) : createProblem());
+  const [mode, setMode] = useState<EditorMode>('setup');
+  const [tool, setTool] = useState<SetupTool>('black');
+  const [path, setPath] = useState<Point[]>([]); // Solution mode: the line on the board
+  const [notice, setNotice] = useState<string | null>(null);
+  const [solverIssues, setSolverIssues] = useState<TsumegoIssue[] | null>(null);
+  const [checking, setChecking] = useState(false); // The solver check runs in the AI worker
+  const checkAbortRef = useRef<AbortController | null>(null);
+
+  const cancelSolverCheck = () => {
+      checkAbortRef.current?.abort();
+      checkAbortRef.current = null;
+      setChecking(false);
+  };
+
+  useEffect(() => cancelSolverCheck, []);
+
+  const update = (changes: Partial<TsumegoProblem>) => {
+      setProblem(prev => ({ ...prev, ...changes }));
+      cancelSolverCheck(); // Its result would be for the old problem
+      setSolverIssues(null);
+  };
+
+  // Copy of the tree, edited in place and stored back
+  const editTree = (edit: (tree: TsumegoNode) => void) => {
+      const tree = structuredClone(problem.solutionTree);
+      edit(tree);
+      update({ solutionTree: tree });
+  };
+
+  const player = tsumegoPlayer(problem);
+  const opponent = getOpponent(player);
+
+  // The setup with the line played on it, and the tree read along the line (without creating nodes)
+  const position = useMemo(() => {
+      let grid = createEmptyGrid(problem.boardSize);
+      problem.initialStones.forEach(s => grid[s.y][s.x] = s.color);
+      const history: Move[] = [];
+      let node: TsumegoNode | undefined = problem.solutionTree;
+      let branch: TsumegoNode[string] | undefined;
+      path.forEach((p, i) => {
+          const color: StoneColor = i % 2 === 0 ? player : opponent;
+          const result = makeMove(grid, p.x, p.y, color);
+          grid = result.newGrid;
+          history.push({ x: p.x, y: p.y, color, captures: result.captures });
+          if (i % 2 === 0) branch = node?.[keyOf(p)];
+          else node = branch?.next;
+      });
+      return { grid, history, node, branch };
+  }, [problem, path]);
+
+  const issues = useMemo(() => validateTsumego(problem, { solver: false }), [problem]);
+  const shownIssues = solverIssues ?? issues;
+  const hasErrors = issues.some(i => i.severity === 'error');
+  const playerToMove = path.length % 2 === 0;
+  // Index in `path` of the side to move's last move: the branch the controls edit
+  const branchIndex = path.length === 0 ? -1 : (playerToMove ? path.length - 2 : path.length - 1);
+  const branch = position.branch;
+
+  const switchMode = (next: EditorMode) => {
+      setMode(next);
+      setPath([]);
+      setNotice(null);
+  };
+
+  const handleSetupClick = (x: number, y: number) => {
+      const rest = problem.initialStones.filter(s => s.x !== x || s.y !== y);
+      const existing = problem.initialStones.find(s => s.x === x && s.y === y);
+      const placed = tool === 'erase' || existing?.color === tool ? [] : [{ x, y, color: tool }];
+      update({ initialStones: [...rest, ...placed] });
+  };
+
+  const handleSolutionClick = (x: number, y: number) => {
+      const color = playerToMove ? player : opponent;
+      if (!makeMove(position.grid, x, y, color).success) {
+          setNotice('这里不能落子');
+          return;
+      }
+      const point = { x, y };
+      if (playerToMove && branch && branch.status !== 'continue') {
+          setNotice(`${STATUS_LABELS[branch.status]}分支到此结束，改为“继续”才能往下摆`);
+          return;
+      }
+      setNotice(null);
+
+      if (playerToMove) {
+          // A new move for the side to move starts out as a correct answer
+          editTree(tree => {
+              const { node } = walk(tree, path);
+              if (!node[keyOf(point)]) node[keyOf(point)] = { status: 'correct' };
+          });
+      } else {
+          // The opponent's answer: a correct answer with a reply becomes a continuation, a wrong one gets its refutation
+          editTree(tree => {
+              const { branch: edited } = walk(tree, path);
+              if (!edited) return;
+              if (edited.response && keyOf(edited.response) !== keyOf(point)) delete edited.next;
+              edited.response = point;
+              if (edited.status === 'correct') edited.status = 'continue';
+          });
+      }
+      setPath([...path, point]);
+  };
+
+  const setBranchStatus = (status: BranchStatus) => {
+      editTree(tree => {
+          const { branch: edited } = walk(tree, path.slice(0, branchIndex + 1));
+          if (!edited) return;
+          edited.status = status;
+          if (status !== 'continue') delete edited.next;
+          if (status === 'continue') delete edited.outcome;
+          if (status === 'correct') delete edited.response;
+      });
+      // The line can't go past an answer that now ends it
+      if (status === 'correct') setPath(path.slice(0, branchIndex + 1));
+      if (status === 'wrong') setPath(path.slice(0, branchIndex + 2));
+  };
+
+  const setBranchOutcome = (outcome: TsumegoOutcome | '') => {
+      editTree(tree => {
+          const { branch: edited } = walk(tree, path.slice(0, branchIndex + 1));
+          if (!edited) return;
+          if (outcome) edited.outcome = outcome;
+          else delete edited.outcome;
+      });
+  };
+
+  const setToMove = (toMove: StoneColor) => {
+      const description = problem.description === defaultDescription(player) ? defaultDescription(toMove) : problem.description;
+      update({ toMove, description });
+      setPath([]);
+  };
+
+  const setBranchMessage = (message: string) => {
+      editTree(tree => {
+          const { branch: edited } = walk(tree, path.slice(0, branchIndex + 1));
+          if (!edited) return;
+          if (message) edited.message = message;
+          else delete edited.message;
+      });
+  };
+
+  const deleteBranch = () => {
+      const parentPath = path.slice(0, branchIndex);
+      editTree(tree => {
+          const { node } = walk(tree, parentPath);
+          delete node[keyOf(path[branchIndex])];
+      });
+      setPath(parentPath);
+  };
+
+  const runSolverCheck = async () => {
+      const controller = new AbortController();
+      checkAbortRef.current = controller;
+      setChecking(true);
+      try {
+          const result = await requestTsumegoValidation(problem, { signal: controller.signal });
+          if (checkAbortRef.current === controller) setSolverIssues(result);
+      } catch (e) {
+          if (isAbortError(e)) return; // Edited or left meanwhile
+          setSolverIssues([{ severity: 'error', path: [], message: `验证失败：${e instanceof Error ? e.message : String(e)}` }]);
+      }
+      if (checkAbortRef.current !== controller) return;
+      checkAbortRef.current = null;
+      setChecking(false);
+  };
+
+  const finished = (): TsumegoProblem => ({ ...problem, title: problem.title.trim() || '未命名题目', description: problem.description.trim() });
+
+  // Branches for the side to move at this point of the line, labelled A, B, ... on the board
+  const choices = mode === 'solution' && playerToMove && position.node ? Object.keys(position.node) : [];
+  const variations = choices.map(key => {
+      const [x, y] = key.split(',').map(Number);
+      return { x, y };
+  });
+
+  const toolButton = (value: SetupTool, label: string) => (
+      <button
+          key={value}
+          onClick={() => setTool(value)}
+          className={`flex-1 py-2 rounded-lg text-sm font-bold border transition-colors ${tool === value ? 'bg-stone-800 text-white border-stone-800' : 'bg-white text-stone-600 border-stone-200 hover:bg-stone-50'}`}
+      >
+          {label}
+      </button>
+  );
+
+  return (
+    <div className="min-h-screen bg-stone-100 flex flex-col items-center p-4">
+      <div className="w-full max-w-5xl">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-4 pt-4">
+            <button
+                onClick={onBack}
+                className="p-2 bg-white rounded-full shadow-sm border border-stone-200 text-stone-600 hover:bg-stone-50 transition-colors"
+            >
+                <ArrowLeft className="w-5 h-5" />
+            </button>
+            <h1 className="flex-1 text-2xl font-bold text-stone-800 flex items-center gap-2">
+                <PenTool className="w-6 h-6 text-amber-600" />
+                {initial ? '编辑死活题' : '新建死活题'}
+            </h1>
+        </div>
+
+        <div className="flex flex-col lg:flex-row gap-4 items-start">
+            <div className="w-full lg:flex-1 flex justify-center">
+                <GoBoard
+                    grid={position.grid}
+                    onIntersectionClick={mode === 'setup' ? handleSetupClick : handleSolutionClick}
+                    lastMove={path.length > 0 ? path[path.length - 1] : null}
+                    history={position.history}
+                    variations={variations.length > 0 ? variations : undefined}
+                    isInteractive={true}
+                    theme="wood"
+                />
+            </div>
+
+            <div className="w-full lg:w-96 bg-white rounded-xl shadow-sm border border-stone-200 p-4 space-y-4">
+                {/* Mode */}
+                <div className="flex gap-2">
+                    {(['setup', 'solution'] as EditorMode[]).map(m => (
+                        <button
+                            key={m}
+                            onClick={() => switchMode(m)}
+                            className={`flex-1 py-2 rounded-lg text-sm font-bold transition-colors ${mode === m ? 'bg-amber-600 text-white' : 'bg-stone-100 text-stone-600 hover:bg-stone-200'}`}
+                        >
+                            {m === 'setup' ? '1. 摆放棋子' : '2. 编写解答'}
+                        </button>
+                    ))}
+                </div>
+
+                {mode === 'setup' ? (
+                    <div className="space-y-3 text-sm">
+                        <div className="flex gap-2">
+                            {toolButton('black', '黑子')}
+                            {toolButton('white', '白子')}
+                            {toolButton('erase', '擦除')}
+                        </div>
+                        <label className="block">
+                            <span className="text-xs font-bold text-stone-500">标题</span>
+                            <input
+                                value={problem.title}
+                                onChange={e => update({ title: e.target.value })}
+                                placeholder="例如：直三点眼"
+                                className="mt-1 w-full px-3 py-2 border border-stone-200 rounded-lg"
+                            />
+                        </label>
+                        <label className="block">
+                            <span className="text-xs font-bold text-stone-500">说明</span>
+                            <textarea
+                                value={problem.description}
+                                onChange={e => update({ description: e.target.value })}
+                                rows={2}
+                                className="mt-1 w-full px-3 py-2 border border-stone-200 rounded-lg"
+                            />
+                        </label>
+                        <div className="grid grid-cols-2 gap-2">
+                            <label className="block">
+                                <span className="text-xs font-bold text-stone-500">难度</span>
+                                <select
+                                    value={problem.difficulty}
+                                    onChange={e => update({ difficulty: e.target.value as Difficulty })}
+                                    className="mt-1 w-full px-2 py-2 border border-stone-200 rounded-lg bg-white"
+                                >
+                                    {(Object.keys(DIFFICULTY_LABELS) as Difficulty[]).map(d => (
+                                        <option key={d} value={d}>{DIFFICULTY_LABELS[d]}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="block">
+                                <span className="text-xs font-bold text-stone-500">先走</span>
+                                <select
+                                    value={player}
+                                    onChange={e => setToMove(e.target.value as StoneColor)}
+                                    className="mt-1 w-full px-2 py-2 border border-stone-200 rounded-lg bg-white"
+                                >
+                                    <option value="black">黑先</option>
+                                    <option value="white">白先</option>
+                                </select>
+                            </label>
+                            <label className="block">
+                                <span className="text-xs font-bold text-stone-500">目标</span>
+                                <select
+                                    value={problem.goal ?? 'kill'}
+                                    onChange={e => update({ goal: e.target.value as TsumegoGoal })}
+                                    className="mt-1 w-full px-2 py-2 border border-stone-200 rounded-lg bg-white"
+                                >
+                                    <option value="kill">杀{colorName(opponent)}</option>
+                                    <option value="live">做活</option>
+                                </select>
+                            </label>
+                            <label className="block">
+                                <span className="text-xs font-bold text-stone-500">棋盘</span>
+                                <select
+                                    value={problem.boardSize}
+                                    onChange={e => {
+                                        const size = Number(e.target.value);
+                                        update({ boardSize: size, initialStones: problem.initialStones.filter(s => s.x < size && s.y < size) });
+                                    }}
+                                    className="mt-1 w-full px-2 py-2 border border-stone-200 rounded-lg bg-white"
+                                >
+                                    {BOARD_SIZES.map(s => <option key={s} value={s}>{s}路</option>)}
+                                </select>
+                            </label>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="space-y-3 text-sm">
+                        <p className="text-xs text-stone-500">
+                            在棋盘上交替摆出{colorName(player)}棋的着法和{colorName(opponent)}棋的应对。轮到{colorName(playerToMove ? player : opponent)}棋
+                            {choices.length > 0 && `，字母为已有的分支`}。
+                        </p>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setPath(path.slice(0, -1))}
+                                disabled={path.length === 0}
+                                className="flex-1 py-2 bg-stone-100 text-stone-700 rounded-lg hover:bg-stone-200 disabled:opacity-50 flex items-center justify-center gap-1"
+                            >
+                                <Undo2 className="w-4 h-4" /> 后退
+                            </button>
+                            <button
+                                onClick={() => setPath([])}
+                                disabled={path.length === 0}
+                                className="flex-1 py-2 bg-stone-100 text-stone-700 rounded-lg hover:bg-stone-200 disabled:opacity-50 flex items-center justify-center gap-1"
+                            >
+                                <SkipBack className="w-4 h-4" /> 回到开头
+                            </button>
+                        </div>
+
+                        {branch && branchIndex >= 0 && (
+                            <div className="p-3 bg-stone-50 rounded-lg border border-stone-100 space-y-2">
+                                <div className="text-xs font-bold text-stone-600">
+                                    {colorName(player)} {pointToGtp(path[branchIndex], problem.boardSize)}
+                                    {branch.response && ` → ${colorName(opponent)} ${pointToGtp(branch.response, problem.boardSize)}`}
+                                </div>
+                                <div className="flex gap-2">
+                                    {(Object.keys(STATUS_LABELS) as BranchStatus[]).map(s => (
+                                        <button
+                                            key={s}
+                                            onClick={() => setBranchStatus(s)}
+                                            className={`flex-1 py-1.5 rounded-md text-xs font-bold border ${branch.status === s ? (s === 'wrong' ? 'bg-red-600 text-white border-red-600' : s === 'correct' ? 'bg-green-600 text-white border-green-600' : 'bg-amber-500 text-white border-amber-500') : 'bg-white text-stone-600 border-stone-200'}`}
+                                        >
+                                            {STATUS_LABELS[s]}
+                                        </button>
+                                    ))}
+                                </div>
+                                {branch.status !== 'continue' && (
+                                    <select
+                                        value={branch.outcome ?? ''}
+                                        onChange={e => setBranchOutcome(e.target.value as TsumegoOutcome | '')}
+                                        className="w-full px-2 py-1.5 border border-stone-200 rounded-lg bg-white text-xs"
+                                        title="打劫的正解在题目另有净杀、净活的下法时只得部分分"
+                                    >
+                                        <option value="">结果：未标注</option>
+                                        {(Object.keys(OUTCOME_LABELS) as TsumegoOutcome[]).map(o => (
+                                            <option key={o} value={o}>结果：{OUTCOME_LABELS[o]}</option>
+                                        ))}
+                                    </select>
+                                )}
+                                <input
+                                    value={branch.message ?? ''}
+                                    onChange={e => setBranchMessage(e.target.value)}
+                                    placeholder="提示信息，例如：正解！点在要害。"
+                                    className="w-full px-3 py-2 border border-stone-200 rounded-lg text-xs"
+                                />
+                                <button
+                                    onClick={deleteBranch}
+                                    className="w-full py-1.5 text-xs text-red-600 hover:bg-red-50 rounded-md flex items-center justify-center gap-1"
+                                >
+                                    <Trash2 className="w-3 h-3" /> 删除此分支
+                                </button>
+                            </div>
+                        )}
+                        {notice && <p className="text-xs text-red-600">{notice}</p>}
+                    </div>
+                )}
+
+                {/* Problems found by the validator */}
+                <div className="pt-3 border-t border-stone-100">
+                    <div className="flex items-center justify-between mb-1">
+                        <h3 className="text-xs font-bold text-stone-700">检查结果</h3>
+                        <button
+                            onClick={runSolverCheck}
+                            disabled={checking}
+                            className="text-xs text-amber-700 hover:text-amber-800 flex items-center gap-1 disabled:opacity-50"
+                            title="用死活解算器验证标记的正解和失败"
+                        >
+                            <ShieldCheck className="w-3 h-3" /> {checking ? '验证中...' : '验证解答'}
+                        </button>
+                    </div>
+                    {shownIssues.length === 0 ? (
+                        <p className="text-xs text-green-600">{solverIssues ? '解算器认可全部解答' : '没有发现问题'}</p>
+                    ) : (
+                        <ul className="space-y-1 max-h-40 overflow-y-auto text-[11px]">
+                            {shownIssues.map((issue, i) => (
+                                <li key={i} className={issue.severity === 'error' ? 'text-red-600' : 'text-amber-600'}>
+                                    {issue.path.length > 0 && <span className="font-mono mr-1">{issue.path.join(' ')}</span>}
+                                    {issue.message}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => onPreview(finished())}
+                        disabled={hasErrors}
+                        className="flex-1 py-3 bg-stone-100 text-stone-700 font-bold rounded-lg hover:bg-stone-200 disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                        <Play className="w-4 h-4" /> 试做
+                    </button>
+                    <button
+                        onClick={() => onSave(finished())}
+                        disabled={hasErrors}
+                        className="flex-1 py-3 bg-amber-600 text-white font-bold rounded-lg hover:bg-amber-700 disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                        <Save className="w-4 h-4" /> 保存
+                    </button>
+                </div>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TsumegoEditor;
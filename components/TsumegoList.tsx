@@ -1,12 +1,19 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import { TsumegoProblem, Difficulty } from '../types';
 import { tsumegoProblems } from '../utils/tsumegoData';
-import { ArrowLeft, Brain, Layers, GraduationCap, Medal, Crown, CheckCircle2, BookOpen } from 'lucide-react';
+import { SgfParseError } from '../utils/sgf';
+import { TsumegoImportResult, TsumegoPackError, importTsumego, exportTsumegoSgf, exportTsumegoPack } from '../utils/tsumegoPack';
+import { ArrowLeft, Brain, Layers, GraduationCap, Medal, Crown, CheckCircle2, BookOpen, User, Plus, PenTool, Trash2, Upload, Download } from 'lucide-react';
 
 interface TsumegoListProps {
   onSelectProblem: (problem: TsumegoProblem) => void;
   onBack: () => void;
   solvedProblemIds: string[];
+  userProblems: TsumegoProblem[]; // Made in the editor, listed after the bundled ones
+  onCreate: () => void;
+  onEdit: (problem: TsumegoProblem) => void;
+  onDelete: (problem: TsumegoProblem) => void;
+  onImport: (problems: TsumegoProblem[]) => void;
 }
 
 const DIFFICULTY_CONFIG: Record<Difficulty, { label: string, className: string, bg: string }> = {
@@ -20,27 +27,64 @@ const DIFFICULTY_CONFIG: Record<Difficulty, { label: string, className: string,
     grandmaster: { label: '特级', className: 'bg-purple-700', bg: 'bg-purple-50' }
 };
 
-type TabKey = 'all' | 'novice' | 'beginner' | 'intermediate';
+type TabKey = 'all' | 'novice' | 'beginner' | 'intermediate' | 'mine';
 
-const TsumegoList: React.FC<TsumegoListProps> = ({ onSelectProblem, onBack, solvedProblemIds }) => {
+const TsumegoList: React.FC<TsumegoListProps> = ({ onSelectProblem, onBack, solvedProblemIds, userProblems, onCreate, onEdit, onDelete, onImport }) => {
   const [activeTab, setActiveTab] = useState<TabKey>('all');
+  const [importResult, setImportResult] = useState<TsumegoImportResult | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    try {
+      const result = importTsumego(await file.text(), file.name, [...tsumegoProblems, ...userProblems]);
+      setImportError(null);
+      setImportResult(result);
+      if (result.added.length > 0) {
+        onImport(result.added);
+        setActiveTab('mine');
+      }
+    } catch (err) {
+      setImportResult(null);
+      if (err instanceof SgfParseError || err instanceof TsumegoPackError) {
+        setImportError(err.message);
+      } else {
+        console.error("Error importing tsumego", err);
+        setImportError("无法读取该文件");
+      }
+    }
+  };
+
+  const download = (content: string, type: string, extension: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `zengo_tsumego_${new Date().getTime()}.${extension}`;
+    a.click();
+  };
 
   const tabs: { id: TabKey; label: string; icon: React.ReactNode }[] = [
       { id: 'all', label: '全部', icon: <Layers className="w-4 h-4" /> },
       { id: 'novice', label: '基础吃子', icon: <GraduationCap className="w-4 h-4" /> },
       { id: 'beginner', label: '死活常型', icon: <BookOpen className="w-4 h-4" /> },
       { id: 'intermediate', label: '进阶手筋', icon: <Medal className="w-4 h-4" /> },
+      { id: 'mine', label: `我的题目 (${userProblems.length})`, icon: <User className="w-4 h-4" /> },
   ];
 
   const filteredProblems = useMemo(() => {
-      return tsumegoProblems.filter(p => {
+      if (activeTab === 'mine') return userProblems;
+      return [...tsumegoProblems, ...userProblems].filter(p => {
           if (activeTab === 'all') return true;
           if (activeTab === 'novice') return ['novice', 'entry'].includes(p.difficulty);
           if (activeTab === 'beginner') return ['beginner', 'elementary'].includes(p.difficulty);
           if (activeTab === 'intermediate') return ['intermediate', 'advanced', 'master'].includes(p.difficulty);
           return true;
       });
-  }, [activeTab]);
+  }, [activeTab, userProblems]);
 
   return (
     <div className="min-h-screen bg-stone-100 flex flex-col items-center p-4">
@@ -59,11 +103,53 @@ const TsumegoList: React.FC<TsumegoListProps> = ({ onSelectProblem, onBack, solv
                     死活题大全
                 </h1>
                 <p className="text-sm text-stone-500">
-                    精选 {tsumegoProblems.length} 道 • 已解决 {solvedProblemIds.length} 道
+                    精选 {tsumegoProblems.length} 道{userProblems.length > 0 && ` • 自编 ${userProblems.length} 道`} • 已解决 {solvedProblemIds.length} 道
                 </p>
             </div>
+            <button
+                onClick={onCreate}
+                className="px-3 py-2 bg-amber-600 text-white rounded-lg shadow-sm text-sm font-bold hover:bg-amber-700 flex items-center gap-1"
+            >
+                <Plus className="w-4 h-4" /> 出题
+            </button>
+            <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-3 py-2 bg-white text-stone-700 rounded-lg shadow-sm border border-stone-200 text-sm font-bold hover:bg-stone-50 flex items-center gap-1"
+                title="导入 SGF 或 JSON 题包"
+            >
+                <Upload className="w-4 h-4" /> 导入
+            </button>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".sgf,.json,application/x-go-sgf,application/json"
+                className="hidden"
+                onChange={handleImportFile}
+            />
         </div>
 
+        {importError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 text-sm rounded-lg">
+                导入失败：{importError}
+            </div>
+        )}
+        {importResult && (
+            <div className="mb-4 p-3 bg-white border border-stone-200 text-stone-700 text-sm rounded-lg">
+                <div className="flex justify-between items-start">
+                    <span className="font-bold">
+                        导入 {importResult.added.length} 道
+                        {importResult.duplicates.length > 0 && `，重复 ${importResult.duplicates.length} 道`}
+                        {importResult.skipped.length > 0 && `，无法导入 ${importResult.skipped.length} 道`}
+                    </span>
+                    <button onClick={() => setImportResult(null)} className="text-stone-400 hover:text-stone-700">关闭</button>
+                </div>
+                <ul className="mt-1 text-xs text-stone-500 space-y-0.5 max-h-32 overflow-y-auto">
+                    {importResult.duplicates.map((d, i) => <li key={`d${i}`}>{d.title}：与“{d.existing}”局面相同</li>)}
+                    {importResult.skipped.map((s, i) => <li key={`s${i}`} className="text-red-600">{s.title}：{s.reason}</li>)}
+                </ul>
+            </div>
+        )}
+
         {/* Tabs */}
         <div className="w-full overflow-hidden mb-6">
             <div className="flex overflow-x-auto pb-2 -mx-4 px-4 sm:mx-0 sm:px-0 no-scrollbar space-x-2 sm:space-x-4">
@@ -84,11 +170,30 @@ const TsumegoList: React.FC<TsumegoListProps> = ({ onSelectProblem, onBack, solv
             </div>
         </div>
 
+        {activeTab === 'mine' && userProblems.length > 0 && (
+            <div className="flex justify-end gap-2 mb-4">
+                <button
+                    onClick={() => download(exportTsumegoSgf(userProblems), 'application/x-go-sgf', 'sgf')}
+                    className="px-3 py-1.5 bg-white text-stone-700 rounded-lg border border-stone-200 text-sm font-medium hover:bg-stone-50 flex items-center gap-1.5"
+                >
+                    <Download className="w-4 h-4" /> 导出 SGF
+                </button>
+                <button
+                    onClick={() => download(exportTsumegoPack(userProblems), 'application/json', 'json')}
+                    className="px-3 py-1.5 bg-white text-stone-700 rounded-lg border border-stone-200 text-sm font-medium hover:bg-stone-50 flex items-center gap-1.5"
+                    title="JSON 题包保留难度和目标"
+                >
+                    <Download className="w-4 h-4" /> 导出 JSON
+                </button>
+            </div>
+        )}
+
         {/* Problem Grid */}
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 pb-10">
             {filteredProblems.map((problem) => {
                 const conf = DIFFICULTY_CONFIG[problem.difficulty];
                 const isSolved = solvedProblemIds.includes(problem.id);
+                const isOwn = userProblems.includes(problem);
                 
                 return (
                     <div 
@@ -111,6 +216,24 @@ const TsumegoList: React.FC<TsumegoListProps> = ({ onSelectProblem, onBack, solv
                         <p className="text-xs text-stone-500 line-clamp-2 leading-relaxed">
                             {problem.description}
                         </p>
+                        {isOwn && (
+                            <div className="flex justify-end gap-1 mt-2">
+                                <button
+                                    onClick={e => { e.stopPropagation(); onEdit(problem); }}
+                                    className="p-1.5 rounded-md text-stone-500 hover:bg-white hover:text-amber-700"
+                                    title="编辑"
+                                >
+                                    <PenTool className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={e => { e.stopPropagation(); onDelete(problem); }}
+                                    className="p-1.5 rounded-md text-stone-500 hover:bg-white hover:text-red-600"
+                                    title="删除"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        )}
                     </div>
                 );
             })}
@@ -119,7 +242,7 @@ const TsumegoList: React.FC<TsumegoListProps> = ({ onSelectProblem, onBack, solv
         {filteredProblems.length === 0 && (
             <div className="text-center py-20 text-stone-400 flex flex-col items-center">
                 <Brain className="w-12 h-12 mb-2 opacity-20" />
-                <p>该分类下暂无题目</p>
+                <p>{activeTab === 'mine' ? '还没有自编的题目，点“出题”开始' : '该分类下暂无题目'}</p>
             </div>
         )}
       </div>
@@ -0,0 +1,91 @@
+import readline from 'node:readline';
+import { cleanGtpLine, formatGtpResponse } from '../utils/gtp';
+
+// --- FAKE GTP ENGINE ---
+// A scripted stand-in for GNU Go/KataGo, for exercising the GTP bridge and client without a real engine:
+//   gtp-bridge -- node dist-ssr/fakeGtpEngine.js --moves D4,Q16,pass
+// genmove answers with the scripted moves in turn, then with the first free vertex (A1, B1, ...).
+// `--fail genmove` makes a command fail, `--delay MS` slows genmove down. Captures are not tracked.
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+
+const script = (option('moves') ?? '').split(',').filter(Boolean);
+const failing = option('fail');
+const delayMs = Number(option('delay') ?? 0);
+
+const COLUMNS = 'ABCDEFGHJKLMNOPQRST';
+let size = 19;
+const occupied = new Set<string>();
+
+const firstFreeVertex = (): string => {
+  for (let row = 1; row <= size; row++) {
+    for (let col = 0; col < size; col++) {
+      const vertex = `${COLUMNS[col]}${row}`;
+      if (!occupied.has(vertex)) return vertex;
+    }
+  }
+  return 'pass';
+};
+
+const handle = (name: string, params: string[]): [boolean, string] => {
+  if (name === failing) return [false, 'scripted failure'];
+  switch (name) {
+    case 'protocol_version': return [true, '2'];
+    case 'name': return [true, 'FakeGTP'];
+    case 'version': return [true, '1.0'];
+    case 'list_commands': return [true, ['protocol_version', 'name', 'version', 'boardsize', 'clear_board', 'komi', 'play', 'genmove', 'quit'].join('\n')];
+    case 'boardsize':
+      size = Number(params[0]);
+      if (!(size >= 2 && size <= 19)) return [false, 'unacceptable size'];
+      occupied.clear();
+      return [true, ''];
+    case 'clear_board':
+      occupied.clear();
+      return [true, ''];
+    case 'komi':
+      return Number.isNaN(Number(params[0])) ? [false, 'syntax error'] : [true, ''];
+    case 'play': {
+      const vertex = (params[1] ?? '').toUpperCase();
+      if (vertex !== 'PASS') {
+        if (occupied.has(vertex)) return [false, 'illegal move'];
+        occupied.add(vertex);
+      }
+      return [true, ''];
+    }
+    case 'genmove': {
+      const scripted = script.shift()?.toUpperCase();
+      if (scripted === 'PASS') return [true, 'pass'];
+      const vertex = scripted && !occupied.has(scripted) ? scripted : firstFreeVertex();
+      if (vertex !== 'pass') occupied.add(vertex);
+      return [true, vertex];
+    }
+    case 'quit':
+      return [true, ''];
+    default:
+      return [false, 'unknown command'];
+  }
+};
+
+const input = readline.createInterface({ input: process.stdin });
+// Commands are answered strictly in order, even when genmove is delayed
+let queue = Promise.resolve();
+
+input.on('line', raw => {
+  const line = cleanGtpLine(raw);
+  if (!line) return;
+  queue = queue.then(async () => {
+    const parts = line.split(/\s+/);
+    const id = /^\d+$/.test(parts[0]) ? Number(parts.shift()) : undefined;
+    const [name, ...params] = parts;
+    if (name === 'genmove' && delayMs > 0) await new Promise(r => setTimeout(r, delayMs));
+    const [ok, text] = handle(name, params);
+    process.stdout.write(formatGtpResponse(ok, text, id));
+    if (name === 'quit') process.exit(0);
+  });
+});
+
+input.on('close', () => queue.then(() => process.exit(0)));
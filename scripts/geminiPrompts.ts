@@ -0,0 +1,121 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { GameConfig } from '../types';
+import { GameState, createGameState, applyMove } from '../utils/gameState';
+import { getDefaultKomi } from '../utils/rules';
+import { geminiEngine, setGenAiClient } from '../services/geminiService';
+import { createMockGenAi } from '../services/geminiMock';
+import type { EnginePosition } from '../services/aiEngine';
+
+// --- GEMINI PROMPT SNAPSHOTS ---
+// Runs the online engine against the mock GenAI client on fixed positions and prints every request it sent:
+//   node dist-ssr/geminiPrompts.js [--out prompts.json] [--check prompts.json]
+// --check compares with a saved snapshot and exits with 1 when a prompt changed, so template edits are reviewed.
+// The committed snapshot is scripts/geminiPrompts.snapshot.json (`npm run check:gemini-prompts`); it is taken
+// with the default template, so unset GEMINI_PROMPT_TEMPLATE when checking or regenerating it.
+
+interface PromptCase {
+  name: string;
+  config: Partial<GameConfig>;
+  moves: [number, number][]; // Played alternately from the side to move
+  replies: string[]; // Scripted model answers; the mock passes once they run out
+}
+
+const CASES: PromptCase[] = [
+  { name: 'empty 9x9', config: { boardSize: 9 }, moves: [], replies: ['{"move": "E5"}'] },
+  {
+    // White may not retake at E5; the first two answers are rejected and fed back
+    name: 'ko 9x9 japanese',
+    config: { boardSize: 9, rules: 'japanese' },
+    moves: [[4, 3], [5, 3], [3, 4], [6, 4], [4, 5], [5, 5], [0, 0], [4, 4], [5, 4]],
+    replies: ['{"move": "E5"}', '{"move": "A9"}']
+  },
+  {
+    name: 'handicap 19x19 with setup',
+    config: {
+      boardSize: 19,
+      handicap: 2,
+      initialStones: [{ x: 2, y: 2, color: 'white' }, { x: 16, y: 16, color: 'black' }]
+    },
+    moves: [[15, 3], [3, 15]],
+    replies: ['not json', '{"move": "R14"}']
+  }
+];
+
+const createPosition = (c: PromptCase): EnginePosition => {
+  const rules = c.config.rules ?? 'chinese';
+  const config: GameConfig = {
+    boardTheme: 'wood',
+    playerColor: 'black',
+    difficulty: 'intermediate',
+    handicap: 0,
+    boardSize: 9,
+    rules,
+    komi: getDefaultKomi(rules, c.config.handicap ?? 0),
+    ...c.config
+  };
+  const game: GameState = createGameState(config);
+  c.moves.forEach(([x, y]) => {
+    const reason = applyMove(game, x, y);
+    if (reason) throw new Error(`${c.name}: move ${x},${y} is illegal (${reason})`);
+  });
+  const last = game.history[game.history.length - 1];
+  return {
+    grid: game.grid,
+    color: game.turn,
+    difficulty: config.difficulty,
+    lastMove: last && !last.pass ? last : null,
+    ko: game.ko,
+    komi: config.komi,
+    rules: config.rules,
+    captures: game.captures,
+    history: game.history,
+    initialStones: config.initialStones
+  };
+};
+
+const snapshot = async () => {
+  const results = [];
+  for (const c of CASES) {
+    const mock = createMockGenAi(c.replies);
+    setGenAiClient(mock);
+    const move = await geminiEngine.genMove(createPosition(c));
+    results.push({
+      name: c.name,
+      move,
+      requests: mock.requests.map(r => ({ systemInstruction: r.config?.systemInstruction, contents: r.contents }))
+    });
+  }
+  setGenAiClient(null);
+  return results;
+};
+
+const main = async () => {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const i = args.indexOf(`--${name}`);
+    return i >= 0 ? args[i + 1] : undefined;
+  };
+
+  const results = await snapshot();
+  const json = JSON.stringify(results, null, 2) + '\n';
+  const out = option('out');
+  const check = option('check');
+  if (out) writeFileSync(out, json);
+  if (check) {
+    const saved: { name: string }[] = JSON.parse(readFileSync(check, 'utf8'));
+    const changed = results
+      .filter((r, i) => JSON.stringify(r) !== JSON.stringify(saved[i]))
+      .map(r => r.name);
+    if (changed.length > 0 || saved.length !== results.length) {
+      console.error(`Prompts changed: ${changed.join(', ') || 'number of cases'}`);
+      process.exit(1);
+    }
+    console.error(`${results.length} prompt snapshots match`);
+  }
+  if (!out && !check) process.stdout.write(json);
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,183 @@
+import http from 'node:http';
+import { spawn } from 'node:child_process';
+import { splitGtpResponses, GtpResponse } from '../utils/gtp';
+import {
+  DEFAULT_GTP_BRIDGE_PORT, GtpBridgeInfo, GtpGenMoveRequest, GtpGenMoveResponse, GtpErrorResponse
+} from '../services/gtpProtocol';
+
+// --- GTP BRIDGE ---
+// Spawns a GTP engine (GNU Go, KataGo, ...) and serves it to the app over local HTTP:
+//   npm run gtp-bridge -- [--port 8765] [--timeout 60] gnugo --mode gtp
+// Every /genmove replays the whole game (boardsize, clear_board, komi, play...) before asking for
+// a move, so the engine never has to be kept in sync with undo, branches or reloaded games.
+
+const USAGE = 'Usage: gtp-bridge [--port N] [--timeout SECONDS] <engine command> [engine args...]';
+
+interface BridgeOptions {
+  port: number;
+  timeoutMs: number;
+  command: string;
+  args: string[];
+}
+
+const parseArgs = (argv: string[]): BridgeOptions => {
+  let port = DEFAULT_GTP_BRIDGE_PORT;
+  let timeoutMs = 60_000;
+  let i = 0;
+  for (; i < argv.length; i += 2) {
+    if (argv[i] === '--port') port = Number(argv[i + 1]);
+    else if (argv[i] === '--timeout') timeoutMs = Number(argv[i + 1]) * 1000;
+    else break;
+  }
+  const [command, ...args] = argv.slice(i);
+  if (!command || !Number.isInteger(port) || !(timeoutMs > 0)) {
+    console.error(USAGE);
+    process.exit(2);
+  }
+  return { port, timeoutMs, command, args };
+};
+
+// --- ENGINE PROCESS ---
+
+const startEngine = (options: BridgeOptions) => {
+  const child = spawn(options.command, options.args, { stdio: ['pipe', 'pipe', 'inherit'] });
+  const waiting: { resolve: (r: GtpResponse) => void, reject: (e: Error) => void }[] = [];
+  let buffer = '';
+
+  child.stdout.setEncoding('utf8');
+  child.stdout.on('data', (chunk: string) => {
+    const { responses, rest } = splitGtpResponses(buffer + chunk);
+    buffer = rest;
+    responses.forEach(response => waiting.shift()?.resolve(response));
+  });
+
+  const fail = (error: Error) => {
+    waiting.splice(0).forEach(w => w.reject(error));
+  };
+  child.on('error', error => {
+    fail(error);
+    console.error(`Could not start engine "${options.command}": ${error.message}`);
+    process.exit(1);
+  });
+  child.on('exit', code => {
+    fail(new Error(`Engine exited with code ${code}`));
+    console.error(`Engine exited with code ${code}`);
+    process.exit(1);
+  });
+
+  // Responses arrive in command order, so a FIFO of waiters is enough
+  const send = (command: string): Promise<string> => new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Engine timed out on "${command}"`)), options.timeoutMs);
+    waiting.push({
+      resolve: response => {
+        clearTimeout(timer);
+        if (response.ok) resolve(response.text);
+        else reject(new Error(`${command}: ${response.text}`));
+      },
+      reject: error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    });
+    child.stdin.write(`${command}\n`);
+  });
+
+  // One game replay at a time: commands of concurrent requests must not interleave
+  let queue: Promise<unknown> = Promise.resolve();
+  const exclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task);
+    queue = run.catch(() => {});
+    return run;
+  };
+
+  return { send, exclusive, stop: () => child.kill() };
+};
+
+type Engine = ReturnType<typeof startEngine>;
+
+const genMove = (engine: Engine, request: GtpGenMoveRequest): Promise<string> => engine.exclusive(async () => {
+  await engine.send(`boardsize ${request.size}`);
+  await engine.send('clear_board');
+  await engine.send(`komi ${request.komi}`);
+  for (const play of request.moves) {
+    await engine.send(`play ${play.color} ${play.vertex}`);
+  }
+  return engine.send(`genmove ${request.color}`);
+});
+
+const isGtpColor = (value: unknown): value is 'B' | 'W' => value === 'B' || value === 'W';
+
+const isGenMoveRequest = (body: unknown): body is GtpGenMoveRequest => {
+  if (typeof body !== 'object' || body === null) return false;
+  const { size, komi, color, moves } = body as Record<string, unknown>;
+  return Number.isInteger(size) && typeof komi === 'number' && isGtpColor(color) && Array.isArray(moves) &&
+    moves.every((m: unknown) => {
+      if (typeof m !== 'object' || m === null) return false;
+      const play = m as Record<string, unknown>;
+      return isGtpColor(play.color) && typeof play.vertex === 'string' && /^[a-z0-9]+$/i.test(play.vertex);
+    });
+};
+
+// --- HTTP ---
+
+const readBody = (req: http.IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => body += chunk);
+  req.on('end', () => resolve(body));
+  req.on('error', reject);
+});
+
+const reply = (res: http.ServerResponse, status: number, body?: GtpBridgeInfo | GtpGenMoveResponse | GtpErrorResponse) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    // The app is served from another origin (the Vite dev server or a deployment)
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(body ? JSON.stringify(body) : undefined);
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const engine = startEngine(options);
+  const info: GtpBridgeInfo = {
+    name: await engine.send('name').catch(() => options.command),
+    version: await engine.send('version').catch(() => '')
+  };
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      if (req.method === 'OPTIONS') return reply(res, 204);
+      if (req.method === 'GET' && req.url === '/info') return reply(res, 200, info);
+      if (req.method === 'POST' && req.url === '/genmove') {
+        let body: unknown;
+        try {
+          body = JSON.parse(await readBody(req));
+        } catch {
+          return reply(res, 400, { error: 'Invalid JSON' });
+        }
+        if (!isGenMoveRequest(body)) return reply(res, 400, { error: 'Invalid genmove request' });
+        return reply(res, 200, { move: await genMove(engine, body) });
+      }
+      reply(res, 404, { error: 'Not found' });
+    } catch (e) {
+      reply(res, 502, { error: e instanceof Error ? e.message : String(e) });
+    }
+  });
+
+  server.listen(options.port, '127.0.0.1', () => {
+    console.log(`GTP bridge for ${info.name} ${info.version} on http://localhost:${options.port}`);
+  });
+
+  const shutdown = () => {
+    server.close();
+    engine.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+};
+
+main();
@@ -0,0 +1,124 @@
+import readline from 'node:readline';
+import { Difficulty, GameConfig, RuleSet } from '../types';
+import { gtpToPoint, pointToGtp } from '../utils/goLogic';
+import { cleanGtpLine, formatGtpResponse, formatGtpBoard, fromGtpColor } from '../utils/gtp';
+import { GameState, createGameState, applyMove, applyPass, scoreGameState } from '../utils/gameState';
+import { RULE_SETS, DEFAULT_RULE_SET, getDefaultKomi } from '../utils/rules';
+import { formatSgfResult } from '../utils/scoring';
+import { computeLocalMove } from '../services/localAi';
+
+// --- GTP ENGINE ---
+// The built-in AI as a GTP engine on stdin/stdout, for Sabaki, gogui-twogtp or scripted matches:
+//   node dist-ssr/gtpServer.js [--difficulty master] [--rules japanese]
+// Only GTP goes to stdout; diagnostics go to stderr.
+
+const DIFFICULTIES: Difficulty[] = ['novice', 'entry', 'beginner', 'elementary', 'intermediate', 'advanced', 'master', 'grandmaster'];
+const COMMANDS = [
+  'protocol_version', 'name', 'version', 'known_command', 'list_commands', 'quit',
+  'boardsize', 'clear_board', 'komi', 'play', 'genmove', 'final_score', 'showboard'
+];
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+
+const difficulty = (option('difficulty') ?? 'intermediate') as Difficulty;
+const rules = (option('rules') ?? DEFAULT_RULE_SET) as RuleSet;
+if (!DIFFICULTIES.includes(difficulty) || !RULE_SETS[rules]) {
+  console.error(`Usage: gtpServer [--difficulty ${DIFFICULTIES.join('|')}] [--rules ${Object.keys(RULE_SETS).join('|')}]`);
+  process.exit(2);
+}
+
+const newConfig = (boardSize: number, komi: number): GameConfig => ({
+  boardSize,
+  boardTheme: 'wood',
+  handicap: 0,
+  playerColor: 'black',
+  difficulty,
+  komi,
+  rules
+});
+
+let game: GameState = createGameState(newConfig(19, getDefaultKomi(rules, 0)));
+
+// Returns [success, response text]
+const handle = (name: string, params: string[]): [boolean, string] => {
+  switch (name) {
+    case 'protocol_version': return [true, '2'];
+    case 'name': return [true, 'ZenGo'];
+    case 'version': return [true, difficulty];
+    case 'known_command': return [true, String(COMMANDS.includes(params[0]))];
+    case 'list_commands': return [true, COMMANDS.join('\n')];
+    case 'quit': return [true, ''];
+
+    case 'boardsize': {
+      const size = Number(params[0]);
+      if (!Number.isInteger(size) || size < 2 || size > 19) return [false, 'unacceptable size'];
+      game = createGameState(newConfig(size, game.config.komi));
+      return [true, ''];
+    }
+    case 'clear_board':
+      game = createGameState(game.config);
+      return [true, ''];
+    case 'komi': {
+      const komi = Number(params[0]);
+      if (params[0] === undefined || Number.isNaN(komi)) return [false, 'syntax error'];
+      game.config = { ...game.config, komi };
+      return [true, ''];
+    }
+
+    case 'play': {
+      const color = fromGtpColor(params[0] ?? '');
+      const vertex = params[1] ? gtpToPoint(params[1], game.grid.length) : null;
+      if (!color || !vertex) return [false, 'syntax error'];
+      if (vertex === 'PASS') {
+        applyPass(game, color);
+        return [true, ''];
+      }
+      return applyMove(game, vertex.x, vertex.y, color) ? [false, 'illegal move'] : [true, ''];
+    }
+    case 'genmove': {
+      const color = fromGtpColor(params[0] ?? '');
+      if (!color) return [false, 'syntax error'];
+      const last = game.history[game.history.length - 1];
+      const lastMove = last && !last.pass ? last : null;
+      const move = computeLocalMove(game.grid, color, difficulty, lastMove, game.ko);
+      // The AI only suggests legal moves, but a pass beats an error if that ever breaks
+      if (move === 'PASS' || applyMove(game, move.x, move.y, color)) {
+        applyPass(game, color);
+        return [true, 'pass'];
+      }
+      return [true, pointToGtp(move, game.grid.length)];
+    }
+
+    case 'final_score':
+      return [true, formatSgfResult(scoreGameState(game))];
+    case 'showboard':
+      return [true, `\n${formatGtpBoard(game.grid)}\nBlack captures: ${game.captures.black}, White captures: ${game.captures.white}`];
+
+    default:
+      return [false, 'unknown command'];
+  }
+};
+
+const input = readline.createInterface({ input: process.stdin, terminal: false });
+
+input.on('line', raw => {
+  const line = cleanGtpLine(raw);
+  if (!line) return;
+  const parts = line.split(/\s+/);
+  const id = /^\d+$/.test(parts[0]) ? Number(parts.shift()) : undefined;
+  const [name, ...params] = parts;
+
+  let response: [boolean, string];
+  try {
+    response = handle(name, params);
+  } catch (e) {
+    console.error(e);
+    response = [false, e instanceof Error ? e.message : String(e)];
+  }
+  process.stdout.write(formatGtpResponse(response[0], response[1], id));
+  if (name === 'quit') process.exit(0);
+});
@@ -0,0 +1,260 @@
+import { writeFileSync } from 'node:fs';
+import { AiMove, Difficulty, GameConfig, RuleSet, StoneColor } from '../types';
+import { GameState, createGameState, applyMove, applyPass, isGameOver, scoreGameState } from '../utils/gameState';
+import { RULE_SETS, DEFAULT_RULE_SET, getDefaultKomi } from '../utils/rules';
+import { formatSgfResult } from '../utils/scoring';
+import { Rng, createRng, deriveSeed } from '../utils/random';
+import { computeLocalMove } from '../services/localAi';
+import { getEngine } from '../services/aiEngine';
+
+// --- SELF-PLAY TOURNAMENT ---
+// Round-robin between difficulty levels (and engines), scored by the rules engine, to calibrate the levels:
+//   node dist-ssr/tournament.js novice beginner intermediate [--sizes 9,13] [--games 10] [--seed 1] [--out results.json]
+// Players are difficulty names or engine:<id>[:difficulty]. Every game has its own seed derived from --seed,
+// so local players replay exactly; other engines are not seeded. The JSON report goes to stdout or --out.
+
+const DIFFICULTIES: Difficulty[] = ['novice', 'entry', 'beginner', 'elementary', 'intermediate', 'advanced', 'master', 'grandmaster'];
+const USAGE = `Usage: tournament <player> <player> [...] [--sizes 9,13,19] [--games N] [--seed N] [--rules ${Object.keys(RULE_SETS).join('|')}] [--komi N] [--out FILE]
+  player: ${DIFFICULTIES.join('|')} or engine:<id>[:difficulty]`;
+
+interface TournamentOptions {
+  players: string[];
+  sizes: number[];
+  games: number; // Per pairing and board size; colours alternate
+  seed: number;
+  rules: RuleSet;
+  komi?: number;
+  out?: string;
+}
+
+const fail = (message: string): never => {
+  console.error(message);
+  console.error(USAGE);
+  process.exit(2);
+};
+
+const parseArgs = (argv: string[]): TournamentOptions => {
+  const options: TournamentOptions = { players: [], sizes: [9], games: 10, seed: 1, rules: DEFAULT_RULE_SET };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      options.players.push(arg);
+      continue;
+    }
+    const value = argv[++i];
+    if (value === undefined) fail(`Missing value for ${arg}`);
+    switch (arg) {
+      case '--sizes': options.sizes = value.split(',').map(Number); break;
+      case '--games': options.games = Number(value); break;
+      case '--seed': options.seed = Number(value); break;
+      case '--rules': options.rules = value as RuleSet; break;
+      case '--komi': options.komi = Number(value); break;
+      case '--out': options.out = value; break;
+      default: fail(`Unknown option ${arg}`);
+    }
+  }
+  if (options.players.length < 2) fail('At least two players are needed');
+  if (new Set(options.players).size !== options.players.length) fail('Players must be distinct');
+  if (!options.sizes.every(s => Number.isInteger(s) && s >= 5 && s <= 19)) fail('Board sizes must be 5-19');
+  if (!Number.isInteger(options.games) || options.games < 1) fail('--games must be a positive integer');
+  if (!Number.isInteger(options.seed)) fail('--seed must be an integer');
+  if (!RULE_SETS[options.rules]) fail(`Unknown rule set ${options.rules}`);
+  if (options.komi !== undefined && Number.isNaN(options.komi)) fail('--komi must be a number');
+  return options;
+};
+
+// --- PLAYERS ---
+
+type PlayMove = (game: GameState, rng: Rng) => Promise<AiMove>;
+
+const lastPlayed = (game: GameState) => {
+  const last = game.history[game.history.length - 1];
+  return last && !last.pass ? last : null;
+};
+
+const createPlayer = async (spec: string): Promise<PlayMove> => {
+  if (DIFFICULTIES.includes(spec as Difficulty)) {
+    const difficulty = spec as Difficulty;
+    return async (game, rng) =>
+      computeLocalMove(game.grid, game.turn, difficulty, lastPlayed(game), game.ko, { rng, fixedPlayouts: true });
+  }
+
+  const [prefix, id, level = 'intermediate'] = spec.split(':');
+  const engine = prefix === 'engine' ? getEngine(id) : undefined;
+  if (!engine) return fail(`Unknown player ${spec}`);
+  if (!DIFFICULTIES.includes(level as Difficulty)) return fail(`Unknown difficulty in ${spec}`);
+  await engine.probe?.();
+  if (!engine.isAvailable()) return fail(`Engine ${engine.name} (${id}) is not available`);
+  return game => engine.genMove({
+    grid: game.grid,
+    color: game.turn,
+    difficulty: level as Difficulty,
+    lastMove: lastPlayed(game),
+    ko: game.ko,
+    komi: game.config.komi,
+    rules: game.config.rules,
+    captures: game.captures,
+    history: game.history
+  });
+};
+
+// --- GAMES ---
+
+interface GameRecord {
+  black: string;
+  white: string;
+  size: number;
+  seed: number;
+  winner: StoneColor | 'draw';
+  result: string; // SGF RE value
+  moves: number;
+  moveLimitReached: boolean;
+}
+
+const playGame = async (
+  black: string, white: string, players: Map<string, PlayMove>,
+  size: number, seed: number, options: TournamentOptions
+): Promise<GameRecord> => {
+  const config: GameConfig = {
+    boardSize: size,
+    boardTheme: 'wood',
+    handicap: 0,
+    playerColor: 'black',
+    difficulty: 'intermediate',
+    komi: options.komi ?? getDefaultKomi(options.rules, 0),
+    rules: options.rules
+  };
+  const game = createGameState(config);
+  const rng = createRng(seed);
+  // Weak levels can fill the board forever without passing; the position is scored as it stands
+  const moveLimit = size * size * 2;
+
+  while (!isGameOver(game) && game.history.length < moveLimit) {
+    const color = game.turn;
+    const move = await players.get(color === 'black' ? black : white)!(game, rng);
+    // An illegal answer (possible from external engines) counts as a pass rather than ending the match
+    if (move === 'PASS' || applyMove(game, move.x, move.y, color)) applyPass(game, color);
+  }
+
+  const result = scoreGameState(game);
+  return {
+    black, white, size, seed,
+    winner: result.winner,
+    result: formatSgfResult(result),
+    moves: game.history.length,
+    moveLimitReached: !isGameOver(game)
+  };
+};
+
+// --- RATINGS ---
+
+interface PlayerStats {
+  name: string;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  winRate: number; // Draws count half
+  elo: number; // Relative to the field's average, which is 0
+}
+
+const scoreFor = (game: GameRecord, name: string): number => {
+  if (game.winner === 'draw') return 0.5;
+  return (game.winner === 'black' ? game.black : game.white) === name ? 1 : 0;
+};
+
+// Bradley-Terry strengths by minorization-maximization. Every pairing gets one virtual draw,
+// which keeps the ratings finite when a player wins or loses all of its games.
+const estimateElo = (names: string[], games: GameRecord[]): Map<string, number> => {
+  const index = new Map(names.map((n, i) => [n, i]));
+  const n = names.length;
+  const played = names.map(() => new Array<number>(n).fill(0));
+  const wins = new Array<number>(n).fill(0);
+  for (let i = 0; i < n; i++) for (let j = 0; j < n; j++) if (i !== j) played[i][j] = 1;
+  wins.fill((n - 1) * 0.5);
+  games.forEach(g => {
+    const b = index.get(g.black)!, w = index.get(g.white)!;
+    played[b][w]++;
+    played[w][b]++;
+    wins[b] += scoreFor(g, g.black);
+    wins[w] += scoreFor(g, g.white);
+  });
+
+  let gamma = new Array<number>(n).fill(1);
+  for (let iteration = 0; iteration < 500; iteration++) {
+    const next = gamma.map((g, i) => {
+      let denominator = 0;
+      for (let j = 0; j < n; j++) if (j !== i) denominator += played[i][j] / (g + gamma[j]);
+      return wins[i] / denominator;
+    });
+    const mean = Math.exp(next.reduce((sum, g) => sum + Math.log(g), 0) / n);
+    const change = Math.max(...next.map((g, i) => Math.abs(g / mean - gamma[i])));
+    gamma = next.map(g => g / mean);
+    if (change < 1e-9) break;
+  }
+  return new Map(names.map((name, i) => [name, Math.round(400 * Math.log10(gamma[i]))]));
+};
+
+const summarize = (names: string[], games: GameRecord[]): PlayerStats[] => {
+  const elo = estimateElo(names, games);
+  return names.map(name => {
+    const own = games.filter(g => g.black === name || g.white === name);
+    const points = own.map(g => scoreFor(g, name));
+    const draws = own.filter(g => g.winner === 'draw').length;
+    const wins = points.filter(p => p === 1).length;
+    return {
+      name,
+      games: own.length,
+      wins,
+      losses: own.length - wins - draws,
+      draws,
+      winRate: own.length ? Number((points.reduce((a, b) => a + b, 0) / own.length).toFixed(3)) : 0,
+      elo: elo.get(name)!
+    };
+  }).sort((a, b) => b.elo - a.elo);
+};
+
+// --- MAIN ---
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const players = new Map<string, PlayMove>();
+  for (const spec of options.players) players.set(spec, await createPlayer(spec));
+
+  const games: GameRecord[] = [];
+  let gameNumber = 0;
+  for (const size of options.sizes) {
+    for (let a = 0; a < options.players.length; a++) {
+      for (let b = a + 1; b < options.players.length; b++) {
+        for (let k = 0; k < options.games; k++) {
+          const [black, white] = k % 2 === 0
+            ? [options.players[a], options.players[b]]
+            : [options.players[b], options.players[a]];
+          const record = await playGame(black, white, players, size, deriveSeed(options.seed, gameNumber++), options);
+          games.push(record);
+          console.error(`${size}x${size} ${black} vs ${white}: ${record.result} (${record.moves} moves)`);
+        }
+      }
+    }
+  }
+
+  const report = {
+    seed: options.seed,
+    rules: options.rules,
+    sizes: options.sizes,
+    gamesPerPairing: options.games,
+    players: summarize(options.players, games),
+    bySize: Object.fromEntries(options.sizes.map(size =>
+      [size, summarize(options.players, games.filter(g => g.size === size))]
+    )),
+    games
+  };
+  const json = JSON.stringify(report, null, 2);
+  if (options.out) writeFileSync(options.out, json + '\n');
+  else process.stdout.write(json + '\n');
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
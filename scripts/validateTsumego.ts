@@ -0,0 +1,58 @@
+import { readFileSync } from 'fs';
+import { basename } from 'path';
+import { TsumegoProblem } from '../types';
+import { tsumegoProblems } from '../utils/tsumegoData';
+import { parseTsumegoFile } from '../utils/tsumegoPack';
+import { TsumegoIssue, validateCollection } from '../utils/tsumegoValidation';
+
+// --- TSUMEGO VALIDATOR ---
+// Checks every bundled problem, or the problems of an SGF/JSON pack, and prints a report per problem id:
+//   node dist-ssr/validateTsumego.js [--file pack.sgf] [--id c_ld_bent3] [--no-solver] [--json]
+// Problems in a pack are numbered "#1 title", "#2 title", ... in file order.
+// --no-solver skips reading the answers (the slow part). Exits with 1 when any problem has an error.
+
+const formatIssue = (issue: TsumegoIssue) =>
+  `  ${issue.severity === 'error' ? 'error  ' : 'warning'} ${issue.path.length > 0 ? issue.path.join(' ') : '(setup)'}: ${issue.message}`;
+
+const main = () => {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const i = args.indexOf(`--${name}`);
+    return i >= 0 ? args[i + 1] : undefined;
+  };
+
+  // Pack entries that do not even convert are reported as errors of their own
+  const file = option('file');
+  let collection: TsumegoProblem[] = tsumegoProblems;
+  const unreadable = new Map<string, TsumegoIssue[]>();
+  if (file) {
+    const parsed = parseTsumegoFile(readFileSync(file, 'utf8'), basename(file));
+    collection = parsed.problems.map((p, i) => ({ ...p, id: `#${i + 1} ${p.title}` }));
+    parsed.skipped.forEach(s => unreadable.set(s.title, [{ severity: 'error', path: [], message: s.reason }]));
+  }
+
+  const id = option('id');
+  const problems = id ? collection.filter(p => p.id === id) : collection;
+  if (problems.length === 0) {
+    console.error(`Unknown problem ${id}`);
+    process.exit(2);
+  }
+
+  const report = new Map([...unreadable, ...validateCollection(problems, { solver: !args.includes('--no-solver') })]);
+  const count = (severity: TsumegoIssue['severity']) =>
+    [...report.values()].reduce((sum, issues) => sum + issues.filter(i => i.severity === severity).length, 0);
+  const failed = [...report.values()].filter(issues => issues.some(i => i.severity === 'error')).length;
+
+  if (args.includes('--json')) {
+    process.stdout.write(JSON.stringify(Object.fromEntries(report), null, 2) + '\n');
+  } else {
+    report.forEach((issues, problemId) => {
+      console.log(issues.length === 0 ? `${problemId}: ok` : `${problemId}:`);
+      issues.forEach(issue => console.log(formatIssue(issue)));
+    });
+  }
+  console.error(`${report.size} problems checked: ${failed} with errors, ${count('error')} errors, ${count('warning')} warnings`);
+  if (failed > 0) process.exit(1);
+};
+
+main();
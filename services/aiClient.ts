@@ -0,0 +1,206 @@
+import { StoneColor, Difficulty, AiMove, Point, TsumegoProblem } from "../types";
+import { KoState } from "../utils/rules";
+import { computeLocalMove, analyzeLocal, seededOptions } from "./localAi";
+import { TsumegoSpec, TsumegoReading, solveTsumego } from "../utils/tsumegoSolver";
+import { TsumegoIssue, validateTsumego } from "../utils/tsumegoValidation";
+import {
+  AiWorkerRequest, AiWorkerResponse, GenMoveRequest, AnalyzeRequest, SolveTsumegoRequest, ValidateTsumegoRequest
+} from "./aiProtocol";
+import type { AiEngine, MoveCandidate } from "./aiEngine";
+
+// --- AI WORKER CLIENT ---
+// One worker serves every request. Aborting a request terminates the worker (the search is synchronous
+// and cannot be interrupted otherwise); a fresh worker is created for the next request.
+
+export interface AiRequestOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void; // 0..1
+}
+
+// Minimum time the AI appears to think, so replies don't land before the player's stone has settled
+const MIN_THINK_TIME: Record<Difficulty, number> = {
+  novice: 200,
+  entry: 300,
+  beginner: 300,
+  elementary: 300,
+  intermediate: 500,
+  advanced: 300,
+  master: 800,
+  grandmaster: 1000
+};
+
+export const createAbortError = () => new DOMException('AI move cancelled', 'AbortError');
+
+export const isAbortError = (e: unknown): boolean => e instanceof DOMException && e.name === 'AbortError';
+
+// An engine failure the player should see: `message` is shown in the UI, `details` explain it further
+export class EngineError extends Error {
+  constructor(message: string, readonly details: string[] = []) {
+    super(message);
+    this.name = 'EngineError';
+  }
+}
+
+type WorkerResult = AiMove | MoveCandidate[] | TsumegoReading | TsumegoIssue[];
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, {
+  resolve: (value: WorkerResult) => void,
+  reject: (e: Error) => void,
+  onProgress?: (progress: number) => void
+}>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./aiWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<AiWorkerResponse>) => {
+      const message = event.data;
+      const request = pending.get(message.id);
+      if (!request) return; // Cancelled
+      if (message.type === 'progress') {
+        request.onProgress?.(message.progress);
+        return;
+      }
+      pending.delete(message.id);
+      if (message.type === 'result') request.resolve(message.move);
+      else if (message.type === 'analysis') request.resolve(message.candidates);
+      else if (message.type === 'reading') request.resolve(message.reading);
+      else if (message.type === 'issues') request.resolve(message.issues);
+      else request.reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      // A crashed worker fails everything it was working on
+      const error = new Error(event.message || 'AI worker failed');
+      pending.forEach(request => request.reject(error));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+const cancelRequest = (id: number) => {
+  if (!pending.has(id)) return;
+  pending.delete(id);
+  worker?.terminate();
+  worker = null;
+  // Anything else in flight was on the terminated worker
+  pending.forEach(request => request.reject(createAbortError()));
+  pending.clear();
+};
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(createAbortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// A request before the client numbers it
+type UnsentRequest =
+  | Omit<GenMoveRequest, 'id'>
+  | Omit<AnalyzeRequest, 'id'>
+  | Omit<SolveTsumegoRequest, 'id'>
+  | Omit<ValidateTsumegoRequest, 'id'>;
+
+const runInWorker = <T extends WorkerResult>(request: UnsentRequest, options: AiRequestOptions): Promise<T> => new Promise((resolve, reject) => {
+  if (options.signal?.aborted) return reject(createAbortError());
+  const id = nextRequestId++;
+  const onAbort = () => {
+    cancelRequest(id);
+    reject(createAbortError());
+  };
+  pending.set(id, {
+    resolve: value => {
+      options.signal?.removeEventListener('abort', onAbort);
+      resolve(value as T);
+    },
+    reject: e => {
+      options.signal?.removeEventListener('abort', onAbort);
+      reject(e);
+    },
+    onProgress: options.onProgress
+  });
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+  getWorker().postMessage({ ...request, id } as AiWorkerRequest);
+});
+
+// Local engine move. Runs in the worker when available, otherwise on the calling thread.
+export const requestLocalMove = async (
+  grid: (StoneColor | null)[][],
+  color: StoneColor,
+  difficulty: Difficulty,
+  lastMove: Point | null,
+  ko?: KoState,
+  seed?: number,
+  options: AiRequestOptions = {}
+): Promise<AiMove> => {
+  const thinking = abortableDelay(MIN_THINK_TIME[difficulty], options.signal);
+  thinking.catch(() => {}); // An abort is reported by whichever await sees it first
+
+  let move: AiMove;
+  if (typeof Worker === 'undefined') {
+    move = computeLocalMove(grid, color, difficulty, lastMove, ko, { ...seededOptions(seed), onProgress: options.onProgress });
+  } else {
+    move = await runInWorker<AiMove>({ type: 'genmove', grid, color, difficulty, lastMove, ko, seed }, options);
+  }
+
+  await thinking;
+  options.onProgress?.(1);
+  return move;
+};
+
+// Local engine candidates, best first
+export const requestLocalAnalysis = async (
+  grid: (StoneColor | null)[][],
+  color: StoneColor,
+  lastMove: Point | null,
+  ko?: KoState,
+  limit = 5,
+  options: AiRequestOptions = {}
+): Promise<MoveCandidate[]> => {
+  const candidates = typeof Worker === 'undefined'
+    ? analyzeLocal(grid, color, lastMove, ko, limit, options.onProgress)
+    : await runInWorker<MoveCandidate[]>({ type: 'analyze', grid, color, lastMove, ko, limit }, options);
+  options.onProgress?.(1);
+  return candidates;
+};
+
+// Tsumego solver reading, kept off the UI thread like the engine's moves
+export const requestTsumegoReading = async (
+  grid: (StoneColor | null)[][],
+  toMove: StoneColor,
+  spec: TsumegoSpec,
+  ko: Point | null = null,
+  options: AiRequestOptions = {}
+): Promise<TsumegoReading> => {
+  if (typeof Worker === 'undefined') return solveTsumego(grid, toMove, spec, { ko });
+  return runInWorker<TsumegoReading>({ type: 'solve-tsumego', grid, toMove, spec, ko }, options);
+};
+
+// Full validation of a problem, solver included, for the editor
+export const requestTsumegoValidation = async (problem: TsumegoProblem, options: AiRequestOptions = {}): Promise<TsumegoIssue[]> => {
+  if (typeof Worker === 'undefined') return validateTsumego(problem);
+  return runInWorker<TsumegoIssue[]>({ type: 'validate-tsumego', problem }, options);
+};
+
+export const localEngine: AiEngine = {
+  id: 'local',
+  name: '本地引擎',
+  description: '离线运行，高级及以上使用蒙特卡洛搜索',
+  capabilities: { analyze: true, difficulty: true, offline: true },
+  isAvailable: () => true,
+  genMove: (position, options) =>
+    requestLocalMove(position.grid, position.color, position.difficulty, position.lastMove, position.ko, position.seed, options),
+  analyze: (position, options = {}) =>
+    requestLocalAnalysis(position.grid, position.color, position.lastMove, position.ko, options.limit, options)
+};
@@ -0,0 +1,113 @@
+import { StoneColor, Difficulty, AiMove, Point, GameConfig, Move, RuleSet } from "../types";
+import { KoState } from "../utils/rules";
+import { localEngine, AiRequestOptions, isAbortError, EngineError } from "./aiClient";
+import { geminiEngine } from "./geminiService";
+import { gtpEngine } from "./gtpEngine";
+
+// --- AI ENGINES ---
+// Every move source (the local heuristic/MCTS, Gemini, ...) is an AiEngine in one registry.
+// The UI lists the registered engines; a game stores the chosen engine's id in GameConfig.engine.
+
+export interface EnginePosition {
+  grid: (StoneColor | null)[][];
+  color: StoneColor; // Side to move
+  difficulty: Difficulty;
+  lastMove: Point | null;
+  ko?: KoState;
+  seed?: number; // Makes the local engine's choice reproducible; other engines ignore it
+  // The game so far, for engines that keep their own board (GTP) or describe it (Gemini)
+  komi?: number;
+  rules?: RuleSet;
+  captures?: { black: number, white: number }; // Prisoners taken by each colour
+  history?: Move[];
+  initialStones?: { x: number, y: number, color: StoneColor }[];
+}
+
+// A suggested move; `score` is engine-specific, higher is better for the side to move
+export interface MoveCandidate {
+  move: Point;
+  score: number;
+}
+
+export interface EngineCapabilities {
+  analyze: boolean; // analyze() returns ranked candidates
+  difficulty: boolean; // Plays differently per Difficulty
+  offline: boolean; // Works without a network connection
+}
+
+export interface AiEngine {
+  id: string;
+  name: string;
+  description: string;
+  capabilities: EngineCapabilities;
+  isAvailable: () => boolean; // e.g. network and API key present
+  probe?: () => Promise<boolean>; // Refreshes isAvailable() where that needs a round trip (local servers)
+  genMove: (position: EnginePosition, options?: AiRequestOptions) => Promise<AiMove>;
+  // Best candidates first; engines without the capability reject
+  analyze: (position: EnginePosition, options?: AiRequestOptions & { limit?: number }) => Promise<MoveCandidate[]>;
+}
+
+export const DEFAULT_ENGINE_ID = 'local';
+
+const engines = new Map<string, AiEngine>();
+
+export const registerEngine = (engine: AiEngine) => {
+  engines.set(engine.id, engine);
+};
+
+export const listEngines = (): AiEngine[] => Array.from(engines.values());
+
+export const getEngine = (id: string): AiEngine | undefined => engines.get(id);
+
+// Engine a game was set up with, including games saved before GameConfig.engine existed
+export const getEngineId = (config: GameConfig): string =>
+  config.engine ?? (config.aiMode === 'online' ? geminiEngine.id : DEFAULT_ENGINE_ID);
+
+export const getEngineName = (config: GameConfig): string =>
+  getEngine(getEngineId(config))?.name ?? getEngineId(config);
+
+export interface EngineMoveResult {
+  move: AiMove;
+  engine: AiEngine; // Engine that actually produced the move
+  fallbackReason?: string; // Set when the chosen engine could not be used
+  diagnostics?: string[]; // What went wrong with it, for the UI to show on request
+}
+
+// Ask the game's engine for a move. An unknown, unavailable or failing engine is replaced by the
+// default engine, and the result says so instead of hiding it. Aborts are passed through.
+export const requestEngineMove = async (
+  engineId: string,
+  position: EnginePosition,
+  options: AiRequestOptions = {}
+): Promise<EngineMoveResult> => {
+  const fallback = engines.get(DEFAULT_ENGINE_ID)!;
+  const engine = engines.get(engineId);
+
+  let fallbackReason: string;
+  let diagnostics: string[] | undefined;
+  if (!engine) {
+    fallbackReason = `未知引擎 ${engineId}`;
+  } else if (!engine.isAvailable()) {
+    fallbackReason = `${engine.name} 当前不可用`;
+  } else {
+    try {
+      return { move: await engine.genMove(position, options), engine };
+    } catch (e) {
+      if (isAbortError(e) || engine === fallback) throw e;
+      console.warn(`${engine.name} failed, using ${fallback.name}`, e);
+      if (e instanceof EngineError) {
+        fallbackReason = `${engine.name}：${e.message}`;
+        diagnostics = e.details;
+      } else {
+        fallbackReason = `${engine.name} 出错`;
+        diagnostics = [e instanceof Error ? e.message : String(e)];
+      }
+    }
+  }
+  return { move: await fallback.genMove(position, options), engine: fallback, fallbackReason, diagnostics };
+};
+
+// --- BUILT-IN ENGINES ---
+registerEngine(localEngine);
+registerEngine(geminiEngine);
+registerEngine(gtpEngine);
@@ -0,0 +1,60 @@
+import { StoneColor, Difficulty, AiMove, Point } from "../types";
+import { KoState } from "../utils/rules";
+import { TsumegoProblem } from "../types";
+import { TsumegoSpec, TsumegoReading } from "../utils/tsumegoSolver";
+import type { TsumegoIssue } from "../utils/tsumegoValidation";
+import type { MoveCandidate } from "./aiEngine";
+
+// --- AI WORKER PROTOCOL ---
+// Messages between the UI thread (services/aiClient.ts) and the AI worker (services/aiWorker.ts).
+// Every request carries an id; replies for a request that has since been cancelled are ignored.
+// KoState survives structured cloning (bigint and Set are both supported).
+
+export interface GenMoveRequest {
+  type: 'genmove';
+  id: number;
+  grid: (StoneColor | null)[][];
+  color: StoneColor;
+  difficulty: Difficulty;
+  lastMove: Point | null;
+  ko?: KoState;
+  seed?: number; // Replays the same move for the same position (MCTS: unless cut short by its time limit); random when missing
+}
+
+// Ranked candidate moves, best first
+export interface AnalyzeRequest {
+  type: 'analyze';
+  id: number;
+  grid: (StoneColor | null)[][];
+  color: StoneColor;
+  lastMove: Point | null;
+  ko?: KoState;
+  limit: number;
+}
+
+// Life-and-death reading for tsumego moves off the solution tree
+export interface SolveTsumegoRequest {
+  type: 'solve-tsumego';
+  id: number;
+  grid: (StoneColor | null)[][];
+  toMove: StoneColor;
+  spec: TsumegoSpec;
+  ko: Point | null;
+}
+
+// The validator with the solver, for the tsumego editor
+export interface ValidateTsumegoRequest {
+  type: 'validate-tsumego';
+  id: number;
+  problem: TsumegoProblem;
+}
+
+export type AiWorkerRequest = GenMoveRequest | AnalyzeRequest | SolveTsumegoRequest | ValidateTsumegoRequest;
+
+export type AiWorkerResponse =
+  | { type: 'progress', id: number, progress: number } // 0..1
+  | { type: 'result', id: number, move: AiMove }
+  | { type: 'analysis', id: number, candidates: MoveCandidate[] }
+  | { type: 'reading', id: number, reading: TsumegoReading }
+  | { type: 'issues', id: number, issues: TsumegoIssue[] }
+  | { type: 'error', id: number, message: string };
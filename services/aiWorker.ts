@@ -0,0 +1,44 @@
+import { computeLocalMove, analyzeLocal, seededOptions } from "./localAi";
+import { AiWorkerRequest, AiWorkerResponse } from "./aiProtocol";
+import { solveTsumego } from "../utils/tsumegoSolver";
+import { validateTsumego } from "../utils/tsumegoValidation";
+
+// --- AI WORKER ---
+// Runs the local engine off the UI thread. Cancelling is done by the client terminating
+// this worker, so a search never has to poll for cancellation.
+
+const post = (message: AiWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<AiWorkerRequest>) => {
+  const request = event.data;
+
+  let lastReported = -1;
+  const onProgress = (progress: number) => {
+    // Throttle to whole percents
+    const percent = Math.floor(progress * 100);
+    if (percent > lastReported) {
+      lastReported = percent;
+      post({ type: 'progress', id: request.id, progress });
+    }
+  };
+
+  try {
+    if (request.type === 'genmove') {
+      const move = computeLocalMove(request.grid, request.color, request.difficulty, request.lastMove, request.ko, {
+        ...seededOptions(request.seed),
+        onProgress
+      });
+      post({ type: 'result', id: request.id, move });
+    } else if (request.type === 'analyze') {
+      const candidates = analyzeLocal(request.grid, request.color, request.lastMove, request.ko, request.limit, onProgress);
+      post({ type: 'analysis', id: request.id, candidates });
+    } else if (request.type === 'solve-tsumego') {
+      const reading = solveTsumego(request.grid, request.toMove, request.spec, { ko: request.ko });
+      post({ type: 'reading', id: request.id, reading });
+    } else if (request.type === 'validate-tsumego') {
+      post({ type: 'issues', id: request.id, issues: validateTsumego(request.problem) });
+    }
+  } catch (e) {
+    post({ type: 'error', id: request.id, message: e instanceof Error ? e.message : String(e) });
+  }
+};
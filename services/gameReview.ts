@@ -0,0 +1,227 @@
+import { Type, Schema } from "@google/genai";
+import { GameConfig, Move, Point, StoneColor } from "../types";
+import { generateSGF, gtpToPoint, pointToGtp, makeMove, getOpponent } from "../utils/goLogic";
+import { createGameTree } from "../utils/gameTree";
+import { createGameState, applyMove, applyPass } from "../utils/gameState";
+import { findTacticalHints } from "../utils/tactics";
+import { AiRequestOptions, EngineError, isAbortError, requestLocalAnalysis, localEngine } from "./aiClient";
+import { geminiEngine, generateJson } from "./geminiService";
+
+// --- GAME REVIEW ---
+// Commentary on a finished game: the key mistakes, each with a better move and a short explanation in
+// Chinese. The online model reviews the SGF when it is available; otherwise the local heuristic compares
+// every move with its own best move. Comments are attached to the moves by the caller (App.tsx).
+
+export type ReviewSeverity = 'blunder' | 'mistake' | 'good';
+
+export interface ReviewComment {
+  moveNumber: number; // 1-based, counting every move of the reviewed line
+  severity: ReviewSeverity;
+  better?: Point; // Suggested alternative, already checked to be legal
+  comment: string;
+}
+
+export interface GameReview {
+  summary: string;
+  comments: ReviewComment[];
+  reviewer: string; // Name of the engine that wrote it
+  fallbackReason?: string; // Set when the online model could not be used
+}
+
+export const SEVERITY_LABELS: Record<ReviewSeverity, string> = {
+  blunder: '恶手',
+  mistake: '疑问手',
+  good: '好棋'
+};
+
+// Marks the commentary inside a move comment, so a second review replaces the first
+export const REVIEW_MARKER = '【AI 复盘】';
+
+const REVIEW_TIMEOUT = 60_000;
+const MAX_COMMENTS = 10;
+// Heuristic score lost against the local engine's best move
+const BLUNDER_LOSS = 250;
+const MISTAKE_LOSS = 150;
+
+// The position before each move; replay stops at the first move the rules reject
+const replayPositions = (moves: Move[], config: GameConfig) => {
+  // Handicap stones are already the leading moves of the record
+  const state = createGameState({ ...config, handicap: 0 });
+  const positions = [];
+  for (const move of moves) {
+    positions.push({ grid: state.grid, ko: structuredClone(state.ko), captures: { ...state.captures } });
+    if (move.pass) applyPass(state, move.color);
+    else if (applyMove(state, move.x, move.y, move.color)) break;
+  }
+  return positions;
+};
+
+const describeChain = (chain: Point[], size: number) => pointToGtp(chain[0], size);
+
+// Why `better` beats the move played, from the tactical reader where it has something to say
+const explainLocal = (
+  grid: (StoneColor | null)[][],
+  move: Move,
+  better: Point
+): string => {
+  const size = grid.length;
+  const vertex = pointToGtp(better, size);
+  const hints = findTacticalHints(grid, move.color);
+  const atKey = hints.find(h => h.key && h.key.x === better.x && h.key.y === better.y);
+  if (atKey && atKey.color === move.color) return `${vertex} 可以救出 ${describeChain(atKey.chain, size)} 一带的棋子。`;
+  if (atKey) return `${vertex} 可以吃住 ${describeChain(atKey.chain, size)} 一带的棋子。`;
+
+  const captured = makeMove(grid, better.x, better.y, move.color).captures;
+  if (captured > 0) return `${vertex} 可以提掉 ${captured} 子。`;
+
+  const after = makeMove(grid, move.x, move.y, move.color);
+  if (after.success) {
+    const lost = findTacticalHints(after.newGrid, getOpponent(move.color))
+      .find(h => h.color === move.color && h.status === 'dead');
+    if (lost) return `此手之后 ${describeChain(lost.chain, size)} 一带的棋子被吃，${vertex} 更为紧要。`;
+  }
+  return `${vertex} 价值更大。`;
+};
+
+const reviewLocal = async (moves: Move[], config: GameConfig, options: AiRequestOptions): Promise<Omit<GameReview, 'reviewer'>> => {
+  const size = config.boardSize;
+  const positions = replayPositions(moves, config);
+  const found: (ReviewComment & { loss: number })[] = [];
+
+  for (let i = config.handicap; i < positions.length; i++) {
+    const move = moves[i];
+    if (move.pass) continue;
+    const { grid, ko } = positions[i];
+    const previous = moves[i - 1];
+    const candidates = await requestLocalAnalysis(grid, move.color, previous && !previous.pass ? previous : null, ko, Infinity, {
+      signal: options.signal
+    });
+    options.onProgress?.((i + 1) / positions.length);
+    if (candidates.length === 0) continue;
+
+    const best = candidates[0];
+    const played = candidates.find(c => c.move.x === move.x && c.move.y === move.y);
+    const loss = best.score - (played ? played.score : candidates[candidates.length - 1].score);
+    if (loss < MISTAKE_LOSS) continue;
+    const severity: ReviewSeverity = loss >= BLUNDER_LOSS ? 'blunder' : 'mistake';
+    found.push({
+      moveNumber: i + 1,
+      severity,
+      better: best.move,
+      comment: `${SEVERITY_LABELS[severity]}：${pointToGtp(move, size)} 不如 ${pointToGtp(best.move, size)}。${explainLocal(grid, move, best.move)}`,
+      loss
+    });
+  }
+
+  const comments = found
+    .sort((a, b) => b.loss - a.loss)
+    .slice(0, MAX_COMMENTS)
+    .sort((a, b) => a.moveNumber - b.moveNumber)
+    .map(({ loss, ...comment }) => comment);
+  const count = (color: StoneColor) => {
+    const own = comments.filter(c => moves[c.moveNumber - 1].color === color);
+    return `${color === 'black' ? '黑' : '白'}方恶手 ${own.filter(c => c.severity === 'blunder').length} 次，疑问手 ${own.filter(c => c.severity === 'mistake').length} 次`;
+  };
+  return {
+    summary: comments.length > 0 ? `${count('black')}；${count('white')}。` : '全局没有发现明显的失误。',
+    comments
+  };
+};
+
+// --- ONLINE ---
+
+const REVIEW_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: '全局总评，中文，两三句话' },
+    comments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          move: { type: Type.INTEGER, description: 'Move number, counting from 1 along the SGF main line' },
+          severity: { type: Type.STRING, enum: ['blunder', 'mistake', 'good'] },
+          better: { type: Type.STRING, description: 'Better move as a vertex such as "D4", or empty for good moves' },
+          comment: { type: Type.STRING, description: '简短的中文讲解' }
+        },
+        required: ['move', 'severity', 'comment']
+      }
+    }
+  },
+  required: ['summary', 'comments']
+};
+
+const SYSTEM_INSTRUCTION = `You are a professional Go teacher reviewing a student's game.
+Find the key mistakes of both sides (at most ${MAX_COMMENTS}) and, where useful, the best moves.
+For each mistake give a better move and explain briefly why. Write every explanation in simplified Chinese.
+Vertices use columns A-T without I and rows counted from the bottom, as in GTP.`;
+
+// Keep only comments that point at a real move; suggestions that cannot be played are dropped, not the comment
+const parseOnlineReview = (text: string, moves: Move[], config: GameConfig): Omit<GameReview, 'reviewer'> => {
+  let reply: { summary?: unknown, comments?: unknown };
+  try {
+    reply = JSON.parse(text);
+  } catch {
+    throw new EngineError('复盘结果无法解析', [text.slice(0, 80)]);
+  }
+  if (typeof reply?.summary !== 'string' || !Array.isArray(reply.comments)) {
+    throw new EngineError('复盘结果格式不对', [text.slice(0, 80)]);
+  }
+
+  const positions = replayPositions(moves, config);
+  const comments: ReviewComment[] = [];
+  reply.comments.forEach((c: { move?: unknown, severity?: unknown, better?: unknown, comment?: unknown }) => {
+    const moveNumber = Number(c.move);
+    if (!Number.isInteger(moveNumber) || moveNumber < 1 || moveNumber > positions.length) return;
+    if (typeof c.comment !== 'string' || !c.comment.trim()) return;
+    const severity = (['blunder', 'mistake', 'good'] as const).find(s => s === c.severity) ?? 'mistake';
+    const point = typeof c.better === 'string' && c.better ? gtpToPoint(c.better, config.boardSize) : null;
+    const { grid, ko } = positions[moveNumber - 1];
+    const better = point && point !== 'PASS' && makeMove(grid, point.x, point.y, moves[moveNumber - 1].color, ko).success
+      ? point
+      : undefined;
+    // The comment is all that is stored in the record, so it names the checked suggestion
+    const text = c.comment.trim();
+    const vertex = better ? pointToGtp(better, config.boardSize) : '';
+    const suggestion = better && !new RegExp(`(^|[^A-Z])${vertex}(?!\\d)`).test(text) ? `（建议 ${vertex}）` : '';
+    comments.push({ moveNumber, severity, better, comment: `${SEVERITY_LABELS[severity]}：${text}${suggestion}` });
+  });
+  comments.sort((a, b) => a.moveNumber - b.moveNumber);
+  return { summary: reply.summary.trim(), comments };
+};
+
+const reviewOnline = async (moves: Move[], config: GameConfig, options: AiRequestOptions): Promise<Omit<GameReview, 'reviewer'>> => {
+  const sgf = generateSGF(createGameTree(moves), config.handicap, config.komi, config.boardSize, undefined, config.initialStones);
+  const text = await generateJson(
+    [{ role: 'user', parts: [{ text: `Review this game (rules: ${config.rules ?? 'chinese'}):\n${sgf}` }] }],
+    SYSTEM_INSTRUCTION,
+    REVIEW_SCHEMA,
+    options.signal,
+    REVIEW_TIMEOUT
+  );
+  options.onProgress?.(1);
+  return parseOnlineReview(text, moves, config);
+};
+
+// Review a line of moves. The online model is preferred; the local review stands in when it is
+// unavailable or fails, and the result says so. Aborts are passed through.
+export const reviewGame = async (moves: Move[], config: GameConfig, options: AiRequestOptions = {}): Promise<GameReview> => {
+  let fallbackReason: string | undefined;
+  if (geminiEngine.isAvailable()) {
+    try {
+      return { ...await reviewOnline(moves, config, options), reviewer: geminiEngine.name };
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.warn(`${geminiEngine.name} review failed`, e);
+      fallbackReason = `${geminiEngine.name}：${e instanceof EngineError ? e.message : '复盘出错'}`;
+    }
+  }
+  return { ...await reviewLocal(moves, config, options), reviewer: localEngine.name, fallbackReason };
+};
+
+// A move's comment with the review's commentary in place of any earlier review
+export const mergeReviewComment = (existing: string | undefined, review: string | undefined): string => {
+  const own = (existing ?? '').split(REVIEW_MARKER)[0].trim();
+  const parts = [own, review ? `${REVIEW_MARKER}${review}` : ''].filter(Boolean);
+  return parts.join('\n');
+};
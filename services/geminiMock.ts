@@ -0,0 +1,28 @@
+import type { GenerateContentParameters } from "@google/genai";
+import type { GenAiClient } from "./geminiService";
+
+// --- GEMINI MOCK ---
+// Offline stand-in for the GenAI client: it records every request and answers with scripted replies,
+// then passes. Used by test mode (GEMINI_MOCK=1) and by scripts/geminiPrompts.ts for prompt snapshots.
+
+export interface MockGenAi extends GenAiClient {
+  requests: GenerateContentParameters[];
+}
+
+const PASS_REPLY = '{"move": "pass"}';
+
+export const createMockGenAi = (replies: string[] = []): MockGenAi => {
+  const queue = [...replies];
+  const requests: GenerateContentParameters[] = [];
+  return {
+    requests,
+    models: {
+      generateContent: async params => {
+        // Contents grow with every retry; keep what was sent at the time
+        requests.push({ ...params, contents: structuredClone(params.contents) });
+        if (process.env.GEMINI_MOCK === '1') console.debug('Gemini mock request', params);
+        return { text: queue.shift() ?? PASS_REPLY };
+      }
+    }
+  };
+};
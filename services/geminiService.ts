@@ -1,418 +1,239 @@
-import { GoogleGenAI } from "@google/genai";
-import { StoneColor, Difficulty, AiMode, TsumegoProblem } from "../types";
-import { makeMove, getGroupInfo, getHoshiPoints, getOpponent } from "../utils/goLogic";
+import { GoogleGenAI, Type, Content, GenerateContentParameters, Schema } from "@google/genai";
+import { StoneColor, AiMove, Difficulty, Point, RuleSet } from "../types";
+import { makeMove, gtpToPoint, pointToGtp, IllegalMoveReason } from "../utils/goLogic";
+import { formatGtpBoard, toGtpColor } from "../utils/gtp";
+import { DEFAULT_RULE_SET, getRuleSet } from "../utils/rules";
+import { createAbortError, AiRequestOptions, EngineError } from "./aiClient";
+import { createMockGenAi } from "./geminiMock";
+import type { AiEngine, EnginePosition } from "./aiEngine";
 
-// --- HELPERS ---
-
-// Helper: Check if a move fills one's own simple eye (Bad move usually)
-const isEye = (grid: (StoneColor | null)[][], x: number, y: number, color: StoneColor): boolean => {
-    const size = grid.length;
-    // 1. Orthogonal check
-    const neighbors = [
-        { x: x + 1, y: y }, { x: x - 1, y: y },
-        { x: x, y: y + 1 }, { x: x, y: y - 1 }
-    ];
-    for (const n of neighbors) {
-        if (n.x >= 0 && n.x < size && n.y >= 0 && n.y < size) {
-            if (grid[n.y][n.x] !== color) return false;
-        }
-    }
-    // 2. Diagonal check (simplified)
-    let diagEnemyCount = 0;
-    const diagonals = [
-        { x: x + 1, y: y + 1 }, { x: x - 1, y: y - 1 },
-        { x: x - 1, y: y + 1 }, { x: x + 1, y: y - 1 }
-    ];
-    for (const d of diagonals) {
-        if (d.x >= 0 && d.x < size && d.y >= 0 && d.y < size) {
-            if (grid[d.y][d.x] !== color && grid[d.y][d.x] !== null) diagEnemyCount++;
-        }
-    }
-    return diagEnemyCount < 2;
-};
-
-// Helper: Evaluate Shape (3x3 pattern)
-// Returns a score bonus/penalty
-const getShapeScore = (grid: (StoneColor | null)[][], x: number, y: number, color: StoneColor): number => {
-    const size = grid.length;
-    let score = 0;
-    
-    // Check for "Empty Triangle" (Bad shape) - Simple detection
-    // X X
-    // X .  <- if we play at dot, and it forms a clumpsy triangle
-    const neighbors = [
-        {dx: 1, dy: 0}, {dx: 0, dy: 1}, {dx: -1, dy: 0}, {dx: 0, dy: -1}
-    ];
-
-    let friendlyNeighbors = 0;
-    let emptyNeighbors = 0;
-    
-    neighbors.forEach(n => {
-        const nx = x + n.dx;
-        const ny = y + n.dy;
-        if (nx >= 0 && nx < size && ny >= 0 && ny < size) {
-            if (grid[ny][nx] === color) friendlyNeighbors++;
-            else if (grid[ny][nx] === null) emptyNeighbors++;
-        }
-    });
-
-    // Penalize over-concentration (Dumpling shape / Empty triangle candidate)
-    if (friendlyNeighbors >= 3) {
-        score -= 40;
-    }
-
-    // Tiger's mouth detection (simplified) - Good Shape
-    // . X
-    // X . <- Play here
-    const diagonals = [
-        {dx: 1, dy: 1}, {dx: -1, dy: -1}, {dx: -1, dy: 1}, {dx: 1, dy: -1}
-    ];
-    
-    // Check Hane (Head of two stones)
-    // O O
-    // X . <- Play here to hane
-    const opponent = getOpponent(color);
-    neighbors.forEach(n => {
-        const nx = x + n.dx;
-        const ny = y + n.dy;
-        if (nx >=0 && nx < size && ny >= 0 && ny < size && grid[ny][nx] === opponent) {
-             // If opponent has another opponent stone next to it
-             neighbors.forEach(n2 => {
-                 const nnx = nx + n2.dx;
-                 const nny = ny + n2.dy;
-                 if (nnx >=0 && nnx < size && nny >= 0 && nny < size && grid[nny][nnx] === opponent) {
-                     // Check if this move 'heads' them.
-                     score += 15; // Hane bonus
-                 }
-             });
-        }
-    });
+// --- REMOTE GEMINI LOGIC ---
 
-    return score;
+// Anything with the GenAI client's generateContent; services/geminiMock.ts stands in for it offline
+export interface GenAiClient {
+    models: { generateContent: (params: GenerateContentParameters) => Promise<{ text?: string }> };
 }
 
-// --- LOCAL AI ENGINE LOGIC ---
-const getLocalMove = async (
-    grid: (StoneColor | null)[][],
-    aiColor: StoneColor,
-    difficulty: Difficulty,
-    lastMove: {x: number, y: number} | null
-): Promise<{x: number, y: number} | 'PASS'> => {
-    
-    // Simulate thinking time based on difficulty
-    let thinkTime = 300;
-    if (difficulty === 'novice') thinkTime = 200;
-    else if (difficulty === 'intermediate') thinkTime = 500;
-    else if (difficulty === 'master') thinkTime = 800;
-    else if (difficulty === 'grandmaster') thinkTime = 1000;
-    
-    await new Promise(resolve => setTimeout(resolve, thinkTime));
-
-    const size = grid.length;
-    const opponent = getOpponent(aiColor);
-    const validMoves: {x: number, y: number, score: number}[] = [];
-    
-    // Game Stage Analysis
-    let movesCount = 0;
-    for(let r=0; r<size; r++) for(let c=0; c<size; c++) if(grid[r][c]) movesCount++;
-
-    const isOpening = movesCount < (size === 19 ? 50 : 20);
-    const isEndGame = movesCount > (size * size * 0.85);
-
-    for (let y = 0; y < size; y++) {
-        for (let x = 0; x < size; x++) {
-            if (grid[y][x] !== null) continue;
-
-            // 0. PRE-FILTER: Don't fill own eye unless it captures something
-            // We check this loosely here, will verify capture later
-            const looksLikeEye = isEye(grid, x, y, aiColor);
-
-            // 1. SIMULATE THE MOVE
-            const result = makeMove(grid, x, y, aiColor);
-            if (!result.success) continue; // Illegal move
-
-            // --- BASE NOISE (Randomness) ---
-            let noiseRange = 0;
-            switch (difficulty) {
-                case 'novice': noiseRange = 80; break;
-                case 'entry': noiseRange = 60; break;
-                case 'beginner': noiseRange = 50; break;
-                case 'elementary': noiseRange = 30; break;
-                case 'intermediate': noiseRange = 15; break;
-                case 'advanced': noiseRange = 8; break;
-                case 'master': noiseRange = 3; break;
-                case 'grandmaster': noiseRange = 0; break; // Pure calculation
-            }
-            let score = Math.random() * noiseRange;
-
-            // --- TACTICAL ANALYSIS (Life & Death) ---
-
-            const { liberties: myLiberties } = getGroupInfo(result.newGrid, x, y);
-            const myLibCount = myLiberties.length;
-            const captures = result.captures;
-
-            // A. Capturing Stones (Huge Bonus)
-            if (captures > 0) {
-                score += 800; // Base capture bonus
-                score += captures * 100; // More stones = better
-                
-                // If we captured, and it was a "Self-Atari" (1 liberty left), it's usually okay because we resolved a fight.
-                // But if we captured 1 stone and are still in Atari, it might be a "Snapback" trap.
-                if (myLibCount === 1 && captures === 1) {
-                    score -= 300; // Caution against snapbacks
-                }
-            }
-
-            // B. Self-Atari Check (CRITICAL for weak AI prevention)
-            if (myLibCount === 1) {
-                if (captures === 0) {
-                     // If we didn't capture, playing into Atari is usually suicide or bad reading.
-                     // Novice might do it, Grandmaster never does unless it's a specific sacrifice (too complex for this heuristic).
-                     const penalty = ['master', 'grandmaster', 'advanced'].includes(difficulty) ? 5000 : 200;
-                     score -= penalty;
-                }
-            } else if (myLibCount === 2) {
-                // Shortage of liberties warning
-                if (['master', 'grandmaster'].includes(difficulty)) {
-                    score -= 20; 
-                }
-            }
-
-            // C. Save Own Stones (Atari Defense)
-            const neighbors = [{x:x+1,y}, {x:x-1,y}, {x,y:y+1}, {x,y:y-1}];
-            let savedGroupBonus = 0;
-            for (const n of neighbors) {
-                if (n.x >=0 && n.x < size && n.y >= 0 && n.y < size) {
-                    if (grid[n.y][n.x] === aiColor) {
-                        const preGroup = getGroupInfo(grid, n.x, n.y);
-                        // If a neighbor group was in Atari (1 liberty) and now has more
-                        if (preGroup.liberties.length === 1 && myLibCount > 1) {
-                            savedGroupBonus = 600 + (preGroup.group.length * 50);
-                        }
-                    }
-                }
-            }
-            score += savedGroupBonus;
-
-            // D. Atari Attack (Putting opponent in Atari)
-            let atariAttackBonus = 0;
-            for (const n of neighbors) {
-                if (n.x >=0 && n.x < size && n.y >= 0 && n.y < size) {
-                    if (result.newGrid[n.y][n.x] === opponent) {
-                        const enemyGroup = getGroupInfo(result.newGrid, n.x, n.y);
-                        if (enemyGroup.liberties.length === 1) {
-                            // We put them in Atari!
-                            atariAttackBonus += 150 + (enemyGroup.group.length * 20);
-                        }
-                        // Cut check: If we reduced their liberties significantly
-                        const preEnemyGroup = getGroupInfo(grid, n.x, n.y);
-                        if (preEnemyGroup.liberties.length > enemyGroup.liberties.length) {
-                             score += 10; // Pressure bonus
-                        }
-                    }
-                }
-            }
-            score += atariAttackBonus;
-
-            // --- STRATEGIC ANALYSIS ---
+// Test mode (GEMINI_MOCK=1 in .env.local): no network or API key, every request goes to the mock
+const MOCK_MODE = process.env.GEMINI_MOCK === '1';
+let injectedClient: GenAiClient | null = MOCK_MODE ? createMockGenAi() : null;
 
-            // E. Opening Theory (High weights for corners/sides early game)
-            if (isOpening) {
-                const distToEdgeX = Math.min(x, size - 1 - x);
-                const distToEdgeY = Math.min(y, size - 1 - y);
-                
-                // Star points (4,4), Komoku (3,4), Sansan (3,3)
-                // In 0-indexed: 3, 2
-                const isThirdLine = distToEdgeX === 2 || distToEdgeY === 2;
-                const isFourthLine = distToEdgeX === 3 || distToEdgeY === 3;
-
-                if (isThirdLine && isFourthLine) {
-                    score += 120; // Prime corners (3-4 points)
-                } else if (isFourthLine && isFourthLine) {
-                    score += 100; // Star points (4-4)
-                } else if (isThirdLine && isThirdLine) {
-                    score += 80; // Sansan (3-3)
-                }
-                
-                // Edge Avoidance in opening
-                if (distToEdgeX === 0 || distToEdgeY === 0) score -= 100;
-                if (distToEdgeX === 1 || distToEdgeY === 1) score -= 50;
+// Replace the real client, e.g. with a mock for prompt snapshots; null restores it
+export const setGenAiClient = (client: GenAiClient | null) => {
+    injectedClient = client;
+};
 
-                // Center Avoidance in opening (unless specific fighting)
-                if (distToEdgeX > 4 && distToEdgeY > 4) score -= 10;
-            }
+const getClient = (): GenAiClient => {
+    if (injectedClient) return injectedClient;
+    if (!process.env.API_KEY) throw new EngineError('未配置 API Key');
+    return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
 
-            // F. Proximity / Local Fighting
-            if (lastMove && !isOpening) {
-                const dist = Math.abs(x - lastMove.x) + Math.abs(y - lastMove.y);
-                // Respond locally
-                if (dist <= 2) score += 40;
-                else if (dist <= 4) score += 20;
-            }
+const MODEL_NAME = 'gemini-3-flash-preview';
+const MAX_ATTEMPTS = 3; // Replies that cannot be played are sent back with the reason, this many times in total
+const REQUEST_TIMEOUT = 20_000; // Per attempt
+
+// The model answers with a vertex as labelled on the board, so it never has to convert coordinates
+const MOVE_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        move: { type: Type.STRING, description: 'Vertex such as "D4" using the board labels, or "pass"' }
+    },
+    required: ['move']
+};
 
-            // G. Shape Analysis (Master/Grandmaster only)
-            if (['advanced', 'master', 'grandmaster'].includes(difficulty)) {
-                score += getShapeScore(grid, x, y, aiColor);
-            }
+// Why a reply cannot be played: told to the model in English, shown to the player in Chinese
+interface RejectedMove {
+    feedback: string;
+    detail: string;
+}
 
-            // H. Don't fill own eyes (Severe Penalty)
-            if (looksLikeEye && captures === 0) {
-                score -= 10000;
-            }
-            
-            // I. End Game: Avoid DAME (neutral points) if possible unless necessary
-            if (isEndGame && captures === 0 && savedGroupBonus === 0 && atariAttackBonus === 0) {
-                 // Check if it's territory boundary or just neutral
-                 // Simplified: small penalty to encourage passing if only dame left
-                 if (score < 10) score -= 5;
-            }
+const ILLEGAL_FEEDBACK: Record<IllegalMoveReason, [string, string]> = {
+    occupied: ['that point is already occupied', '该点已有棋子'],
+    suicide: ['it would be suicide', '自杀着'],
+    ko: ['it retakes the ko or repeats an earlier position', '违反打劫规则']
+};
 
-            validMoves.push({x, y, score});
-        }
+// Parse one reply and check it against the rules; an AiMove is safe to play
+const checkReply = (text: string, position: EnginePosition): AiMove | RejectedMove => {
+    let reply: unknown;
+    try {
+        reply = JSON.parse(text);
+    } catch {
+        return { feedback: 'Your reply was not valid JSON.', detail: `无法解析的回复: ${text.slice(0, 40)}` };
     }
-
-    if (validMoves.length === 0) return 'PASS';
-    
-    // Sort moves by score descending
-    validMoves.sort((a, b) => b.score - a.score);
-
-    // Filter out moves that are terrible relative to the best move (Pruning)
-    const bestScore = validMoves[0].score;
-    
-    // PASS Logic
-    // If the best move is negative or very low value in endgame, pass.
-    let passThreshold = -500;
-    if (isEndGame) passThreshold = 5; // In endgame, if no move gives points, pass
-    
-    // However, basic AI shouldn't pass too early
-    if (bestScore < passThreshold) {
-        return 'PASS';
+    const vertex = (reply as { move?: unknown } | null)?.move;
+    if (typeof vertex !== 'string') {
+        return { feedback: 'Your reply had no "move" string.', detail: `缺少着法: ${text.slice(0, 40)}` };
     }
-
-    // Selection Logic based on difficulty
-    let topN = 1;
-    switch (difficulty) {
-        case 'novice': topN = validMoves.length; break; // Anything goes
-        case 'entry': topN = 20; break;
-        case 'beginner': topN = 10; break;
-        case 'elementary': topN = 5; break;
-        case 'intermediate': topN = 3; break;
-        case 'advanced': topN = 2; break;
-        case 'master': topN = 2; break; // Slight variety
-        case 'grandmaster': topN = 1; break; // Always the best calculated move
+    const point = gtpToPoint(vertex, position.grid.length);
+    if (point === 'PASS') return 'PASS';
+    if (!point) {
+        return { feedback: `"${vertex}" is not a point on this board.`, detail: `${vertex} 不在棋盘上` };
+    }
+    const result = makeMove(position.grid, point.x, point.y, position.color, position.ko, getRuleSet(position.rules).suicideAllowed);
+    if (!result.success) {
+        const [feedback, detail] = ILLEGAL_FEEDBACK[result.reason ?? 'occupied'];
+        return { feedback: `${vertex} is illegal: ${feedback}.`, detail: `${vertex} ${detail}` };
     }
+    return point;
+};
 
-    // Ensure we don't crash if topN > validMoves
-    const candidates = validMoves.slice(0, Math.min(topN, validMoves.length));
-    
-    // Select randomly from candidates (weighted by rank?)
-    // For lower levels, uniform random among candidates.
-    // For higher levels, bias towards index 0.
-    let selectedIndex = 0;
-    if (difficulty === 'grandmaster') {
-        selectedIndex = 0;
-    } else {
-        selectedIndex = Math.floor(Math.random() * candidates.length);
+// One JSON request with its own timeout; the caller's signal still cancels it.
+// Also used by services/gameReview.ts.
+export const generateJson = async (
+    contents: Content[],
+    systemInstruction: string,
+    schema: Schema,
+    signal?: AbortSignal,
+    timeoutMs = REQUEST_TIMEOUT
+): Promise<string> => {
+    const ai = getClient();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const cancel = () => controller.abort();
+    signal?.addEventListener('abort', cancel);
+    try {
+        const response = await ai.models.generateContent({
+            model: MODEL_NAME,
+            contents,
+            config: {
+                systemInstruction,
+                responseMimeType: "application/json",
+                responseSchema: schema,
+                abortSignal: controller.signal
+            }
+        });
+        return response.text ?? '';
+    } catch (e) {
+        if (signal?.aborted) throw createAbortError();
+        if (controller.signal.aborted) throw new EngineError('响应超时', [`${timeoutMs / 1000} 秒内没有回复`]);
+        throw new EngineError('请求失败', [e instanceof Error ? e.message : String(e)]);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', cancel);
     }
+};
 
-    return candidates[selectedIndex];
+// {{name}} placeholders are filled from the position; GEMINI_PROMPT_TEMPLATE in .env.local replaces this
+const DEFAULT_PROMPT_TEMPLATE = `Board ({{size}}x{{size}}, X = Black, O = White):
+{{board}}
+You play: {{color}}
+Rules: {{rules}}
+Komi: {{komi}}
+Prisoners: Black has captured {{blackCaptures}}, White has captured {{whiteCaptures}}
+Setup stones: {{setup}}
+Moves so far: {{moves}}
+Last move: {{lastMove}}
+Ko: {{ko}}
+Task: Return JSON {"move": "<vertex>"} using the board's column letters and row numbers, e.g. {"move": "D4"}.
+If the board is settled, return {"move": "pass"}.`;
+
+const PROMPT_TEMPLATE = process.env.GEMINI_PROMPT_TEMPLATE || DEFAULT_PROMPT_TEMPLATE;
+
+const LEVEL_DESCRIPTIONS: Record<Difficulty, string> = {
+    novice: "play like a complete novice who barely knows the rules, making random moves.",
+    entry: "play like a beginner who makes many mistakes.",
+    beginner: "play like a weak amateur (20k-15k level).",
+    elementary: "play like an average amateur (15k-10k level).",
+    intermediate: "play like a solid amateur (10k-5k level).",
+    advanced: "play like a strong amateur (single digit kyu to 1 dan).",
+    master: "play like a professional go player.",
+    grandmaster: "play like a world champion or superhuman AI (9 dan pro level)."
 };
 
-// --- REMOTE GEMINI LOGIC ---
-const formatBoard = (grid: (StoneColor | null)[][]): string => {
-  const size = grid.length;
-  const ALPHABET = "ABCDEFGHJKLMNOPQRST";
-  const cols = ALPHABET.slice(0, size);
-  let output = "   " + cols.split('').join(' ') + "\n";
-  for (let y = 0; y < size; y++) {
-    const rowNum = size - y;
-    const rowNumStr = rowNum < 10 ? ` ${rowNum}` : `${rowNum}`;
-    let rowStr = `${rowNumStr} `;
-    for (let x = 0; x < size; x++) {
-      const cell = grid[y][x];
-      rowStr += (cell === 'black' ? 'X' : cell === 'white' ? 'O' : '.') + " ";
-    }
-    output += rowStr + `${rowNum}\n`;
-  }
-  return output;
+const RULE_NAMES: Record<RuleSet, string> = {
+    chinese: 'Chinese',
+    japanese: 'Japanese',
+    aga: 'AGA',
+    nz: 'New Zealand'
 };
 
-const getRemoteMove = async (
-    grid: (StoneColor | null)[][],
-    aiColor: StoneColor,
-    difficulty: Difficulty,
-    lastMove: {x: number, y: number} | null
-): Promise<{x: number, y: number} | 'PASS'> => {
-    
-    if (!process.env.API_KEY) throw new Error("No API Key");
+// Empty points the side to move may not play because of the ko rule
+const koBannedPoints = (position: EnginePosition): Point[] => {
+    const { grid, color, ko } = position;
+    if (!ko) return [];
+    const allowSuicide = getRuleSet(position.rules).suicideAllowed;
+    const banned: Point[] = [];
+    grid.forEach((row, y) => row.forEach((stone, x) => {
+        if (!stone && makeMove(grid, x, y, color, ko, allowSuicide).reason === 'ko') banned.push({ x, y });
+    }));
+    return banned;
+};
 
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const size = grid.length;
-    const boardStr = formatBoard(grid);
-    const colorStr = aiColor === 'black' ? 'Black (X)' : 'White (O)';
-    const modelName = 'gemini-3-flash-preview';
+const buildPrompt = (position: EnginePosition, template = PROMPT_TEMPLATE): string => {
+    const size = position.grid.length;
+    const vertex = (p: Point) => pointToGtp(p, size);
+    const ruleSet = position.rules ?? DEFAULT_RULE_SET;
+    const rules = getRuleSet(ruleSet);
+    const setup = (['black', 'white'] as StoneColor[])
+        .map(c => [c, (position.initialStones || []).filter(s => s.color === c)] as const)
+        .filter(([, stones]) => stones.length > 0)
+        .map(([c, stones]) => `${toGtpColor(c)} ${stones.map(vertex).join(' ')}`);
+    const moves = (position.history || [])
+        .map((m, i) => `${i + 1}. ${toGtpColor(m.color)} ${m.pass ? 'pass' : vertex(m)}`);
+    const banned = koBannedPoints(position);
+
+    const variables: Record<string, string> = {
+        size: String(size),
+        board: formatGtpBoard(position.grid),
+        color: position.color === 'black' ? 'Black (X)' : 'White (O)',
+        rules: `${RULE_NAMES[ruleSet]} (${rules.scoring} scoring, ${position.ko?.rule ?? rules.koRule} ko rule, suicide ${rules.suicideAllowed ? 'allowed' : 'forbidden'})`,
+        komi: position.komi !== undefined ? String(position.komi) : 'unknown',
+        blackCaptures: String(position.captures?.black ?? 0),
+        whiteCaptures: String(position.captures?.white ?? 0),
+        setup: setup.length ? setup.join(', ') : 'None',
+        moves: moves.length ? moves.join(' ') : 'None',
+        lastMove: position.lastMove ? vertex(position.lastMove) : 'None',
+        ko: banned.length ? `You may not play ${banned.map(vertex).join(', ')} this turn` : 'No ko restriction'
+    };
+    return template.replace(/\{\{(\w+)\}\}/g, (match, name: string) => variables[name] ?? match);
+};
 
-    let levelDesc = "";
-    switch(difficulty) {
-        case 'novice': levelDesc = "play like a complete novice who barely knows the rules, making random moves."; break;
-        case 'entry': levelDesc = "play like a beginner who makes many mistakes."; break;
-        case 'beginner': levelDesc = "play like a weak amateur (20k-15k level)."; break;
-        case 'elementary': levelDesc = "play like an average amateur (15k-10k level)."; break;
-        case 'intermediate': levelDesc = "play like a solid amateur (10k-5k level)."; break;
-        case 'advanced': levelDesc = "play like a strong amateur (single digit kyu to 1 dan)."; break;
-        case 'master': levelDesc = "play like a professional go player."; break;
-        case 'grandmaster': levelDesc = "play like a world champion or superhuman AI (9 dan pro level)."; break;
-    }
+const getRemoteMove = async (position: EnginePosition, options: AiRequestOptions): Promise<AiMove> => {
+    const { grid, difficulty } = position;
+    const size = grid.length;
 
-    let systemInstruction = `You are a Go AI. Board size: ${size}x${size}. You must ${levelDesc}`;
+    let systemInstruction = `You are a Go AI. Board size: ${size}x${size}. You must ${LEVEL_DESCRIPTIONS[difficulty]}`;
     if (['master', 'grandmaster', 'advanced'].includes(difficulty)) {
         systemInstruction += " If there are no profitable moves left (game is over), you MUST pass.";
     }
-
-    const prompt = `
-      Board:\n${boardStr}
-      You: ${colorStr}
-      Last Move: ${lastMove ? `x=${lastMove.x},y=${lastMove.y}` : 'None'}
-      Task: Return JSON {"x": int, "y": int} or {"pass": true}.
-      If the board is settled, return {"pass": true}.
-    `;
-
-    const response = await ai.models.generateContent({
-        model: modelName,
-        contents: prompt,
-        config: { systemInstruction, responseMimeType: "application/json" }
-    });
-
-    const result = JSON.parse(response.text || "{}");
-    if (result.pass) return 'PASS';
-    if (typeof result.x === 'number' && typeof result.y === 'number') {
-        return { x: result.x, y: result.y };
+    const prompt = buildPrompt(position);
+
+    const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
+    const rejected: string[] = [];
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        const text = await generateJson(contents, systemInstruction, MOVE_SCHEMA, options.signal);
+        const move = checkReply(text, position);
+        if (typeof move === 'string' || 'x' in move) return move;
+
+        rejected.push(`第 ${attempt} 次: ${move.detail}`);
+        options.onProgress?.(attempt / MAX_ATTEMPTS);
+        contents.push(
+            { role: 'model', parts: [{ text }] },
+            { role: 'user', parts: [{ text: `${move.feedback} Choose a different, legal move.` }] }
+        );
     }
-    throw new Error("Invalid format");
+    throw new EngineError(`连续 ${MAX_ATTEMPTS} 次给出无效着法`, rejected);
 };
 
-// --- MAIN AI EXPORT ---
-export const getAIMove = async (
-  grid: (StoneColor | null)[][],
-  aiColor: StoneColor,
-  difficulty: Difficulty,
-  lastMove: {x: number, y: number} | null,
-  aiMode: AiMode
-): Promise<{x: number, y: number} | 'PASS'> => {
-  
-  if (aiMode === 'online') {
-      if (navigator.onLine && process.env.API_KEY) {
-          try {
-              const move = await getRemoteMove(grid, aiColor, difficulty, lastMove);
-              return move;
-          } catch (e) {
-              console.warn("Online AI failed, attempting fallback...", e);
-          }
-      } else {
-          console.warn("Offline or missing Key, using Local AI.");
-      }
+// --- ENGINE ---
+// Needs the network and an API key. Failures are reported to the caller (services/aiEngine.ts),
+// which decides whether to fall back to another engine.
+export const geminiEngine: AiEngine = {
+  id: 'gemini',
+  name: '云端 Gemini',
+  description: MOCK_MODE ? '测试模式：使用本地模拟客户端' : '需要网络与 API Key',
+  capabilities: { analyze: false, difficulty: true, offline: false },
+  isAvailable: () => !!injectedClient || ((typeof navigator === 'undefined' || navigator.onLine) && !!process.env.API_KEY),
+  genMove: async (position, options = {}) => {
+    if (options.signal?.aborted) throw createAbortError();
+    const move = await getRemoteMove(position, options);
+    if (options.signal?.aborted) throw createAbortError();
+    options.onProgress?.(1);
+    return move;
+  },
+  analyze: async () => {
+    throw new Error("Gemini engine does not support analysis");
   }
-
-  // Local Mode (or fallback)
-  return getLocalMove(grid, aiColor, difficulty, lastMove);
 };
@@ -0,0 +1,88 @@
+import { AiMove, Move } from "../types";
+import { pointToGtp, gtpToPoint } from "../utils/goLogic";
+import { toGtpColor } from "../utils/gtp";
+import { createAbortError } from "./aiClient";
+import type { AiEngine, EnginePosition } from "./aiEngine";
+import {
+  DEFAULT_GTP_BRIDGE_PORT, GtpBridgeInfo, GtpGenMoveRequest, GtpGenMoveResponse, GtpPlay
+} from "./gtpProtocol";
+
+// --- GTP ENGINE CLIENT ---
+// Plays through a GTP engine (GNU Go, KataGo, ...) running on this machine behind scripts/gtpBridge.ts.
+// The bridge is only reachable after probe() succeeded; SetupModal probes when it opens.
+
+const BRIDGE_URL = process.env.GTP_BRIDGE_URL || `http://localhost:${DEFAULT_GTP_BRIDGE_PORT}`;
+const PROBE_TIMEOUT = 1500;
+
+let bridgeInfo: GtpBridgeInfo | null = null;
+
+// Setup stones, then the moves, as GTP plays. Without a history the current stones are set up directly.
+const toGtpPlays = (position: EnginePosition): GtpPlay[] => {
+  const size = position.grid.length;
+  if (!position.history) {
+    const plays: GtpPlay[] = [];
+    position.grid.forEach((row, y) => row.forEach((stone, x) => {
+      if (stone) plays.push({ color: toGtpColor(stone), vertex: pointToGtp({ x, y }, size) });
+    }));
+    return plays;
+  }
+  const setup = (position.initialStones || []).map(s => ({ color: toGtpColor(s.color), vertex: pointToGtp(s, size) }));
+  const moves = position.history.map((m: Move) => ({
+    color: toGtpColor(m.color),
+    vertex: m.pass ? 'pass' : pointToGtp(m, size)
+  }));
+  return [...setup, ...moves];
+};
+
+const readError = async (response: Response): Promise<string> => {
+  try {
+    return (await response.json()).error || response.statusText;
+  } catch {
+    return response.statusText;
+  }
+};
+
+export const gtpEngine: AiEngine = {
+  id: 'gtp',
+  name: '本地 GTP 引擎',
+  description: '连接本机运行的 GNU Go、KataGo 等 (npm run gtp-bridge)',
+  capabilities: { analyze: false, difficulty: false, offline: true },
+  isAvailable: () => bridgeInfo !== null,
+  probe: async () => {
+    try {
+      const response = await fetch(`${BRIDGE_URL}/info`, { signal: AbortSignal.timeout(PROBE_TIMEOUT) });
+      bridgeInfo = response.ok ? await response.json() : null;
+    } catch {
+      bridgeInfo = null;
+    }
+    return bridgeInfo !== null;
+  },
+  genMove: async (position, options = {}): Promise<AiMove> => {
+    const size = position.grid.length;
+    const request: GtpGenMoveRequest = {
+      size,
+      komi: position.komi ?? 7.5,
+      moves: toGtpPlays(position),
+      color: toGtpColor(position.color)
+    };
+    const response = await fetch(`${BRIDGE_URL}/genmove`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+      signal: options.signal
+    });
+    if (!response.ok) throw new Error(`GTP bridge: ${await readError(response)}`);
+    const { move }: GtpGenMoveResponse = await response.json();
+    if (options.signal?.aborted) throw createAbortError();
+    options.onProgress?.(1);
+
+    // The app has no way for an AI to resign yet; passing lets the game end normally
+    if (move.trim().toLowerCase() === 'resign') return 'PASS';
+    const point = gtpToPoint(move, size);
+    if (!point) throw new Error(`GTP engine returned an invalid move: ${move}`);
+    return point;
+  },
+  analyze: async () => {
+    throw new Error("GTP engine does not support analysis");
+  }
+};
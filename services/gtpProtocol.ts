@@ -0,0 +1,31 @@
+// --- GTP BRIDGE PROTOCOL ---
+// JSON over HTTP between the app (services/gtpEngine.ts) and the Node bridge (scripts/gtpBridge.ts),
+// which replays the game into a GTP engine process. Vertices and colours use GTP notation ("D4", "B").
+
+export const DEFAULT_GTP_BRIDGE_PORT = 8765;
+
+export interface GtpBridgeInfo {
+  name: string;
+  version: string;
+}
+
+export interface GtpPlay {
+  color: 'B' | 'W';
+  vertex: string; // "D4" or "pass"
+}
+
+// POST /genmove
+export interface GtpGenMoveRequest {
+  size: number;
+  komi: number;
+  moves: GtpPlay[]; // Setup stones first, then the game, in order
+  color: 'B' | 'W'; // Side to generate a move for
+}
+
+export interface GtpGenMoveResponse {
+  move: string; // Vertex, "pass" or "resign"
+}
+
+export interface GtpErrorResponse {
+  error: string;
+}
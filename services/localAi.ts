@@ -0,0 +1,440 @@
+import { StoneColor, Difficulty, AiMove, Point } from "../types";
+import { makeMove, getGroupInfo, getOpponent, isOnBoard } from "../utils/goLogic";
+import { KoState } from "../utils/rules";
+import { findCapture, findEscape, readCaptureRace, ReadingOptions } from "../utils/tactics";
+import { Rng, createRng } from "../utils/random";
+import { MCTS_BUDGETS, searchMcts } from "./mcts";
+import type { MoveCandidate } from "./aiEngine";
+
+// --- HELPERS ---
+
+// Helper: Check if a move fills one's own simple eye (Bad move usually)
+const isEye = (grid: (StoneColor | null)[][], x: number, y: number, color: StoneColor): boolean => {
+    const size = grid.length;
+    // 1. Orthogonal check
+    const neighbors = [
+        { x: x + 1, y: y }, { x: x - 1, y: y },
+        { x: x, y: y + 1 }, { x: x, y: y - 1 }
+    ];
+    for (const n of neighbors) {
+        if (n.x >= 0 && n.x < size && n.y >= 0 && n.y < size) {
+            if (grid[n.y][n.x] !== color) return false;
+        }
+    }
+    // 2. Diagonal check (simplified)
+    let diagEnemyCount = 0;
+    const diagonals = [
+        { x: x + 1, y: y + 1 }, { x: x - 1, y: y - 1 },
+        { x: x - 1, y: y + 1 }, { x: x + 1, y: y - 1 }
+    ];
+    for (const d of diagonals) {
+        if (d.x >= 0 && d.x < size && d.y >= 0 && d.y < size) {
+            if (grid[d.y][d.x] !== color && grid[d.y][d.x] !== null) diagEnemyCount++;
+        }
+    }
+    return diagEnemyCount < 2;
+};
+
+// Helper: Evaluate Shape (3x3 pattern)
+// Returns a score bonus/penalty
+const getShapeScore = (grid: (StoneColor | null)[][], x: number, y: number, color: StoneColor): number => {
+    const size = grid.length;
+    let score = 0;
+    
+    // Check for "Empty Triangle" (Bad shape) - Simple detection
+    // X X
+    // X .  <- if we play at dot, and it forms a clumpsy triangle
+    const neighbors = [
+        {dx: 1, dy: 0}, {dx: 0, dy: 1}, {dx: -1, dy: 0}, {dx: 0, dy: -1}
+    ];
+
+    let friendlyNeighbors = 0;
+    let emptyNeighbors = 0;
+    
+    neighbors.forEach(n => {
+        const nx = x + n.dx;
+        const ny = y + n.dy;
+        if (nx >= 0 && nx < size && ny >= 0 && ny < size) {
+            if (grid[ny][nx] === color) friendlyNeighbors++;
+            else if (grid[ny][nx] === null) emptyNeighbors++;
+        }
+    });
+
+    // Penalize over-concentration (Dumpling shape / Empty triangle candidate)
+    if (friendlyNeighbors >= 3) {
+        score -= 40;
+    }
+
+    // Tiger's mouth detection (simplified) - Good Shape
+    // . X
+    // X . <- Play here
+    const diagonals = [
+        {dx: 1, dy: 1}, {dx: -1, dy: -1}, {dx: -1, dy: 1}, {dx: 1, dy: -1}
+    ];
+    
+    // Check Hane (Head of two stones)
+    // O O
+    // X . <- Play here to hane
+    const opponent = getOpponent(color);
+    neighbors.forEach(n => {
+        const nx = x + n.dx;
+        const ny = y + n.dy;
+        if (nx >=0 && nx < size && ny >= 0 && ny < size && grid[ny][nx] === opponent) {
+             // If opponent has another opponent stone next to it
+             neighbors.forEach(n2 => {
+                 const nnx = nx + n2.dx;
+                 const nny = ny + n2.dy;
+                 if (nnx >=0 && nnx < size && nny >= 0 && nny < size && grid[nny][nnx] === opponent) {
+                     // Check if this move 'heads' them.
+                     score += 15; // Hane bonus
+                 }
+             });
+        }
+    });
+
+    return score;
+}
+
+// Reading runs for every candidate move, so it gets a much smaller budget than the hint overlay
+const MOVE_READING: ReadingOptions = { budget: 300 };
+
+// Helper: Chains of `color` within two points of (x, y) that are short of liberties, one point each
+const nearbyWeakChains = (grid: (StoneColor | null)[][], x: number, y: number, color: StoneColor, maxLiberties: number): Point[] => {
+    const size = grid.length;
+    const seen = new Set<string>();
+    const chains: Point[] = [];
+    for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (Math.abs(dx) + Math.abs(dy) > 2 || !isOnBoard(nx, ny, size) || grid[ny][nx] !== color || seen.has(`${nx},${ny}`)) continue;
+            const { group, liberties } = getGroupInfo(grid, nx, ny);
+            group.forEach(p => seen.add(`${p.x},${p.y}`));
+            if (liberties.length <= maxLiberties) chains.push({ x: nx, y: ny });
+        }
+    }
+    return chains;
+};
+
+// Helper: Bonus for moves whose value only shows up in reading, scored on the position after the move:
+// nets that capture a chain that could have escaped, and capture races the move wins
+const getReadingBonus = (
+    before: (StoneColor | null)[][],
+    after: (StoneColor | null)[][],
+    x: number,
+    y: number,
+    color: StoneColor
+): number => {
+    const opponent = getOpponent(color);
+    let bonus = 0;
+
+    for (const chain of nearbyWeakChains(after, x, y, opponent, 2)) {
+        const { group, liberties } = getGroupInfo(after, chain.x, chain.y);
+        if (liberties.length !== 2) continue; // Ataris are handled by the chase check
+        if (findEscape(after, chain.x, chain.y, MOVE_READING).saved) continue;
+        if (before[chain.y][chain.x] === opponent && !findEscape(before, chain.x, chain.y, MOVE_READING).saved) continue; // Already dead
+        bonus += 300 + group.length * 50;
+    }
+
+    // Capture race: an enemy chain we just took a liberty from, wrestling with one of ours
+    for (const theirs of nearbyWeakChains(after, x, y, opponent, 4)) {
+        const theirInfo = getGroupInfo(after, theirs.x, theirs.y);
+        if (!theirInfo.group.some(s => Math.abs(s.x - x) + Math.abs(s.y - y) === 1)) continue;
+        const ours = theirInfo.group
+            .flatMap(s => [{x: s.x + 1, y: s.y}, {x: s.x - 1, y: s.y}, {x: s.x, y: s.y + 1}, {x: s.x, y: s.y - 1}])
+            .find(p => isOnBoard(p.x, p.y, after.length) && after[p.y][p.x] === color && getGroupInfo(after, p.x, p.y).liberties.length <= 4);
+        if (!ours) continue;
+        // The opponent moves next: if they now lose a race they would have won by moving first, this move decided it
+        if (readCaptureRace(after, theirs, ours, MOVE_READING).outcome !== 'lose') continue;
+        if (before[ours.y][ours.x] === color && readCaptureRace(before, theirs, ours, MOVE_READING).outcome === 'lose') continue;
+        bonus += 200 + theirInfo.group.length * 40;
+    }
+    return bonus;
+};
+
+// --- LOCAL AI ENGINE LOGIC ---
+
+export interface LocalAiOptions {
+    onProgress?: (progress: number) => void; // Fraction of the work done so far
+    rng?: Rng; // Source of the noise and playouts; defaults to Math.random
+    fixedPlayouts?: boolean; // Search the full playout budget regardless of time, so a seeded game replays exactly
+}
+
+// Options that seed a move; unseeded moves stay random. The MCTS levels keep their time limit in play,
+// so they replay exactly only when the playout budget runs out first (the tournament fixes playouts instead).
+export const seededOptions = (seed?: number): LocalAiOptions =>
+    seed === undefined ? {} : { rng: createRng(seed) };
+
+export interface ScoredMove {
+    x: number;
+    y: number;
+    score: number;
+}
+
+// One-ply heuristic evaluation of every legal move, best first.
+// `shouldPass` is set when nothing is worth playing.
+export const rankMoves = (
+    grid: (StoneColor | null)[][],
+    aiColor: StoneColor,
+    difficulty: Difficulty,
+    lastMove: {x: number, y: number} | null,
+    ko?: KoState,
+    options: LocalAiOptions = {}
+): { moves: ScoredMove[], shouldPass: boolean } => {
+    const { onProgress, rng = Math.random } = options;
+    const size = grid.length;
+    const opponent = getOpponent(aiColor);
+    const validMoves: ScoredMove[] = [];
+    
+    // Game Stage Analysis
+    let movesCount = 0;
+    for(let r=0; r<size; r++) for(let c=0; c<size; c++) if(grid[r][c]) movesCount++;
+
+    const isOpening = movesCount < (size === 19 ? 50 : 20);
+    const isEndGame = movesCount > (size * size * 0.85);
+
+    // Stronger levels read ladders, nets and capture races instead of trusting liberty counts
+    const readsTactics = ['intermediate', 'advanced', 'master', 'grandmaster'].includes(difficulty);
+
+    for (let y = 0; y < size; y++) {
+        onProgress?.(y / size);
+        for (let x = 0; x < size; x++) {
+            if (grid[y][x] !== null) continue;
+
+            // 0. PRE-FILTER: Don't fill own eye unless it captures something
+            // We check this loosely here, will verify capture later
+            const looksLikeEye = isEye(grid, x, y, aiColor);
+
+            // 1. SIMULATE THE MOVE
+            const result = makeMove(grid, x, y, aiColor, ko);
+            if (!result.success) continue; // Illegal move (incl. ko / superko)
+
+            // --- BASE NOISE (Randomness) ---
+            let noiseRange = 0;
+            switch (difficulty) {
+                case 'novice': noiseRange = 80; break;
+                case 'entry': noiseRange = 60; break;
+                case 'beginner': noiseRange = 50; break;
+                case 'elementary': noiseRange = 30; break;
+                case 'intermediate': noiseRange = 15; break;
+                case 'advanced': noiseRange = 8; break;
+                case 'master': noiseRange = 3; break;
+                case 'grandmaster': noiseRange = 0; break; // Pure calculation
+            }
+            let score = rng() * noiseRange;
+
+            // --- TACTICAL ANALYSIS (Life & Death) ---
+
+            const { liberties: myLiberties } = getGroupInfo(result.newGrid, x, y);
+            const myLibCount = myLiberties.length;
+            const captures = result.captures;
+
+            // A. Capturing Stones (Huge Bonus)
+            if (captures > 0) {
+                score += 800; // Base capture bonus
+                score += captures * 100; // More stones = better
+                
+                // If we captured, and it was a "Self-Atari" (1 liberty left), it's usually okay because we resolved a fight.
+                // But if we captured 1 stone and are still in Atari, it might be a "Snapback" trap.
+                if (myLibCount === 1 && captures === 1) {
+                    score -= 300; // Caution against snapbacks
+                }
+            }
+
+            // B. Self-Atari Check (CRITICAL for weak AI prevention)
+            if (myLibCount === 1) {
+                if (captures === 0) {
+                     // If we didn't capture, playing into Atari is usually suicide or bad reading.
+                     // Novice might do it, Grandmaster never does unless it's a specific sacrifice (too complex for this heuristic).
+                     const penalty = ['master', 'grandmaster', 'advanced'].includes(difficulty) ? 5000 : 200;
+                     score -= penalty;
+                }
+            } else if (myLibCount === 2) {
+                // Shortage of liberties warning
+                if (['master', 'grandmaster'].includes(difficulty)) {
+                    score -= 20; 
+                }
+            }
+
+            // C. Save Own Stones (Atari Defense)
+            const neighbors = [{x:x+1,y}, {x:x-1,y}, {x,y:y+1}, {x,y:y-1}];
+            let savedGroupBonus = 0;
+            for (const n of neighbors) {
+                if (n.x >=0 && n.x < size && n.y >= 0 && n.y < size) {
+                    if (grid[n.y][n.x] === aiColor) {
+                        const preGroup = getGroupInfo(grid, n.x, n.y);
+                        // If a neighbor group was in Atari (1 liberty) and now has more
+                        if (preGroup.liberties.length === 1 && myLibCount > 1) {
+                            savedGroupBonus = 600 + (preGroup.group.length * 50);
+                        }
+                    }
+                }
+            }
+            // Running is pointless if the chain is still caught in a ladder or net
+            if (readsTactics && myLibCount <= 2 && findCapture(result.newGrid, x, y, MOVE_READING)) {
+                if (savedGroupBonus > 0) score -= 100; // Broken ladder: extending only feeds more stones
+                savedGroupBonus = 0;
+            }
+            score += savedGroupBonus;
+
+            // D. Atari Attack (Putting opponent in Atari)
+            let atariAttackBonus = 0;
+            for (const n of neighbors) {
+                if (n.x >=0 && n.x < size && n.y >= 0 && n.y < size) {
+                    if (result.newGrid[n.y][n.x] === opponent) {
+                        const enemyGroup = getGroupInfo(result.newGrid, n.x, n.y);
+                        if (enemyGroup.liberties.length === 1) {
+                            // We put them in Atari! Only worth much if the chase actually ends in a capture.
+                            const escapes = readsTactics && findEscape(result.newGrid, n.x, n.y, MOVE_READING).saved;
+                            atariAttackBonus += escapes ? 20 : 150 + (enemyGroup.group.length * 20);
+                        }
+                        // Cut check: If we reduced their liberties significantly
+                        const preEnemyGroup = getGroupInfo(grid, n.x, n.y);
+                        if (preEnemyGroup.liberties.length > enemyGroup.liberties.length) {
+                             score += 10; // Pressure bonus
+                        }
+                    }
+                }
+            }
+            score += atariAttackBonus;
+
+            // D2. Nets and capture races (reading levels only)
+            if (readsTactics) {
+                score += getReadingBonus(grid, result.newGrid, x, y, aiColor);
+            }
+
+            // --- STRATEGIC ANALYSIS ---
+
+            // E. Opening Theory (High weights for corners/sides early game)
+            if (isOpening) {
+                const distToEdgeX = Math.min(x, size - 1 - x);
+                const distToEdgeY = Math.min(y, size - 1 - y);
+                
+                // Star points (4,4), Komoku (3,4), Sansan (3,3)
+                // In 0-indexed: 3, 2
+                const isThirdLine = distToEdgeX === 2 || distToEdgeY === 2;
+                const isFourthLine = distToEdgeX === 3 || distToEdgeY === 3;
+
+                if (isThirdLine && isFourthLine) {
+                    score += 120; // Prime corners (3-4 points)
+                } else if (isFourthLine && isFourthLine) {
+                    score += 100; // Star points (4-4)
+                } else if (isThirdLine && isThirdLine) {
+                    score += 80; // Sansan (3-3)
+                }
+                
+                // Edge Avoidance in opening
+                if (distToEdgeX === 0 || distToEdgeY === 0) score -= 100;
+                if (distToEdgeX === 1 || distToEdgeY === 1) score -= 50;
+
+                // Center Avoidance in opening (unless specific fighting)
+                if (distToEdgeX > 4 && distToEdgeY > 4) score -= 10;
+            }
+
+            // F. Proximity / Local Fighting
+            if (lastMove && !isOpening) {
+                const dist = Math.abs(x - lastMove.x) + Math.abs(y - lastMove.y);
+                // Respond locally
+                if (dist <= 2) score += 40;
+                else if (dist <= 4) score += 20;
+            }
+
+            // G. Shape Analysis (Master/Grandmaster only)
+            if (['advanced', 'master', 'grandmaster'].includes(difficulty)) {
+                score += getShapeScore(grid, x, y, aiColor);
+            }
+
+            // H. Don't fill own eyes (Severe Penalty)
+            if (looksLikeEye && captures === 0) {
+                score -= 10000;
+            }
+            
+            // I. End Game: Avoid DAME (neutral points) if possible unless necessary
+            if (isEndGame && captures === 0 && savedGroupBonus === 0 && atariAttackBonus === 0) {
+                 // Check if it's territory boundary or just neutral
+                 // Simplified: small penalty to encourage passing if only dame left
+                 if (score < 10) score -= 5;
+            }
+
+            validMoves.push({x, y, score});
+        }
+    }
+
+    if (validMoves.length === 0) return { moves: validMoves, shouldPass: true };
+    
+    // Sort moves by score descending
+    validMoves.sort((a, b) => b.score - a.score);
+
+    // Filter out moves that are terrible relative to the best move (Pruning)
+    const bestScore = validMoves[0].score;
+    
+    // PASS Logic
+    // If the best move is negative or very low value in endgame, pass.
+    let passThreshold = -500;
+    if (isEndGame) passThreshold = 5; // In endgame, if no move gives points, pass
+    
+    // However, basic AI shouldn't pass too early
+    return { moves: validMoves, shouldPass: bestScore < passThreshold };
+};
+
+// Best moves by the full-strength heuristic, for analysis rather than play
+export const analyzeLocal = (
+    grid: (StoneColor | null)[][],
+    color: StoneColor,
+    lastMove: {x: number, y: number} | null,
+    ko: KoState | undefined,
+    limit: number,
+    onProgress?: (progress: number) => void
+): MoveCandidate[] => {
+    const { moves } = rankMoves(grid, color, 'grandmaster', lastMove, ko, { onProgress });
+    return moves.slice(0, limit).map(({ x, y, score }) => ({ move: { x, y }, score }));
+};
+
+// Synchronous on purpose: it runs inside the AI worker (services/aiWorker.ts) or in Node.
+// 'advanced' and above search with MCTS; lower levels pick among the heuristic's top moves.
+export const computeLocalMove = (
+    grid: (StoneColor | null)[][],
+    aiColor: StoneColor,
+    difficulty: Difficulty,
+    lastMove: {x: number, y: number} | null,
+    ko?: KoState,
+    options: LocalAiOptions = {}
+): AiMove => {
+    const { onProgress, rng = Math.random } = options;
+    const mcts = MCTS_BUDGETS[difficulty];
+    const budget = mcts && options.fixedPlayouts ? { ...mcts, timeMs: Infinity } : mcts;
+    const { moves: validMoves, shouldPass } = rankMoves(grid, aiColor, difficulty, lastMove, ko, { rng, onProgress: budget ? undefined : onProgress });
+    if (shouldPass) return 'PASS';
+
+    if (budget) {
+        return searchMcts(grid, aiColor, validMoves, budget, ko, { onProgress, rng });
+    }
+
+    // Selection Logic based on difficulty
+    let topN = 1;
+    switch (difficulty) {
+        case 'novice': topN = validMoves.length; break; // Anything goes
+        case 'entry': topN = 20; break;
+        case 'beginner': topN = 10; break;
+        case 'elementary': topN = 5; break;
+        case 'intermediate': topN = 3; break;
+        case 'advanced': topN = 2; break;
+        case 'master': topN = 2; break; // Slight variety
+        case 'grandmaster': topN = 1; break; // Always the best calculated move
+    }
+
+    // Ensure we don't crash if topN > validMoves
+    const candidates = validMoves.slice(0, Math.min(topN, validMoves.length));
+    
+    // Select randomly from candidates (weighted by rank?)
+    // For lower levels, uniform random among candidates.
+    // For higher levels, bias towards index 0.
+    let selectedIndex = 0;
+    if (difficulty === 'grandmaster') {
+        selectedIndex = 0;
+    } else {
+        selectedIndex = Math.floor(rng() * candidates.length);
+    }
+
+    return candidates[selectedIndex];
+};
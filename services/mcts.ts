@@ -0,0 +1,355 @@
+import { StoneColor, Difficulty, AiMove } from "../types";
+import { makeMove, getOpponent } from "../utils/goLogic";
+import { KoState } from "../utils/rules";
+import type { ScoredMove, LocalAiOptions } from "./localAi";
+import { Rng } from "../utils/random";
+
+// --- MONTE CARLO TREE SEARCH ---
+// UCT over the heuristic's best root moves. Below the root the tree expands every sensible move,
+// and positions are evaluated by fast playouts on a flat board with a capture/atari-aware policy.
+// Superko is checked for root moves only; deeper in the tree the playout board enforces simple ko.
+
+export interface MctsBudget {
+  playouts: number; // Stop after this many playouts...
+  timeMs: number; // ...or after this long, whichever comes first
+  candidates: number; // Root moves considered, taken from the heuristic ranking
+}
+
+export const MCTS_BUDGETS: Partial<Record<Difficulty, MctsBudget>> = {
+  advanced: { playouts: 1500, timeMs: 1500, candidates: 12 },
+  master: { playouts: 4000, timeMs: 3000, candidates: 20 },
+  grandmaster: { playouts: 10000, timeMs: 5000, candidates: 30 }
+};
+
+// Playouts are scored by area; the engine does not know the game's komi, so it assumes the common one
+const PLAYOUT_KOMI = 7.5;
+const UCT_EXPLORATION = 0.8;
+// Root moves start with this many virtual playouts, won in proportion to their heuristic score,
+// so the search only overrules the heuristic when the playouts clearly disagree
+const PRIOR_VISITS = 20;
+
+const EMPTY = 0;
+const BLACK = 1;
+const WHITE = 2;
+const PASS = -1;
+
+type Cell = typeof EMPTY | typeof BLACK | typeof WHITE;
+
+const toCell = (color: StoneColor): Cell => color === 'black' ? BLACK : WHITE;
+const other = (c: Cell): Cell => (c === BLACK ? WHITE : BLACK);
+
+// --- PLAYOUT BOARD ---
+
+interface FastBoard {
+  size: number;
+  cells: Int8Array;
+  koPoint: number; // Point made illegal by a single-stone capture, or -1
+  neighbors: number[][]; // Shared, per board size
+  mark: Int32Array; // Flood-fill scratch space
+  markStamp: number;
+}
+
+const neighborCache = new Map<number, number[][]>();
+
+const getNeighbors = (size: number): number[][] => {
+  let table = neighborCache.get(size);
+  if (!table) {
+    table = [];
+    for (let i = 0; i < size * size; i++) {
+      const x = i % size;
+      const y = Math.floor(i / size);
+      const list: number[] = [];
+      if (x > 0) list.push(i - 1);
+      if (x < size - 1) list.push(i + 1);
+      if (y > 0) list.push(i - size);
+      if (y < size - 1) list.push(i + size);
+      table.push(list);
+    }
+    neighborCache.set(size, table);
+  }
+  return table;
+};
+
+const createBoard = (grid: (StoneColor | null)[][]): FastBoard => {
+  const size = grid.length;
+  const cells = new Int8Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const stone = grid[y][x];
+      if (stone) cells[y * size + x] = toCell(stone);
+    }
+  }
+  return { size, cells, koPoint: -1, neighbors: getNeighbors(size), mark: new Int32Array(size * size), markStamp: 0 };
+};
+
+const copyBoard = (board: FastBoard, into?: FastBoard): FastBoard => {
+  if (into) {
+    into.cells.set(board.cells);
+    into.koPoint = board.koPoint;
+    return into;
+  }
+  return { ...board, cells: board.cells.slice(), mark: new Int32Array(board.cells.length), markStamp: 0 };
+};
+
+// Stones of the chain at `start` and its liberty count (stops counting at `libLimit`)
+const chainAt = (board: FastBoard, start: number, libLimit = Infinity): { stones: number[], liberties: number, lastLiberty: number } => {
+  const color = board.cells[start];
+  const stamp = ++board.markStamp;
+  const stones = [start];
+  board.mark[start] = stamp;
+  let liberties = 0;
+  let lastLiberty = -1;
+  for (let i = 0; i < stones.length; i++) {
+    for (const n of board.neighbors[stones[i]]) {
+      if (board.mark[n] === stamp) continue;
+      const c = board.cells[n];
+      if (c === EMPTY) {
+        board.mark[n] = stamp;
+        liberties++;
+        lastLiberty = n;
+        if (liberties >= libLimit) return { stones, liberties, lastLiberty };
+      } else if (c === color) {
+        board.mark[n] = stamp;
+        stones.push(n);
+      }
+    }
+  }
+  return { stones, liberties, lastLiberty };
+};
+
+// Is `p` an empty point surrounded by `color` (a real or likely eye)?
+const isEyeLike = (board: FastBoard, p: number, color: Cell): boolean => {
+  for (const n of board.neighbors[p]) {
+    if (board.cells[n] !== color) return false;
+  }
+  return true;
+};
+
+// Play a move in place. Returns false (board untouched) for illegal moves: occupied, ko, suicide.
+const playFast = (board: FastBoard, p: number, color: Cell): boolean => {
+  if (board.cells[p] !== EMPTY || p === board.koPoint) return false;
+  const enemy = other(color);
+  board.cells[p] = color;
+
+  let captured = 0;
+  let capturedPoint = -1;
+  for (const n of board.neighbors[p]) {
+    if (board.cells[n] !== enemy) continue;
+    const chain = chainAt(board, n, 1);
+    if (chain.liberties === 0) {
+      captured += chain.stones.length;
+      capturedPoint = n;
+      chain.stones.forEach(s => board.cells[s] = EMPTY);
+    }
+  }
+
+  const own = chainAt(board, p, 2);
+  if (own.liberties === 0) {
+    board.cells[p] = EMPTY;
+    return false;
+  }
+  // Single stone captured by a single stone that is now in atari: ko
+  board.koPoint = captured === 1 && own.stones.length === 1 && own.liberties === 1 ? capturedPoint : -1;
+  return true;
+};
+
+// --- PLAYOUT POLICY ---
+
+// Tactical replies around the last move: capture a group in atari, or rescue one of ours
+const tacticalMove = (board: FastBoard, last: number, color: Cell): number => {
+  if (last < 0) return PASS;
+  const enemy = other(color);
+  const candidates = [last, ...board.neighbors[last]];
+  for (const p of candidates) {
+    const c = board.cells[p];
+    if (c === EMPTY) continue;
+    const chain = chainAt(board, p, 2);
+    if (chain.liberties !== 1) continue;
+    if (c === enemy) return chain.lastLiberty; // Capture
+    // Extend out of atari if that actually gains liberties
+    const saved = chain.lastLiberty;
+    const trial = copyBoard(board);
+    if (playFast(trial, saved, color) && chainAt(trial, saved, 2).liberties >= 2) return saved;
+  }
+  return PASS;
+};
+
+// First legal move scanning from a random offset, never filling one of our own eyes.
+// Plays it on the board; returns PASS when nothing is left.
+const randomMove = (board: FastBoard, color: Cell, empties: number[], rng: Rng): number => {
+  const n = empties.length;
+  if (n === 0) return PASS;
+  const start = Math.floor(rng() * n);
+  for (let k = 0; k < n; k++) {
+    const p = empties[(start + k) % n];
+    if (board.cells[p] !== EMPTY || isEyeLike(board, p, color)) continue;
+    if (playFast(board, p, color)) return p;
+  }
+  return PASS;
+};
+
+// Play to the end and return the winner by area count
+const runPlayout = (board: FastBoard, toMove: Cell, lastMove: number, rng: Rng): Cell => {
+  const size2 = board.cells.length;
+  const maxMoves = size2 * 2;
+  let color = toMove;
+  let last = lastMove;
+  let passes = 0;
+
+  for (let moveCount = 0; moveCount < maxMoves && passes < 2; moveCount++) {
+    const empties: number[] = [];
+    for (let i = 0; i < size2; i++) if (board.cells[i] === EMPTY) empties.push(i);
+
+    let move = tacticalMove(board, last, color);
+    if (move !== PASS && !(rng() < 0.9 && playFast(board, move, color))) move = PASS;
+    if (move === PASS) move = randomMove(board, color, empties, rng);
+
+    if (move === PASS) {
+      passes++;
+      board.koPoint = -1;
+    } else {
+      passes = 0;
+    }
+    last = move;
+    color = other(color);
+  }
+
+  return scoreBoard(board) > 0 ? BLACK : WHITE;
+};
+
+// Black's area minus White's area minus komi. Empty points count for a colour only if all neighbours are it.
+const scoreBoard = (board: FastBoard): number => {
+  let score = -PLAYOUT_KOMI;
+  for (let i = 0; i < board.cells.length; i++) {
+    const c = board.cells[i];
+    if (c === BLACK) score++;
+    else if (c === WHITE) score--;
+    else if (isEyeLike(board, i, BLACK)) score++;
+    else if (isEyeLike(board, i, WHITE)) score--;
+  }
+  return score;
+};
+
+// --- TREE ---
+
+interface MctsNode {
+  move: number; // Point index, or PASS
+  color: Cell; // Colour that played `move`
+  parent: MctsNode | null;
+  children: MctsNode[];
+  untried: number[] | null; // Filled lazily on first expansion
+  visits: number;
+  wins: number; // From the point of view of `color`
+}
+
+const createNode = (move: number, color: Cell, parent: MctsNode | null): MctsNode => ({
+  move, color, parent, children: [], untried: null, visits: 0, wins: 0
+});
+
+const selectChild = (node: MctsNode): MctsNode => {
+  const logVisits = Math.log(node.visits);
+  let best = node.children[0];
+  let bestValue = -Infinity;
+  for (const child of node.children) {
+    const value = child.wins / child.visits + UCT_EXPLORATION * Math.sqrt(logVisits / child.visits);
+    if (value > bestValue) {
+      bestValue = value;
+      best = child;
+    }
+  }
+  return best;
+};
+
+// Moves worth trying from a position: empty points that don't fill the mover's own eyes
+const listMoves = (board: FastBoard, color: Cell): number[] => {
+  const moves: number[] = [];
+  for (let i = 0; i < board.cells.length; i++) {
+    if (board.cells[i] === EMPTY && i !== board.koPoint && !isEyeLike(board, i, color)) moves.push(i);
+  }
+  return moves;
+};
+
+export const searchMcts = (
+  grid: (StoneColor | null)[][],
+  aiColor: StoneColor,
+  ranked: ScoredMove[],
+  budget: MctsBudget,
+  ko?: KoState,
+  options: Pick<LocalAiOptions, 'onProgress' | 'rng'> = {}
+): AiMove => {
+  const { onProgress, rng = Math.random } = options;
+  const size = grid.length;
+  const rootBoard = createBoard(grid);
+  const me = toCell(aiColor);
+
+  // Root candidates: the heuristic's best legal moves (superko already excluded by rankMoves)
+  const candidates = ranked
+    .slice(0, budget.candidates)
+    .filter(m => makeMove(grid, m.x, m.y, aiColor, ko).success);
+  if (candidates.length === 0) return 'PASS';
+  if (candidates.length === 1) return { x: candidates[0].x, y: candidates[0].y };
+
+  const root = createNode(PASS, toCell(getOpponent(aiColor)), null);
+  root.untried = [];
+  const topScore = candidates[0].score;
+  const lowScore = candidates[candidates.length - 1].score;
+  root.children = candidates.map(m => {
+    const child = createNode(m.y * size + m.x, me, root);
+    const prior = topScore > lowScore ? (m.score - lowScore) / (topScore - lowScore) : 0;
+    child.visits = PRIOR_VISITS;
+    child.wins = PRIOR_VISITS * (0.4 + 0.3 * prior);
+    return child;
+  });
+  root.visits = PRIOR_VISITS * candidates.length;
+
+  const scratch = copyBoard(rootBoard);
+  const started = Date.now();
+  let playouts = 0;
+
+  while (playouts < budget.playouts && Date.now() - started < budget.timeMs) {
+    const board = copyBoard(rootBoard, scratch);
+    let node = root;
+
+    // 1. Selection: follow UCT through fully expanded nodes
+    while (node.untried !== null && node.untried.length === 0 && node.children.length > 0) {
+      node = selectChild(node);
+      if (node.move !== PASS) playFast(board, node.move, node.color);
+    }
+
+    // 2. Expansion
+    if (node.visits > 0) {
+      const toMove = other(node.color);
+      if (node.untried === null) node.untried = listMoves(board, toMove);
+      while (node.untried.length > 0) {
+        const index = Math.floor(rng() * node.untried.length);
+        const move = node.untried[index];
+        node.untried[index] = node.untried[node.untried.length - 1];
+        node.untried.pop();
+        if (playFast(board, move, toMove)) {
+          const child = createNode(move, toMove, node);
+          node.children.push(child);
+          node = child;
+          break;
+        }
+      }
+    }
+
+    // 3. Simulation
+    const winner = runPlayout(board, other(node.color), node.move, rng);
+
+    // 4. Backpropagation
+    for (let n: MctsNode | null = node; n; n = n.parent) {
+      n.visits++;
+      if (n.color === winner) n.wins++;
+    }
+
+    playouts++;
+    if (onProgress && playouts % 50 === 0) {
+      onProgress(Math.max(playouts / budget.playouts, (Date.now() - started) / budget.timeMs));
+    }
+  }
+
+  // Most visited move is the most reliable
+  const best = root.children.reduce((a, b) => (b.visits > a.visits ? b : a));
+  return { x: best.move % size, y: Math.floor(best.move / size) };
+};
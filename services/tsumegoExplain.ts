@@ -0,0 +1,104 @@
+import { Type, Schema } from "@google/genai";
+import { Point, StoneColor } from "../types";
+import { makeMove, getGroupInfo, getOpponent, pointToGtp } from "../utils/goLogic";
+import { formatGtpBoard } from "../utils/gtp";
+import { findTacticalHints } from "../utils/tactics";
+import { isAbortError } from "./aiClient";
+import { geminiEngine, generateJson } from "./geminiService";
+
+// --- TSUMEGO EXPLANATIONS ---
+// Why a wrong answer fails. The tactical reader finds the opponent's punishing reply and the liberties that run
+// short; the online model can optionally reword that into a friendlier explanation. Neither gives away
+// the correct answer.
+
+type Grid = (StoneColor | null)[][];
+
+const FALLBACK = '这步没有抓住要点，对方可以从容应对。';
+
+const samePoint = (a?: Point, b?: Point) => !!a && !!b && a.x === b.x && a.y === b.y;
+
+const colorName = (color: StoneColor) => color === 'black' ? '黑' : '白';
+
+// `after` is the board once the wrong move is on it; `refutation` is the problem's own answer to it.
+// The move's colour is read from the board, so this works for either side to move.
+export const explainWrongMove = (after: Grid, move: Point, refutation?: Point): string => {
+  const size = after.length;
+  const v = (p: Point) => pointToGtp(p, size);
+  const sentences: string[] = [];
+  const player = after[move.y][move.x] ?? 'black';
+  const opponent = getOpponent(player);
+  const [me, them] = [colorName(player), colorName(opponent)];
+
+  // Chains nearest the move first: those are what the move was about
+  const distance = (chain: Point[]) => Math.min(...chain.map(p => Math.abs(p.x - move.x) + Math.abs(p.y - move.y)));
+  const hints = findTacticalHints(after, opponent).sort((a, b) => distance(a.chain) - distance(b.chain));
+  const kill = hints.find(h => h.color === player && h.key && (!refutation || samePoint(h.key, refutation)));
+  const escape = hints.find(h => h.color === opponent && h.key && (!refutation || samePoint(h.key, refutation)));
+  const reply = refutation ?? kill?.key ?? escape?.key;
+  if (kill) {
+    sentences.push(`${them} ${v(kill.key!)} 可以吃掉 ${v(kill.chain[0])} 一带的 ${kill.chain.length} 颗${me}子。`);
+  } else if (escape) {
+    sentences.push(`${them} ${v(escape.key!)} 可以长出气来，${v(escape.chain[0])} 的${them}棋已经吃不掉了。`);
+  } else if (refutation) {
+    sentences.push(`${them} ${v(refutation)} 是有力的应对。`);
+  }
+
+  // Liberties once the opponent has answered
+  const answered = reply ? makeMove(after, reply.x, reply.y, opponent) : null;
+  const position = answered?.success ? answered.newGrid : after;
+  if (position[move.y][move.x] !== player) {
+    sentences.push(`${me} ${v(move)} 被提掉了。`);
+  } else {
+    const own = getGroupInfo(position, move.x, move.y);
+    const enemies = own.group
+      .flatMap(p => [{ x: p.x + 1, y: p.y }, { x: p.x - 1, y: p.y }, { x: p.x, y: p.y + 1 }, { x: p.x, y: p.y - 1 }])
+      .filter(p => position[p.y]?.[p.x] === opponent)
+      .map(p => getGroupInfo(position, p.x, p.y));
+    const strongest = enemies.sort((a, b) => b.liberties.length - a.liberties.length)[0];
+    if (own.liberties.length <= 2) {
+      sentences.push(`${me} ${v(move)} 这块棋只剩 ${own.liberties.length} 口气。`);
+    }
+    if (strongest && strongest.liberties.length > own.liberties.length) {
+      sentences.push(`周围的${them}棋还有 ${strongest.liberties.length} 口气，${me}棋紧气来不及。`);
+    }
+  }
+  return sentences.length > 0 ? sentences.join('') : FALLBACK;
+};
+
+const EXPLANATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    explanation: { type: Type.STRING, description: '两三句简体中文讲解' }
+  },
+  required: ['explanation']
+};
+
+const SYSTEM_INSTRUCTION = `You are a patient Go teacher. A student answered a life-and-death problem wrongly.
+Explain in two or three sentences of simplified Chinese why the move fails, based on the analysis given.
+Do not reveal the correct answer. Vertices use columns A-T without I and rows counted from the bottom.`;
+
+export const canRewordOnline = (): boolean => geminiEngine.isAvailable();
+
+// Friendlier wording of a local explanation by the online model; any failure keeps the local text
+export const rewordExplanation = async (
+  before: Grid,
+  moves: string[],
+  local: string,
+  toMove: StoneColor = 'black',
+  signal?: AbortSignal
+): Promise<string> => {
+  if (!canRewordOnline()) return local;
+  const prompt = `Problem (${toMove === 'black' ? 'Black' : 'White'} to play, X = Black, O = White):
+${formatGtpBoard(before)}
+Moves played: ${moves.join(' ')}
+Analysis: ${local}`;
+  try {
+    const text = await generateJson([{ role: 'user', parts: [{ text: prompt }] }], SYSTEM_INSTRUCTION, EXPLANATION_SCHEMA, signal);
+    const explanation = JSON.parse(text)?.explanation;
+    return typeof explanation === 'string' && explanation.trim() ? explanation.trim() : local;
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    console.warn("Online tsumego explanation failed", e);
+    return local;
+  }
+};
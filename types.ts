@@ -1,16 +1,22 @@
 
 export type StoneColor = 'black' | 'white';
 export type PlayerType = 'human' | 'ai';
-export type GamePhase = 'home' | 'setup' | 'playing' | 'scoring' | 'finished' | 'tsumego-list' | 'tsumego-playing';
+export type GamePhase = 'home' | 'setup' | 'playing' | 'scoring' | 'finished' | 'tsumego-list' | 'tsumego-playing' | 'tsumego-editor';
 export type Difficulty = 'novice' | 'entry' | 'beginner' | 'elementary' | 'intermediate' | 'advanced' | 'master' | 'grandmaster';
 export type BoardTheme = 'wood' | 'warm' | 'green' | 'dark' | 'paper';
-export type AiMode = 'local' | 'online';
+export type AiMode = 'local' | 'online'; // Legacy engine choice, see GameConfig.engine
+export type KoRule = 'simple' | 'positional' | 'situational';
+export type RuleSet = 'chinese' | 'japanese' | 'aga' | 'nz';
+export type TimeControlType = 'none' | 'absolute' | 'byoyomi' | 'canadian' | 'fischer';
 
 export interface Point {
   x: number;
   y: number;
 }
 
+// A move chosen by an AI engine
+export type AiMove = Point | 'PASS';
+
 export interface BoardState {
   grid: (StoneColor | null)[][];
   size: number;
@@ -22,6 +28,36 @@ export interface Move {
   color: StoneColor;
   captures: number;
   pass?: boolean;
+  comment?: string; // SGF C[] comment attached to this move
+  timeLeft?: number; // Seconds left on the mover's clock after the move (SGF BL/WL)
+  overtimeLeft?: number; // Byo-yomi periods or Canadian stones left, once in overtime (SGF OB/OW)
+}
+
+export interface GameTreeNode {
+  move: Move | null; // null only for the root
+  children: GameTreeNode[]; // children[0] is the main line
+}
+
+export interface GameRecord {
+  root: GameTreeNode;
+  line: number[]; // Child indexes from the root to a leaf: the variation being followed
+  index: number; // How many moves of `line` are on the board
+}
+
+export interface TimeControl {
+  type: TimeControlType;
+  mainTime: number; // Seconds
+  periods?: number; // Byo-yomi: number of periods
+  periodTime?: number; // Byo-yomi: seconds per period. Canadian: seconds per block.
+  stones?: number; // Canadian: stones to play per block
+  increment?: number; // Fischer: seconds added after each move
+}
+
+// One side's remaining time
+export interface PlayerClock {
+  time: number; // Seconds left in main time, or in the current period/block once in overtime
+  inOvertime: boolean;
+  overtimeLeft: number; // Byo-yomi periods or Canadian stones left in the block
 }
 
 export interface GameConfig {
@@ -31,7 +67,16 @@ export interface GameConfig {
   playerColor: StoneColor; // The human's color
   difficulty: Difficulty;
   komi: number;
-  aiMode: AiMode;
+  seed?: number; // AI moves are derived from it, so the game replays (MCTS levels: within their time limit); random when missing
+  engine?: string; // AI engine id (services/aiEngine.ts)
+  aiMode?: AiMode; // Games saved before engines were pluggable: 'online' meant Gemini
+  rules?: RuleSet; // Defaults to Chinese rules for games saved before this option existed
+  koRule?: KoRule; // Defaults to positional superko for games saved before this option existed
+  initialStones?: { x: number, y: number, color: StoneColor }[]; // Setup stones (AB/AW) from an imported SGF
+  timeControl?: TimeControl; // Untimed when missing
+  players?: Record<StoneColor, PlayerType>; // Missing: the human plays `playerColor` against the AI
+  aiDifficulties?: Partial<Record<StoneColor, Difficulty>>; // Per-colour AI level, falls back to `difficulty`
+  autoRotate?: boolean; // Two-player: turn the board towards the side to move
 }
 
 export interface ScoreResult {
@@ -40,20 +85,33 @@ export interface ScoreResult {
   blackCaptures: number;
   whiteCaptures: number;
   komi: number;
-  winner: StoneColor;
+  winner: StoneColor | 'draw';
   margin: number;
+  reason?: 'score' | 'resign' | 'time';
+  rules?: RuleSet;
+  blackScore?: number; // Final totals under the rule set's scoring method
+  whiteScore?: number; // Includes komi and handicap compensation
+  handicapCompensation?: number;
 }
 
+// How a line that ends turns out. Seki counts as living; a ko earns partial credit when the problem
+// also has an answer without one.
+export type TsumegoOutcome = 'kill' | 'live' | 'ko' | 'seki';
+
 export interface TsumegoNode {
     // Key is "x,y" of the user's move
     [key: string]: {
         response?: Point; // AI's response move
         next?: TsumegoNode; // Next set of valid branches
         status: 'correct' | 'wrong' | 'continue';
+        outcome?: TsumegoOutcome; // Correct and wrong branches only
         message?: string; // Feedback message
     };
 }
 
+// What the side to move has to do to the problem's target chain: capture the opponent's, or keep its own
+export type TsumegoGoal = 'kill' | 'live';
+
 export interface TsumegoProblem {
     id: string;
     title: string;
@@ -62,4 +120,6 @@ export interface TsumegoProblem {
     boardSize: number;
     initialStones: { x: number, y: number, color: StoneColor }[];
     solutionTree: TsumegoNode;
+    goal?: TsumegoGoal; // Defaults to 'kill'
+    toMove?: StoneColor; // The user's colour, moving first; defaults to 'black'
 }
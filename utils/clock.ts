@@ -0,0 +1,149 @@
+import { TimeControl, TimeControlType, PlayerClock, Move, StoneColor } from '../types';
+
+// --- TIME CONTROLS ---
+// absolute:  main time only; running out loses
+// byoyomi:   main time, then N periods of T seconds; a move within a period keeps it, using it up loses one
+// canadian:  main time, then blocks of T seconds in which S stones must be played
+// fischer:   main time, plus an increment after every move
+
+export const TIME_CONTROL_LABELS: Record<TimeControlType, string> = {
+  none: '不限时',
+  absolute: '包干',
+  byoyomi: '读秒',
+  canadian: '加拿大',
+  fischer: '费舍尔'
+};
+
+export const DEFAULT_TIME_CONTROLS: Record<TimeControlType, TimeControl> = {
+  none: { type: 'none', mainTime: 0 },
+  absolute: { type: 'absolute', mainTime: 20 * 60 },
+  byoyomi: { type: 'byoyomi', mainTime: 10 * 60, periods: 3, periodTime: 30 },
+  canadian: { type: 'canadian', mainTime: 10 * 60, periodTime: 5 * 60, stones: 25 },
+  fischer: { type: 'fischer', mainTime: 5 * 60, increment: 10 }
+};
+
+// Warnings start this many seconds before a period (or the whole clock) runs out
+export const WARNING_SECONDS = 10;
+
+export const isTimed = (tc?: TimeControl): tc is TimeControl => !!tc && tc.type !== 'none';
+
+const hasOvertime = (tc: TimeControl) => tc.type === 'byoyomi' || tc.type === 'canadian';
+
+const enterOvertime = (tc: TimeControl, carry: number): PlayerClock => ({
+  time: (tc.periodTime ?? 0) - carry,
+  inOvertime: true,
+  overtimeLeft: tc.type === 'byoyomi' ? (tc.periods ?? 1) : (tc.stones ?? 1)
+});
+
+export const createClock = (tc: TimeControl): PlayerClock => (
+  tc.mainTime > 0 || !hasOvertime(tc)
+    ? { time: tc.mainTime, inOvertime: false, overtimeLeft: 0 }
+    : enterOvertime(tc, 0)
+);
+
+// Run a clock for `elapsed` seconds. `flagged` means the side has lost on time.
+export const tickClock = (clock: PlayerClock, tc: TimeControl, elapsed: number): { clock: PlayerClock, flagged: boolean } => {
+  let next: PlayerClock = { ...clock, time: clock.time - elapsed };
+  while (next.time <= 0) {
+    const carry = -next.time;
+    if (!next.inOvertime && hasOvertime(tc)) {
+      next = enterOvertime(tc, carry);
+    } else if (next.inOvertime && tc.type === 'byoyomi' && next.overtimeLeft > 1) {
+      next = { ...next, time: (tc.periodTime ?? 0) - carry, overtimeLeft: next.overtimeLeft - 1 };
+    } else {
+      return { clock: { ...next, time: 0 }, flagged: true };
+    }
+  }
+  return { clock: next, flagged: false };
+};
+
+// Apply the effects of a completed move to the mover's clock
+export const completeMove = (clock: PlayerClock, tc: TimeControl): PlayerClock => {
+  if (tc.type === 'fischer') {
+    return { ...clock, time: clock.time + (tc.increment ?? 0) };
+  }
+  if (!clock.inOvertime) return clock;
+  if (tc.type === 'byoyomi') {
+    return { ...clock, time: tc.periodTime ?? 0 };
+  }
+  if (tc.type === 'canadian') {
+    return clock.overtimeLeft > 1
+      ? { ...clock, overtimeLeft: clock.overtimeLeft - 1 }
+      : enterOvertime(tc, 0);
+  }
+  return clock;
+};
+
+// Rebuild both clocks from the time recorded on each side's last move (SGF BL/WL and OB/OW)
+export const restoreClocks = (tc: TimeControl, moves: Move[]): Record<StoneColor, PlayerClock> => {
+  const restore = (color: StoneColor): PlayerClock => {
+    const last = [...moves].reverse().find(m => m.color === color && m.timeLeft !== undefined);
+    if (!last) return createClock(tc);
+    return last.overtimeLeft !== undefined
+      ? { time: last.timeLeft!, inOvertime: true, overtimeLeft: last.overtimeLeft }
+      : { time: last.timeLeft!, inOvertime: false, overtimeLeft: 0 };
+  };
+  return { black: restore('black'), white: restore('white') };
+};
+
+// Has the clock crossed a whole second inside the warning window?
+export const shouldWarn = (before: PlayerClock, after: PlayerClock, tc: TimeControl): boolean => {
+  if (hasOvertime(tc) && !after.inOvertime) return false;
+  return after.time <= WARNING_SECONDS && Math.ceil(after.time) < Math.ceil(before.time);
+};
+
+const formatSeconds = (seconds: number): string => {
+  const s = Math.max(0, Math.ceil(seconds));
+  const m = Math.floor(s / 60);
+  return `${m}:${String(s % 60).padStart(2, '0')}`;
+};
+
+export const formatClock = (clock: PlayerClock, tc: TimeControl): string => {
+  if (!clock.inOvertime) return formatSeconds(clock.time);
+  if (tc.type === 'byoyomi') return `${formatSeconds(clock.time)} (${clock.overtimeLeft}次)`;
+  return `${formatSeconds(clock.time)} / ${clock.overtimeLeft}手`;
+};
+
+// Short human-readable description, e.g. "10分 + 3×30秒"
+export const describeTimeControl = (tc: TimeControl): string => {
+  const main = `${Math.round(tc.mainTime / 60)}分`;
+  switch (tc.type) {
+    case 'absolute': return main;
+    case 'byoyomi': return `${main} + ${tc.periods}×${tc.periodTime}秒`;
+    case 'canadian': return `${main} + ${tc.stones}手/${Math.round((tc.periodTime ?? 0) / 60)}分`;
+    case 'fischer': return `${main} + 每手${tc.increment}秒`;
+    default: return TIME_CONTROL_LABELS.none;
+  }
+};
+
+// SGF OT[] value
+export const formatSgfOvertime = (tc: TimeControl): string | undefined => {
+  switch (tc.type) {
+    case 'byoyomi': return `${tc.periods}x${tc.periodTime} byo-yomi`;
+    case 'canadian': return `${tc.stones}/${tc.periodTime} Canadian`;
+    case 'fischer': return `${tc.increment} fischer`;
+    default: return undefined;
+  }
+};
+
+// --- SOUND ---
+
+let audioContext: AudioContext | null = null;
+
+// Short beep for the countdown; higher pitched for the last few seconds
+export const playClockWarning = (urgent: boolean) => {
+  try {
+    audioContext = audioContext || new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.frequency.value = urgent ? 1320 : 880;
+    gain.gain.setValueAtTime(0.15, audioContext.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, audioContext.currentTime + 0.15);
+    oscillator.connect(gain);
+    gain.connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + 0.15);
+  } catch (e) {
+    console.warn("Clock warning sound unavailable", e);
+  }
+};
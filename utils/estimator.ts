@@ -0,0 +1,273 @@
+import { StoneColor, GameConfig, ScoreResult, Point } from '../types';
+import { getGroupInfo, getOpponent, isOnBoard } from './goLogic';
+import { getRuleSet, DEFAULT_RULE_SET } from './rules';
+import { guessDeadStones } from './scoring';
+
+// --- POSITION ESTIMATOR ---
+// Mid-game score estimation in three steps:
+//   1. Benson's algorithm finds chains that can never be captured; their vital regions are settled.
+//   2. Weak chains sitting in the opponent's sphere of influence are judged dead.
+//   3. Influence from the remaining stones gives every point an ownership value.
+// Ownership is in [-1, 1]: +1 certainly Black's, -1 certainly White's, 0 undecided.
+
+const orthogonal = (p: Point): Point[] => [
+  { x: p.x + 1, y: p.y }, { x: p.x - 1, y: p.y },
+  { x: p.x, y: p.y + 1 }, { x: p.x, y: p.y - 1 },
+];
+
+const key = (p: Point) => `${p.x},${p.y}`;
+
+const sign = (color: StoneColor) => color === 'black' ? 1 : -1;
+
+// Influence of a stone at Manhattan distance 0..4
+const INFLUENCE_FALLOFF = [1, 0.5, 0.25, 0.12, 0.06];
+
+// Points with |ownership| above this are shown and counted as territory
+export const OWNERSHIP_THRESHOLD = 0.5;
+
+interface Chain {
+  color: StoneColor;
+  stones: Point[];
+  liberties: Point[];
+}
+
+const findChains = (grid: (StoneColor | null)[][]): { chains: Chain[], chainAt: number[][] } => {
+  const size = grid.length;
+  const chainAt = Array(size).fill(0).map(() => Array(size).fill(-1));
+  const chains: Chain[] = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const color = grid[y][x];
+      if (!color || chainAt[y][x] >= 0) continue;
+      const { group, liberties } = getGroupInfo(grid, x, y);
+      group.forEach(p => chainAt[p.y][p.x] = chains.length);
+      chains.push({ color, stones: group, liberties });
+    }
+  }
+  return { chains, chainAt };
+};
+
+// --- BENSON ---
+
+// Chains of `color` that are unconditionally alive, and the points of their vital regions.
+// A region is a maximal connected set of points without `color` stones. It is vital to a chain
+// when all of its empty points are liberties of that chain. Chains with fewer than two vital regions
+// are discarded, as are regions bordered by a discarded chain, until nothing changes.
+export const findUnconditionalLife = (grid: (StoneColor | null)[][], color: StoneColor): { alive: Point[], territory: Point[] } => {
+  const size = grid.length;
+  const { chains, chainAt } = findChains(grid);
+
+  const regionAt = Array(size).fill(0).map(() => Array(size).fill(-1));
+  const regions: { points: Point[], borders: Set<number> }[] = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (grid[y][x] === color || regionAt[y][x] >= 0) continue;
+      const region = { points: [] as Point[], borders: new Set<number>() };
+      const queue: Point[] = [{ x, y }];
+      regionAt[y][x] = regions.length;
+      while (queue.length > 0) {
+        const p = queue.pop()!;
+        region.points.push(p);
+        orthogonal(p).forEach(n => {
+          if (!isOnBoard(n.x, n.y, size)) return;
+          if (grid[n.y][n.x] === color) {
+            region.borders.add(chainAt[n.y][n.x]);
+          } else if (regionAt[n.y][n.x] < 0) {
+            regionAt[n.y][n.x] = regions.length;
+            queue.push(n);
+          }
+        });
+      }
+      regions.push(region);
+    }
+  }
+
+  // vitalTo[r] = chains for which region r is vital
+  const vitalTo = regions.map(region => {
+    const vital = new Set<number>();
+    region.borders.forEach(c => {
+      const libs = new Set(chains[c].liberties.map(key));
+      const empties = region.points.filter(p => grid[p.y][p.x] === null);
+      if (empties.every(p => libs.has(key(p)))) vital.add(c);
+    });
+    return vital;
+  });
+
+  const liveChains = new Set(chains.map((c, i) => c.color === color ? i : -1).filter(i => i >= 0));
+  const liveRegions = new Set(regions.map((_, i) => i));
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    liveChains.forEach(c => {
+      let vitalCount = 0;
+      liveRegions.forEach(r => { if (vitalTo[r].has(c)) vitalCount++; });
+      if (vitalCount < 2) {
+        liveChains.delete(c);
+        changed = true;
+      }
+    });
+    liveRegions.forEach(r => {
+      if ([...regions[r].borders].some(c => !liveChains.has(c))) {
+        liveRegions.delete(r);
+        changed = true;
+      }
+    });
+  }
+
+  const alive: Point[] = [];
+  liveChains.forEach(c => alive.push(...chains[c].stones));
+  const territory: Point[] = [];
+  liveRegions.forEach(r => {
+    // Only regions vital to some living chain are settled; large open areas are not
+    if ([...vitalTo[r]].some(c => liveChains.has(c))) territory.push(...regions[r].points);
+  });
+  return { alive, territory };
+};
+
+// --- INFLUENCE ---
+
+const computeInfluence = (grid: (StoneColor | null)[][], dead: Set<string>): number[][] => {
+  const size = grid.length;
+  const radius = INFLUENCE_FALLOFF.length - 1;
+  const influence = Array(size).fill(0).map(() => Array(size).fill(0));
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const stone = grid[y][x];
+      if (!stone || dead.has(`${x},${y}`)) continue;
+      const s = sign(stone);
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          const d = Math.abs(dx) + Math.abs(dy);
+          if (d > radius || !isOnBoard(x + dx, y + dy, size)) continue;
+          influence[y + dy][x + dx] += s * INFLUENCE_FALLOFF[d];
+        }
+      }
+    }
+  }
+  return influence;
+};
+
+// --- ESTIMATE ---
+
+export interface PositionEstimate {
+  ownership: number[][];
+  deadStones: Point[];
+  territoryMap: number[][]; // Same encoding as calculateTerritory: 0 neutral, 1 black, 2 white
+  result: ScoreResult;
+}
+
+export const estimatePosition = (
+  grid: (StoneColor | null)[][],
+  captures: { black: number, white: number },
+  config: GameConfig
+): PositionEstimate => {
+  const size = grid.length;
+  const { chains } = findChains(grid);
+
+  const settled = Array(size).fill(0).map(() => Array(size).fill(0));
+  const unconditional = new Set<string>();
+  (['black', 'white'] as StoneColor[]).forEach(color => {
+    const { alive, territory } = findUnconditionalLife(grid, color);
+    alive.forEach(p => {
+      unconditional.add(key(p));
+      settled[p.y][p.x] = sign(color);
+    });
+    territory.forEach(p => settled[p.y][p.x] = sign(color));
+  });
+
+  // Dead: stones inside an unconditionally alive opponent's vital region,
+  // the conservative end-of-game guess, or short of liberties in enemy influence.
+  const dead = new Set<string>();
+  chains.forEach(chain => {
+    if (chain.stones.some(p => unconditional.has(key(p)))) return;
+    if (chain.stones.some(p => settled[p.y][p.x] === -sign(chain.color))) {
+      chain.stones.forEach(p => dead.add(key(p)));
+    }
+  });
+  guessDeadStones(grid).forEach(p => {
+    if (!unconditional.has(key(p))) dead.add(key(p));
+  });
+
+  const firstPass = computeInfluence(grid, dead);
+  chains.forEach(chain => {
+    if (chain.liberties.length > 2 || chain.stones.some(p => unconditional.has(key(p)) || dead.has(key(p)))) return;
+    // Influence around the chain without its own contribution
+    const s = sign(chain.color);
+    const ownInfluence = (p: Point) => chain.stones.reduce((sum, q) => {
+      const d = Math.abs(p.x - q.x) + Math.abs(p.y - q.y);
+      return sum + (d < INFLUENCE_FALLOFF.length ? INFLUENCE_FALLOFF[d] : 0);
+    }, 0);
+    const area = [...chain.stones, ...chain.liberties];
+    const surrounding = area.reduce((sum, p) => sum + firstPass[p.y][p.x] * s - ownInfluence(p), 0) / area.length;
+    if (surrounding < -1) chain.stones.forEach(p => dead.add(key(p)));
+  });
+
+  const influence = computeInfluence(grid, dead);
+  const ownership = Array(size).fill(0).map(() => Array(size).fill(0));
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const stone = grid[y][x];
+      if (settled[y][x] !== 0) {
+        ownership[y][x] = settled[y][x];
+      } else if (stone && !dead.has(`${x},${y}`)) {
+        ownership[y][x] = sign(stone);
+      } else {
+        let value = Math.tanh(influence[y][x]);
+        // A dead stone belongs to the opponent even where influence is balanced
+        if (stone) value = -sign(stone) * Math.max(0.6, -sign(stone) * value);
+        ownership[y][x] = value;
+      }
+    }
+  }
+
+  // Count points as in final scoring, using likely owners
+  const rules = config.rules ?? DEFAULT_RULE_SET;
+  const ruleSet = getRuleSet(rules);
+  const territoryMap = Array(size).fill(0).map(() => Array(size).fill(0));
+  const deadStones: Point[] = [];
+  const prisoners = { ...captures };
+  let blackPoints = 0;
+  let whitePoints = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const stone = grid[y][x];
+      const isDead = !!stone && dead.has(`${x},${y}`);
+      if (isDead) {
+        deadStones.push({ x, y });
+        prisoners[getOpponent(stone!)]++;
+      }
+      const o = ownership[y][x];
+      const owner = o > OWNERSHIP_THRESHOLD ? 1 : (o < -OWNERSHIP_THRESHOLD ? 2 : 0);
+      if (!stone || isDead) territoryMap[y][x] = owner;
+      // Area scoring counts living stones; territory scoring only counts empty (or captured) points
+      if (owner === 0 || (stone && !isDead && ruleSet.scoring === 'territory')) continue;
+      if (owner === 1) blackPoints++; else whitePoints++;
+    }
+  }
+
+  const komi = config.komi;
+  const handicapCompensation = ruleSet.scoring === 'area' ? ruleSet.handicapCompensation(config.handicap) : 0;
+  const blackScore = blackPoints + (ruleSet.scoring === 'territory' ? prisoners.black : 0);
+  const whiteScore = whitePoints + (ruleSet.scoring === 'territory' ? prisoners.white : 0) + komi + handicapCompensation;
+
+  return {
+    ownership,
+    deadStones,
+    territoryMap,
+    result: {
+      blackTerritory: blackPoints,
+      whiteTerritory: whitePoints,
+      blackCaptures: prisoners.black,
+      whiteCaptures: prisoners.white,
+      komi,
+      winner: blackScore === whiteScore ? 'draw' : (blackScore > whiteScore ? 'black' : 'white'),
+      margin: Math.abs(blackScore - whiteScore),
+      reason: 'score',
+      rules,
+      blackScore,
+      whiteScore,
+      handicapCompensation
+    }
+  };
+};
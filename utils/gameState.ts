@@ -0,0 +1,68 @@
+import { GameConfig, Move, StoneColor, ScoreResult } from '../types';
+import { createEmptyGrid, getHoshiPoints, getOpponent, makeMove, IllegalMoveReason } from './goLogic';
+import { KoState, createKoState, recordMove, recordPass, getRuleSet, DEFAULT_KO_RULE } from './rules';
+import { scoreGame, guessDeadStones } from './scoring';
+
+// --- HEADLESS GAME ---
+// One game without React state, for Node tools (the GTP engine, self-play matches).
+// The state is mutated in place; the app keeps its own immutable game tree instead.
+
+export interface GameState {
+  config: GameConfig;
+  grid: (StoneColor | null)[][];
+  captures: { black: number, white: number };
+  ko: KoState;
+  history: Move[];
+  turn: StoneColor;
+}
+
+// Setup stones and fixed handicap (placed like the app does: hoshi points, White to move)
+export const createGameState = (config: GameConfig): GameState => {
+  const grid = createEmptyGrid(config.boardSize);
+  config.initialStones?.forEach(s => grid[s.y][s.x] = s.color);
+  const history: Move[] = [];
+  getHoshiPoints(config.boardSize).slice(0, config.handicap).forEach(p => {
+    grid[p.y][p.x] = 'black';
+    history.push({ x: p.x, y: p.y, color: 'black', captures: 0 });
+  });
+  const turn: StoneColor = config.handicap > 0 ? 'white' : 'black';
+  return {
+    config,
+    grid,
+    captures: { black: 0, white: 0 },
+    ko: createKoState(grid, config.koRule ?? DEFAULT_KO_RULE, turn),
+    history,
+    turn
+  };
+};
+
+// Play a stone; returns why it is illegal, or null once played
+export const applyMove = (state: GameState, x: number, y: number, color: StoneColor = state.turn): IllegalMoveReason | null => {
+  const result = makeMove(state.grid, x, y, color, state.ko, getRuleSet(state.config.rules).suicideAllowed);
+  if (!result.success) return result.reason ?? 'occupied';
+
+  const opponent = getOpponent(color);
+  state.grid = result.newGrid;
+  state.captures[color] += result.captures;
+  // Suicide (where allowed) hands the removed stones to the opponent as prisoners
+  state.captures[opponent] += result.selfCaptured?.length || 0;
+  recordMove(state.ko, result.hash!, color); // The hash already has any suicided stones removed
+  state.history.push({ x, y, color, captures: result.captures });
+  state.turn = opponent;
+  return null;
+};
+
+export const applyPass = (state: GameState, color: StoneColor = state.turn) => {
+  recordPass(state.ko, color);
+  state.history.push({ x: -1, y: -1, color, captures: 0, pass: true });
+  state.turn = getOpponent(color);
+};
+
+export const isGameOver = (state: GameState): boolean => {
+  const [a, b] = state.history.slice(-2);
+  return !!a?.pass && !!b?.pass;
+};
+
+// Final score with dead stones guessed, as nobody is there to mark them
+export const scoreGameState = (state: GameState): ScoreResult =>
+  scoreGame(state.grid, state.captures, state.config, guessDeadStones(state.grid)).result;
@@ -0,0 +1,169 @@
+import { GameRecord, GameTreeNode, Move } from '../types';
+
+// --- GAME TREE ---
+// The root node holds no move (the empty/setup position). children[0] of every node is its main line.
+// All helpers are immutable so the record can live directly in React state.
+
+const isSameMove = (a: Move, b: Move) => {
+  if (a.color !== b.color) return false;
+  if (a.pass || b.pass) return !!a.pass && !!b.pass;
+  return a.x === b.x && a.y === b.y;
+};
+
+// Build a linear tree from a flat move list
+export const createGameTree = (moves: Move[] = []): GameTreeNode => {
+  const root: GameTreeNode = { move: null, children: [] };
+  let node = root;
+  moves.forEach(move => {
+    const child: GameTreeNode = { move, children: [] };
+    node.children.push(child);
+    node = child;
+  });
+  return root;
+};
+
+// Extend a path to a leaf by following the first child
+const extendPath = (root: GameTreeNode, path: number[]): number[] => {
+  const extended = [...path];
+  let node = getNodeAtPath(root, path);
+  while (node.children.length > 0) {
+    extended.push(0);
+    node = node.children[0];
+  }
+  return extended;
+};
+
+export const getNodeAtPath = (root: GameTreeNode, path: number[]): GameTreeNode => {
+  let node = root;
+  for (const index of path) {
+    const child = node.children[index];
+    if (!child) break;
+    node = child;
+  }
+  return node;
+};
+
+const getMovesAlongPath = (root: GameTreeNode, path: number[]): Move[] => {
+  const moves: Move[] = [];
+  let node = root;
+  for (const index of path) {
+    const child = node.children[index];
+    if (!child || !child.move) break;
+    moves.push(child.move);
+    node = child;
+  }
+  return moves;
+};
+
+// Copy the nodes along `path` and apply `update` to the node at its end
+const updateNodeAtPath = (
+  root: GameTreeNode,
+  path: number[],
+  update: (node: GameTreeNode) => GameTreeNode
+): GameTreeNode => {
+  if (path.length === 0) return update(root);
+  const [head, ...rest] = path;
+  const children = [...root.children];
+  children[head] = updateNodeAtPath(children[head], rest, update);
+  return { ...root, children };
+};
+
+export const createGameRecord = (moves: Move[] = []): GameRecord => ({
+  root: createGameTree(moves),
+  line: moves.map(() => 0),
+  index: moves.length
+});
+
+// Restore a record from a saved tree, positioned at the end of the given (or main) line
+export const createRecordFromTree = (root: GameTreeNode, line?: number[]): GameRecord => {
+  const fullLine = extendPath(root, line || []);
+  return { root, line: fullLine, index: getMovesAlongPath(root, fullLine).length };
+};
+
+// Every move of the line currently followed, including those past the cursor (redo stack)
+export const getLineMoves = (record: GameRecord): Move[] => getMovesAlongPath(record.root, record.line);
+
+// Moves that lead to the position currently on the board
+export const getCurrentMoves = (record: GameRecord): Move[] => getMovesAlongPath(record.root, record.line.slice(0, record.index));
+
+export const getMainLineMoves = (root: GameTreeNode): Move[] => getMovesAlongPath(root, extendPath(root, []));
+
+export const isOnMainLine = (record: GameRecord): boolean => record.line.every(i => i === 0);
+
+// Play a move at the cursor. An identical existing child is reused, otherwise a new variation is added.
+export const playMove = (record: GameRecord, move: Move): GameRecord => {
+  const currentPath = record.line.slice(0, record.index);
+  const node = getNodeAtPath(record.root, currentPath);
+  const existing = node.children.findIndex(c => c.move && isSameMove(c.move, move));
+
+  let root = record.root;
+  let childIndex = existing;
+  if (existing < 0) {
+    childIndex = node.children.length;
+    root = updateNodeAtPath(record.root, currentPath, n => ({
+      ...n,
+      children: [...n.children, { move, children: [] }]
+    }));
+  }
+
+  return {
+    root,
+    line: extendPath(root, [...currentPath, childIndex]),
+    index: record.index + 1
+  };
+};
+
+// Move the cursor along the current line (undo / redo / review navigation)
+export const goToIndex = (record: GameRecord, index: number): GameRecord => ({
+  ...record,
+  index: Math.max(0, Math.min(index, record.line.length))
+});
+
+// Alternatives for the next move from the current position
+export const getNextVariations = (record: GameRecord): { childIndex: number, move: Move }[] => {
+  const node = getNodeAtPath(record.root, record.line.slice(0, record.index));
+  return node.children
+    .map((c, childIndex) => ({ childIndex, move: c.move! }))
+    .filter(v => !!v.move);
+};
+
+// Step into a given variation of the next move
+export const selectVariation = (record: GameRecord, childIndex: number): GameRecord => {
+  const currentPath = record.line.slice(0, record.index);
+  const node = getNodeAtPath(record.root, currentPath);
+  if (!node.children[childIndex]) return record;
+  return {
+    ...record,
+    line: extendPath(record.root, [...currentPath, childIndex]),
+    index: record.index + 1
+  };
+};
+
+// Remove the move at a (1-based) index of the current line together with everything after it
+export const deleteVariationAt = (record: GameRecord, index: number): GameRecord => {
+  if (index < 1 || index > record.line.length) return record;
+  const parentPath = record.line.slice(0, index - 1);
+  const removed = record.line[index - 1];
+  const root = updateNodeAtPath(record.root, parentPath, n => ({
+    ...n,
+    children: n.children.filter((_, i) => i !== removed)
+  }));
+  return {
+    root,
+    line: extendPath(root, parentPath),
+    index: index - 1
+  };
+};
+
+// Replace the comments of moves on the current line, keyed by (1-based) move index
+export const setLineComments = (record: GameRecord, comments: Map<number, string>): GameRecord => {
+  let root = record.root;
+  comments.forEach((comment, index) => {
+    if (index < 1 || index > record.line.length) return;
+    root = updateNodeAtPath(root, record.line.slice(0, index), n => ({
+      ...n,
+      move: n.move && { ...n.move, comment: comment || undefined }
+    }));
+  });
+  return { ...record, root };
+};
@@ -1,4 +1,6 @@
-import { StoneColor, Point } from '../types';
+import { StoneColor, Point, GameTreeNode, TimeControl } from '../types';
+import { KoState, hashAfterMove, toggleStones, getCurrentHash, isKoViolation } from './rules';
+import { isTimed, formatSgfOvertime } from './clock';
 
 // Hoshi points generator based on size
 export const getHoshiPoints = (size: number): Point[] => {
@@ -30,11 +32,26 @@ export const createEmptyGrid = (size: number): (StoneColor | null)[][] => {
 
 export const getOpponent = (color: StoneColor): StoneColor => color === 'black' ? 'white' : 'black';
 
+// Human/GTP style coordinate ("D4"): columns skip the letter I, rows count up from the bottom
+const GTP_COLUMNS = "ABCDEFGHJKLMNOPQRST";
+export const pointToGtp = (p: Point, size: number): string => `${GTP_COLUMNS[p.x]}${size - p.y}`;
+
+// Inverse of pointToGtp; also accepts "pass". Returns null for anything that isn't a vertex on the board.
+export const gtpToPoint = (vertex: string, size: number): Point | 'PASS' | null => {
+  const v = vertex.trim().toUpperCase();
+  if (v === 'PASS') return 'PASS';
+  const x = GTP_COLUMNS.indexOf(v[0]);
+  const row = Number(v.slice(1));
+  if (x < 0 || !Number.isInteger(row)) return null;
+  const p = { x, y: size - row };
+  return isOnBoard(p.x, p.y, size) ? p : null;
+};
+
 // Deep clone grid
 export const cloneGrid = (grid: (StoneColor | null)[][]) => grid.map(row => [...row]);
 
 // Check if point is on board
-const isOnBoard = (x: number, y: number, size: number) => {
+export const isOnBoard = (x: number, y: number, size: number) => {
   return x >= 0 && x < size && y >= 0 && y < size;
 };
 
@@ -87,24 +104,40 @@ export const getGroupInfo = (
   return { group, liberties: libertyPoints };
 };
 
+export type IllegalMoveReason = 'occupied' | 'suicide' | 'ko';
+
+export interface MoveResult {
+  success: boolean;
+  newGrid: (StoneColor | null)[][];
+  captures: number;
+  capturedPoints: Point[];
+  selfCaptured?: Point[]; // Own stones removed by a (rule-permitted) multi-stone suicide
+  hash?: bigint; // Position hash after the move, when a ko state was supplied
+  reason?: IllegalMoveReason;
+}
+
 // Attempt to make a move
-// Returns: { success: boolean, newGrid: ..., captures: number }
+// When `ko` is given, moves that break its ko/superko rule are rejected as well.
+// `allowSuicide` permits multi-stone suicide (New Zealand rules); single-stone suicide is always illegal.
 export const makeMove = (
   currentGrid: (StoneColor | null)[][],
   x: number,
   y: number,
-  color: StoneColor
-): { success: boolean, newGrid: (StoneColor | null)[][], captures: number } => {
+  color: StoneColor,
+  ko?: KoState,
+  allowSuicide = false
+): MoveResult => {
   const size = currentGrid.length;
   
   if (!isOnBoard(x, y, size) || currentGrid[y][x] !== null) {
-    return { success: false, newGrid: currentGrid, captures: 0 };
+    return { success: false, newGrid: currentGrid, captures: 0, capturedPoints: [], reason: 'occupied' };
   }
 
   const nextGrid = cloneGrid(currentGrid);
   nextGrid[y][x] = color;
 
   let captures = 0;
+  const capturedPoints: Point[] = [];
   const opponent = getOpponent(color);
   const neighbors = [
     { x: x + 1, y: y }, { x: x - 1, y: y },
@@ -120,25 +153,46 @@ export const makeMove = (
         captures += group.length;
         group.forEach(stone => {
           nextGrid[stone.y][stone.x] = null;
+          capturedPoints.push(stone);
         });
       }
     }
   });
 
   // 2. Check for suicide (self has no liberties)
-  const { liberties: selfLiberties } = getGroupInfo(nextGrid, x, y);
+  let selfCaptured: Point[] | undefined;
+  const { group: selfGroup, liberties: selfLiberties } = getGroupInfo(nextGrid, x, y);
   if (selfLiberties.length === 0) {
     // Suicide rule: invalid unless it captured something
     if (captures === 0) {
-      return { success: false, newGrid: currentGrid, captures: 0 };
+      if (!allowSuicide || selfGroup.length === 1) {
+        return { success: false, newGrid: currentGrid, captures: 0, capturedPoints: [], reason: 'suicide' };
+      }
+      selfCaptured = selfGroup;
+      selfGroup.forEach(stone => {
+        nextGrid[stone.y][stone.x] = null;
+      });
+    }
+  }
+
+  // 3. Ko / superko
+  if (ko) {
+    let hash = hashAfterMove(getCurrentHash(ko), size, x, y, color, capturedPoints);
+    if (selfCaptured) hash = toggleStones(hash, size, selfCaptured, color);
+    if (isKoViolation(ko, hash, color)) {
+      return { success: false, newGrid: currentGrid, captures: 0, capturedPoints: [], reason: 'ko' };
     }
+    return { success: true, newGrid: nextGrid, captures, capturedPoints, selfCaptured, hash };
   }
 
-  return { success: true, newGrid: nextGrid, captures };
+  return { success: true, newGrid: nextGrid, captures, capturedPoints, selfCaptured };
 };
 
 // Simplified Chinese/Area Scoring estimation using Flood Fill
-export const calculateTerritory = (grid: (StoneColor | null)[][]): { black: number, white: number, territoryMap: number[][] } => {
+// `black` / `white` are area totals (territory + stones); `blackTerritory` / `whiteTerritory` count empty points only.
+export const calculateTerritory = (grid: (StoneColor | null)[][]): {
+  black: number, white: number, blackTerritory: number, whiteTerritory: number, territoryMap: number[][]
+} => {
   const size = grid.length;
   // 0: neutral, 1: black territory, 2: white territory
   const map = Array(size).fill(0).map(() => Array(size).fill(0));
@@ -201,26 +255,52 @@ export const calculateTerritory = (grid: (StoneColor | null)[][]): { black: numb
   }
 
   // Add live stones to score (Area scoring)
+  let blackArea = blackTerritory;
+  let whiteArea = whiteTerritory;
   for(let y=0; y<size; y++){
       for(let x=0; x<size; x++){
-          if(grid[y][x] === 'black') blackTerritory++;
-          if(grid[y][x] === 'white') whiteTerritory++;
+          if(grid[y][x] === 'black') blackArea++;
+          if(grid[y][x] === 'white') whiteArea++;
       }
   }
 
-  return { black: blackTerritory, white: whiteTerritory, territoryMap: map };
+  return { black: blackArea, white: whiteArea, blackTerritory, whiteTerritory, territoryMap: map };
 };
 
-export const generateSGF = (history: {x: number, y: number, color: StoneColor, pass?: boolean}[], handicap: number, komi: number, size: number, winner?: string) => {
+// Escape text for an SGF property value
+export const escapeSGFText = (text: string) => text.replace(/\\/g, '\\\\').replace(/]/g, '\\]');
+
+export const generateSGF = (
+    tree: GameTreeNode,
+    handicap: number,
+    komi: number,
+    size: number,
+    winner?: string,
+    initialStones?: {x: number, y: number, color: StoneColor}[],
+    timeControl?: TimeControl
+) => {
     const date = new Date().toISOString().split('T')[0];
     const alphabet = "abcdefghijklmnopqrs"; // sufficient for up to 19x19
     
     let sgf = `(;GM[1]FF[4]CA[UTF-8]AP[ZenGo]SZ[${size}]ST[2]DT[${date}]KM[${komi}]HA[${handicap}]`;
     if(winner) sgf += `RE[${winner}]`;
+    if (isTimed(timeControl)) {
+        sgf += `TM[${timeControl.mainTime}]`;
+        const overtime = formatSgfOvertime(timeControl);
+        if (overtime) sgf += `OT[${overtime}]`;
+    }
+
+    if (initialStones && initialStones.length > 0) {
+        const blackSetup = initialStones.filter(s => s.color === 'black');
+        const whiteSetup = initialStones.filter(s => s.color === 'white');
+        if (blackSetup.length > 0) sgf += 'AB' + blackSetup.map(s => `[${alphabet[s.x]}${alphabet[s.y]}]`).join('');
+        if (whiteSetup.length > 0) sgf += 'AW' + whiteSetup.map(s => `[${alphabet[s.x]}${alphabet[s.y]}]`).join('');
+    }
     
     sgf += "\n";
 
-    history.forEach(move => {
+    const writeNode = (node: GameTreeNode) => {
+        const move = node.move!;
         const c = move.color === 'black' ? 'B' : 'W';
         if (move.pass) {
             sgf += `;${c}[]`;
@@ -229,7 +309,26 @@ export const generateSGF = (history: {x: number, y: number, color: StoneColor, p
             const yChar = alphabet[move.y];
             sgf += `;${c}[${xChar}${yChar}]`;
         }
-    });
+        if (move.timeLeft !== undefined) sgf += `${c}L[${Math.round(move.timeLeft * 10) / 10}]`;
+        if (move.overtimeLeft !== undefined) sgf += `O${c}[${move.overtimeLeft}]`;
+        if (move.comment) sgf += `C[${escapeSGFText(move.comment)}]`;
+    };
+
+    // Main line continues inline; variations are wrapped in parentheses
+    const writeSequence = (node: GameTreeNode) => {
+        if (node.children.length === 1) {
+            writeNode(node.children[0]);
+            writeSequence(node.children[0]);
+        } else {
+            node.children.forEach(child => {
+                sgf += "\n(";
+                writeNode(child);
+                writeSequence(child);
+                sgf += ")";
+            });
+        }
+    };
+    writeSequence(tree);
 
     sgf += ")";
     return sgf;
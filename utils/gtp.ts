@@ -0,0 +1,59 @@
+import { StoneColor } from '../types';
+
+// --- GO TEXT PROTOCOL ---
+// Helpers shared by everything that speaks GTP: a command is one line, a response is
+// "=[id] text" or "?[id] error" followed by a blank line.
+
+export interface GtpResponse {
+  ok: boolean;
+  id?: number;
+  text: string; // Without the status character, id and trailing blank line
+}
+
+export const toGtpColor = (color: StoneColor): 'B' | 'W' => color === 'black' ? 'B' : 'W';
+
+export const fromGtpColor = (value: string): StoneColor | null => {
+  const v = value.trim().toLowerCase();
+  if (v === 'b' || v === 'black') return 'black';
+  if (v === 'w' || v === 'white') return 'white';
+  return null;
+};
+
+export const formatGtpResponse = (ok: boolean, text = '', id?: number): string =>
+  `${ok ? '=' : '?'}${id !== undefined ? id : ''}${text ? ' ' + text : ''}\n\n`;
+
+export const parseGtpResponse = (raw: string): GtpResponse => {
+  const match = /^([=?])(\d+)?\s?([\s\S]*)$/.exec(raw.trim());
+  if (!match) return { ok: false, text: `Malformed GTP response: ${raw}` };
+  return {
+    ok: match[1] === '=',
+    id: match[2] !== undefined ? Number(match[2]) : undefined,
+    text: match[3].trim()
+  };
+};
+
+// Split a stream buffer into complete responses; `rest` is the incomplete tail to keep buffering
+export const splitGtpResponses = (buffer: string): { responses: GtpResponse[], rest: string } => {
+  const chunks = buffer.replace(/\r/g, '').split('\n\n');
+  const rest = chunks.pop() ?? '';
+  return {
+    responses: chunks.filter(c => c.trim() !== '').map(parseGtpResponse),
+    rest
+  };
+};
+
+// Normalise a command line as the spec asks: drop comments and control characters, tabs become spaces
+export const cleanGtpLine = (line: string): string =>
+  line.replace(/#.*$/, '').replace(/\t/g, ' ').replace(/[\x00-\x08\x0a-\x1f\x7f]/g, '').trim();
+
+// Text diagram for showboard: X black, O white, coordinates on all sides
+export const formatGtpBoard = (grid: (StoneColor | null)[][]): string => {
+  const size = grid.length;
+  const columns = 'ABCDEFGHJKLMNOPQRST'.slice(0, size).split('').join(' ');
+  const rows = grid.map((row, y) => {
+    const label = String(size - y);
+    const cells = row.map(c => c === 'black' ? 'X' : c === 'white' ? 'O' : '.').join(' ');
+    return `${label.padStart(2, ' ')} ${cells} ${label}`;
+  });
+  return [`   ${columns}`, ...rows, `   ${columns}`].join('\n');
+};
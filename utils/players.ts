@@ -0,0 +1,50 @@
+import { StoneColor, PlayerType, GameConfig, Difficulty } from '../types';
+
+// --- PLAYERS ---
+// Games saved before per-colour player types existed are always human (`playerColor`) vs AI.
+
+export type GameMode = 'human-vs-ai' | 'two-player' | 'ai-vs-ai';
+
+export const GAME_MODE_LABELS: Record<GameMode, string> = {
+  'human-vs-ai': '人机对弈',
+  'two-player': '双人对弈',
+  'ai-vs-ai': 'AI 对战'
+};
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  novice: '小白',
+  entry: '入门',
+  beginner: '新手',
+  elementary: '初级',
+  intermediate: '中级',
+  advanced: '高级',
+  master: '大师',
+  grandmaster: '特级'
+};
+
+export const getPlayerType = (config: GameConfig, color: StoneColor): PlayerType => {
+  if (config.players) return config.players[color];
+  return color === config.playerColor ? 'human' : 'ai';
+};
+
+export const isHumanTurn = (config: GameConfig | null, color: StoneColor): boolean => (
+  !!config && getPlayerType(config, color) === 'human'
+);
+
+export const getAiDifficulty = (config: GameConfig, color: StoneColor): Difficulty => (
+  config.aiDifficulties?.[color] ?? config.difficulty
+);
+
+export const getGameMode = (config: GameConfig): GameMode => {
+  const black = getPlayerType(config, 'black');
+  const white = getPlayerType(config, 'white');
+  if (black === 'human' && white === 'human') return 'two-player';
+  if (black === 'ai' && white === 'ai') return 'ai-vs-ai';
+  return 'human-vs-ai';
+};
+
+export const createPlayers = (mode: GameMode, humanColor: StoneColor): Record<StoneColor, PlayerType> => {
+  if (mode === 'two-player') return { black: 'human', white: 'human' };
+  if (mode === 'ai-vs-ai') return { black: 'ai', white: 'ai' };
+  return humanColor === 'black' ? { black: 'human', white: 'ai' } : { black: 'ai', white: 'human' };
+};
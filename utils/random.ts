@@ -0,0 +1,28 @@
+// --- RANDOMNESS ---
+// Seeded generators for anything that must be reproducible (AI noise, playouts, self-play).
+// An Rng has the same contract as Math.random, which remains the default where no seed is given.
+
+export type Rng = () => number; // Uniform in [0, 1)
+
+// mulberry32: tiny, fast and good enough for games
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Fresh seed for a new game; the seed, not the generator, is what gets saved
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
+
+// Independent seed for the n-th game/problem derived from a base seed
+export const deriveSeed = (seed: number, n: number): number => {
+  let h = (seed ^ Math.imul(n + 1, 0x9E3779B1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85EBCA6B) >>> 0;
+  h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35) >>> 0;
+  return (h ^ (h >>> 16)) >>> 0;
+};
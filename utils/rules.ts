@@ -0,0 +1,205 @@
+import { StoneColor, KoRule, Point, RuleSet } from '../types';
+
+// --- ZOBRIST HASHING ---
+// Every (point, colour) pair gets a fixed random 64-bit key; a position's hash is the XOR of the keys
+// of its stones. The tables are generated from a fixed seed so hashes are stable across sessions.
+
+const zobristTables = new Map<number, { black: bigint[], white: bigint[] }>();
+
+// Side-to-move keys for situational superko
+const SIDE_KEYS: Record<StoneColor, bigint> = {
+  black: 0x9e3779b97f4a7c15n,
+  white: 0x6a09e667f3bcc909n
+};
+
+const MASK_64 = (1n << 64n) - 1n;
+
+// splitmix64: small, well distributed and deterministic
+const createKeyGenerator = (seed: bigint) => {
+  let state = seed & MASK_64;
+  return (): bigint => {
+    state = (state + 0x9e3779b97f4a7c15n) & MASK_64;
+    let z = state;
+    z = ((z ^ (z >> 30n)) * 0xbf58476d1ce4e5b9n) & MASK_64;
+    z = ((z ^ (z >> 27n)) * 0x94d049bb133111ebn) & MASK_64;
+    return z ^ (z >> 31n);
+  };
+};
+
+const getZobristTable = (size: number) => {
+  let table = zobristTables.get(size);
+  if (!table) {
+    const next = createKeyGenerator(BigInt(size) * 0x2545f4914f6cdd1dn);
+    const black: bigint[] = [];
+    const white: bigint[] = [];
+    for (let i = 0; i < size * size; i++) {
+      black.push(next());
+      white.push(next());
+    }
+    table = { black, white };
+    zobristTables.set(size, table);
+  }
+  return table;
+};
+
+const stoneKey = (x: number, y: number, color: StoneColor, size: number) => getZobristTable(size)[color][y * size + x];
+
+export const hashGrid = (grid: (StoneColor | null)[][]): bigint => {
+  const size = grid.length;
+  let hash = 0n;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const stone = grid[y][x];
+      if (stone) hash ^= stoneKey(x, y, stone, size);
+    }
+  }
+  return hash;
+};
+
+// Add or remove (XOR is its own inverse) stones of one colour
+export const toggleStones = (hash: bigint, size: number, points: Point[], color: StoneColor): bigint => {
+  let next = hash;
+  points.forEach(p => {
+    next ^= stoneKey(p.x, p.y, color, size);
+  });
+  return next;
+};
+
+// Incrementally update a hash for a placed stone and the opponent stones it captured
+export const hashAfterMove = (
+  hash: bigint,
+  size: number,
+  x: number,
+  y: number,
+  color: StoneColor,
+  capturedPoints: Point[]
+): bigint => {
+  const capturedColor: StoneColor = color === 'black' ? 'white' : 'black';
+  return toggleStones(hash ^ stoneKey(x, y, color, size), size, capturedPoints, capturedColor);
+};
+
+// --- KO / SUPERKO ---
+// simple:      a move may not recreate the position from before the opponent's last move
+// positional:  a move may not recreate any earlier board position
+// situational: a move may not recreate an earlier board position with the same player to move
+
+export const DEFAULT_KO_RULE: KoRule = 'positional';
+
+export const KO_RULE_LABELS: Record<KoRule, string> = {
+  simple: '简单劫',
+  positional: '局面超级劫',
+  situational: '情境超级劫'
+};
+
+// Mutable by design: it is updated once per played move (kept in a ref in the UI)
+// and only read while searching for moves.
+export interface KoState {
+  rule: KoRule;
+  size: number;
+  hashes: bigint[]; // Position after each ply, [0] is the starting position
+  seen: Set<bigint>; // Positional: position hashes. Situational: position hash ^ side-to-move key.
+}
+
+const seenKey = (state: KoState, hash: bigint, toMove: StoneColor) => (
+  state.rule === 'situational' ? hash ^ SIDE_KEYS[toMove] : hash
+);
+
+export const createKoState = (
+  grid: (StoneColor | null)[][],
+  rule: KoRule = DEFAULT_KO_RULE,
+  toMove: StoneColor = 'black'
+): KoState => {
+  const hash = hashGrid(grid);
+  const state: KoState = { rule, size: grid.length, hashes: [hash], seen: new Set() };
+  state.seen.add(seenKey(state, hash, toMove));
+  return state;
+};
+
+export const getCurrentHash = (state: KoState): bigint => state.hashes[state.hashes.length - 1];
+
+// Would playing `color` to reach `newHash` violate the ko rule?
+export const isKoViolation = (state: KoState, newHash: bigint, color: StoneColor): boolean => {
+  if (state.rule === 'simple') {
+    return state.hashes.length >= 2 && state.hashes[state.hashes.length - 2] === newHash;
+  }
+  const nextToMove: StoneColor = color === 'black' ? 'white' : 'black';
+  return state.seen.has(seenKey(state, newHash, nextToMove));
+};
+
+export const recordMove = (state: KoState, newHash: bigint, color: StoneColor) => {
+  const nextToMove: StoneColor = color === 'black' ? 'white' : 'black';
+  state.hashes.push(newHash);
+  state.seen.add(seenKey(state, newHash, nextToMove));
+};
+
+export const recordPass = (state: KoState, color: StoneColor) => {
+  recordMove(state, getCurrentHash(state), color);
+};
+
+// Copy for searches that play speculative moves (e.g. AI playouts)
+export const cloneKoState = (state: KoState): KoState => ({
+  ...state,
+  hashes: [...state.hashes],
+  seen: new Set(state.seen)
+});
+
+// --- RULE SETS ---
+
+export interface RuleSetDefinition {
+  label: string;
+  scoring: 'area' | 'territory'; // Area: stones + surrounded points. Territory: surrounded points + prisoners.
+  suicideAllowed: boolean; // Multi-stone suicide only; single-stone suicide never changes the position
+  koRule: KoRule;
+  komi: number; // Even games
+  handicapKomi: number; // Handicap games
+  // Extra points for White per handicap stone count (area scoring counts the handicap stones as Black's)
+  handicapCompensation: (handicap: number) => number;
+}
+
+export const DEFAULT_RULE_SET: RuleSet = 'chinese';
+
+export const RULE_SETS: Record<RuleSet, RuleSetDefinition> = {
+  chinese: {
+    label: '中国规则',
+    scoring: 'area',
+    suicideAllowed: false,
+    koRule: 'positional',
+    komi: 7.5,
+    handicapKomi: 0.5,
+    handicapCompensation: handicap => handicap
+  },
+  japanese: {
+    label: '日本规则',
+    scoring: 'territory',
+    suicideAllowed: false,
+    koRule: 'simple',
+    komi: 6.5,
+    handicapKomi: 0.5,
+    handicapCompensation: () => 0
+  },
+  aga: {
+    label: 'AGA 规则',
+    scoring: 'area',
+    suicideAllowed: false,
+    koRule: 'situational',
+    komi: 7.5,
+    handicapKomi: 0.5,
+    handicapCompensation: handicap => handicap > 0 ? handicap - 1 : 0
+  },
+  nz: {
+    label: '新西兰规则',
+    scoring: 'area',
+    suicideAllowed: true,
+    koRule: 'situational',
+    komi: 7,
+    handicapKomi: 0,
+    handicapCompensation: () => 0
+  }
+};
+
+export const getRuleSet = (rules?: RuleSet): RuleSetDefinition => RULE_SETS[rules ?? DEFAULT_RULE_SET];
+
+export const getDefaultKomi = (rules: RuleSet, handicap: number): number => {
+  const def = RULE_SETS[rules];
+  return handicap > 0 ? def.handicapKomi : def.komi;
+};
@@ -0,0 +1,244 @@
+import { StoneColor, GameConfig, ScoreResult, Point } from '../types';
+import { calculateTerritory, cloneGrid, getGroupInfo, getOpponent, isOnBoard, makeMove } from './goLogic';
+import { getRuleSet, DEFAULT_RULE_SET } from './rules';
+
+const orthogonal = (p: Point): Point[] => [
+  { x: p.x + 1, y: p.y }, { x: p.x - 1, y: p.y },
+  { x: p.x, y: p.y + 1 }, { x: p.x, y: p.y - 1 },
+];
+
+interface EmptyRegion {
+  points: Point[];
+  border: { black: number, white: number }; // Distinct stones touching the region
+}
+
+// Label every empty region and count the stones that border it
+const findEmptyRegions = (grid: (StoneColor | null)[][]): { regions: EmptyRegion[], regionAt: number[][] } => {
+  const size = grid.length;
+  const regionAt = Array(size).fill(0).map(() => Array(size).fill(-1));
+  const regions: EmptyRegion[] = [];
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (grid[y][x] !== null || regionAt[y][x] >= 0) continue;
+
+      const id = regions.length;
+      const region: EmptyRegion = { points: [], border: { black: 0, white: 0 } };
+      const borderSeen = new Set<string>();
+      const queue: Point[] = [{ x, y }];
+      regionAt[y][x] = id;
+
+      let qIndex = 0;
+      while (qIndex < queue.length) {
+        const p = queue[qIndex++];
+        region.points.push(p);
+        for (const n of orthogonal(p)) {
+          if (!isOnBoard(n.x, n.y, size)) continue;
+          const stone = grid[n.y][n.x];
+          if (stone) {
+            const key = `${n.x},${n.y}`;
+            if (!borderSeen.has(key)) {
+              borderSeen.add(key);
+              region.border[stone]++;
+            }
+          } else if (regionAt[n.y][n.x] < 0) {
+            regionAt[n.y][n.x] = id;
+            queue.push(n);
+          }
+        }
+      }
+      regions.push(region);
+    }
+  }
+  return { regions, regionAt };
+};
+
+// --- DEAD STONES ---
+
+// Automatic first guess used when the scoring phase starts. Deliberately conservative:
+// a group is only called dead when it has no real eye space and the empty points around it
+// are dominated by the opponent. Anything unclear is left alive for the players to mark.
+export const guessDeadStones = (grid: (StoneColor | null)[][]): Point[] => {
+  const size = grid.length;
+  const { regions, regionAt } = findEmptyRegions(grid);
+  const visited = new Set<string>();
+  const dead: Point[] = [];
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const color = grid[y][x];
+      if (!color || visited.has(`${x},${y}`)) continue;
+
+      const { group } = getGroupInfo(grid, x, y);
+      group.forEach(p => visited.add(`${p.x},${p.y}`));
+
+      const opponent = getOpponent(color);
+      const touched = new Set<number>();
+      group.forEach(p => orthogonal(p).forEach(n => {
+        if (isOnBoard(n.x, n.y, size) && grid[n.y][n.x] === null) touched.add(regionAt[n.y][n.x]);
+      }));
+
+      let eyes = 0;
+      let eyeSpace = 0;
+      let ownBorder = 0;
+      let opponentBorder = 0;
+      touched.forEach(id => {
+        const region = regions[id];
+        if (region.border[opponent] === 0) {
+          eyes++;
+          eyeSpace += region.points.length;
+        }
+        ownBorder += region.border[color];
+        opponentBorder += region.border[opponent];
+      });
+
+      if (eyes >= 2 || eyeSpace >= 7) continue;
+
+      // Enclosed with a single small eye, or sitting in the opponent's area
+      const enclosed = touched.size === eyes && eyeSpace <= 3;
+      const overwhelmed = touched.size > 0 && opponentBorder >= 2 * ownBorder + 2;
+      if (enclosed || overwhelmed || touched.size === 0) {
+        dead.push(...group);
+      }
+    }
+  }
+  return dead;
+};
+
+// Toggle the status of the group at (x, y) in a dead-stone list
+export const toggleDeadGroup = (grid: (StoneColor | null)[][], deadStones: Point[], x: number, y: number): Point[] => {
+  if (!grid[y][x]) return deadStones;
+  const { group } = getGroupInfo(grid, x, y);
+  const isDead = deadStones.some(p => p.x === x && p.y === y);
+  if (isDead) {
+    return deadStones.filter(p => !group.some(g => g.x === p.x && g.y === p.y));
+  }
+  return [...deadStones, ...group];
+};
+
+// --- SEKI ---
+
+// Seki points are shared liberties that neither side can fill without putting itself in atari.
+// Returns the groups (as stone lists) living in seki.
+export const findSekiGroups = (grid: (StoneColor | null)[][]): Point[][] => {
+  const size = grid.length;
+  const sekiGroups: Point[][] = [];
+  const inSeki = new Set<string>();
+
+  const unsafeFor = (x: number, y: number, color: StoneColor) => {
+    const result = makeMove(grid, x, y, color);
+    if (!result.success) return true;
+    if (result.captures > 0) return false;
+    return getGroupInfo(result.newGrid, x, y).liberties.length <= 1;
+  };
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (grid[y][x] !== null) continue;
+      const neighbors = orthogonal({ x, y }).filter(n => isOnBoard(n.x, n.y, size) && grid[n.y][n.x] !== null);
+      const hasBlack = neighbors.some(n => grid[n.y][n.x] === 'black');
+      const hasWhite = neighbors.some(n => grid[n.y][n.x] === 'white');
+      if (!hasBlack || !hasWhite) continue;
+      if (!unsafeFor(x, y, 'black') || !unsafeFor(x, y, 'white')) continue;
+
+      neighbors.forEach(n => {
+        if (inSeki.has(`${n.x},${n.y}`)) return;
+        const { group } = getGroupInfo(grid, n.x, n.y);
+        group.forEach(p => inSeki.add(`${p.x},${p.y}`));
+        sekiGroups.push(group);
+      });
+    }
+  }
+  return sekiGroups;
+};
+
+// --- SCORE ---
+
+// Score a position under the game's rule set.
+// `captures` are prisoners taken by each colour (only counted under territory scoring).
+// Dead stones are removed first; under territory scoring they also count as prisoners,
+// and eyes of groups in seki are neutral.
+export const scoreGame = (
+  grid: (StoneColor | null)[][],
+  captures: { black: number, white: number },
+  config: GameConfig,
+  deadStones: Point[] = []
+): { result: ScoreResult, territoryMap: number[][] } => {
+  const rules = config.rules ?? DEFAULT_RULE_SET;
+  const ruleSet = getRuleSet(rules);
+  const komi = config.komi;
+  const handicapCompensation = ruleSet.scoring === 'area' ? ruleSet.handicapCompensation(config.handicap) : 0;
+
+  // Remove dead stones
+  const cleared = cloneGrid(grid);
+  const prisoners = { ...captures };
+  deadStones.forEach(p => {
+    const stone = cleared[p.y][p.x];
+    if (!stone) return;
+    cleared[p.y][p.x] = null;
+    prisoners[getOpponent(stone)]++;
+  });
+
+  const territory = calculateTerritory(cleared);
+  let blackPoints: number;
+  let whitePoints: number;
+  if (ruleSet.scoring === 'area') {
+    blackPoints = territory.black;
+    whitePoints = territory.white;
+  } else {
+    blackPoints = territory.blackTerritory;
+    whitePoints = territory.whiteTerritory;
+
+    // Territory rules give no points for eyes inside seki
+    const map = territory.territoryMap;
+    const size = cleared.length;
+    findSekiGroups(cleared).forEach(group => {
+      group.forEach(stone => orthogonal(stone).forEach(start => {
+        if (!isOnBoard(start.x, start.y, size) || map[start.y][start.x] === 0) return;
+        const owner = map[start.y][start.x];
+        const queue = [start];
+        map[start.y][start.x] = 0;
+        while (queue.length > 0) {
+          const p = queue.pop()!;
+          if (owner === 1) blackPoints--; else whitePoints--;
+          orthogonal(p).forEach(n => {
+            if (isOnBoard(n.x, n.y, size) && map[n.y][n.x] === owner && cleared[n.y][n.x] === null) {
+              map[n.y][n.x] = 0;
+              queue.push(n);
+            }
+          });
+        }
+      }));
+    });
+  }
+
+  const blackScore = blackPoints + (ruleSet.scoring === 'territory' ? prisoners.black : 0);
+  const whiteScore = whitePoints + (ruleSet.scoring === 'territory' ? prisoners.white : 0) + komi + handicapCompensation;
+
+  return {
+    territoryMap: territory.territoryMap,
+    result: {
+      blackTerritory: blackPoints,
+      whiteTerritory: whitePoints,
+      blackCaptures: prisoners.black,
+      whiteCaptures: prisoners.white,
+      komi,
+      winner: blackScore === whiteScore ? 'draw' : (blackScore > whiteScore ? 'black' : 'white'),
+      margin: Math.abs(blackScore - whiteScore),
+      reason: 'score',
+      rules,
+      blackScore,
+      whiteScore,
+      handicapCompensation
+    }
+  };
+};
+
+// SGF RE[] value, e.g. "B+3.5", "W+R", "0" for a draw
+export const formatSgfResult = (result: ScoreResult): string => {
+  if (result.winner === 'draw') return '0';
+  const side = result.winner === 'black' ? 'B' : 'W';
+  if (result.reason === 'resign') return `${side}+R`;
+  if (result.reason === 'time') return `${side}+T`;
+  return `${side}+${result.margin}`;
+};
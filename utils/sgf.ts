@@ -0,0 +1,299 @@
+import { StoneColor, Point, Move, GameConfig, GameTreeNode } from '../types';
+import { createEmptyGrid, makeMove } from './goLogic';
+import { createGameTree } from './gameTree';
+
+// --- SGF FF[4] PARSER ---
+// Grammar (see https://www.red-bean.com/sgf/sgf4.html):
+//   Collection = GameTree+
+//   GameTree   = "(" Sequence GameTree* ")"
+//   Sequence   = Node+
+//   Node       = ";" Property*
+//   Property   = PropIdent PropValue+
+
+export interface SgfNode {
+  props: Record<string, string[]>;
+  children: SgfNode[];
+}
+
+export class SgfParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SgfParseError';
+  }
+}
+
+const SGF_ALPHABET = "abcdefghijklmnopqrs";
+
+const isWhitespace = (ch: string) => ch === ' ' || ch === '\n' || ch === '\r' || ch === '\t';
+
+// Parse a whole SGF collection. Each entry is the root node of one game tree.
+export const parseSGF = (text: string): SgfNode[] => {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && isWhitespace(text[pos])) pos++;
+  };
+
+  const fail = (message: string): never => {
+    throw new SgfParseError(`SGF 格式错误 (位置 ${pos})：${message}`);
+  };
+
+  const readValue = (): string => {
+    // Assumes text[pos] === '['
+    pos++;
+    let value = '';
+    while (pos < text.length && text[pos] !== ']') {
+      if (text[pos] === '\\') {
+        pos++;
+        if (pos >= text.length) break;
+        // Soft line break: escaped newline is removed
+        if (text[pos] === '\n' || text[pos] === '\r') {
+          const ch = text[pos++];
+          if ((ch === '\r' && text[pos] === '\n') || (ch === '\n' && text[pos] === '\r')) pos++;
+          continue;
+        }
+      }
+      value += text[pos++];
+    }
+    if (pos >= text.length) fail('属性值缺少右括号 "]"');
+    pos++; // consume ']'
+    return value;
+  };
+
+  const readNode = (): SgfNode => {
+    // Assumes text[pos] === ';'
+    pos++;
+    const node: SgfNode = { props: {}, children: [] };
+    skipWhitespace();
+    while (pos < text.length && /[A-Za-z]/.test(text[pos])) {
+      let ident = '';
+      while (pos < text.length && /[A-Za-z]/.test(text[pos])) {
+        // FF[3] allowed lowercase letters inside identifiers (e.g. "AddBlack"); only capitals count.
+        if (text[pos] >= 'A' && text[pos] <= 'Z') ident += text[pos];
+        pos++;
+      }
+      if (!ident) fail('属性名无效');
+      skipWhitespace();
+      if (text[pos] !== '[') fail(`属性 ${ident} 缺少取值`);
+      const values: string[] = [];
+      while (text[pos] === '[') {
+        values.push(readValue());
+        skipWhitespace();
+      }
+      if (node.props[ident]) fail(`同一节点中属性 ${ident} 重复`);
+      node.props[ident] = values;
+    }
+    return node;
+  };
+
+  // Returns the first node of the tree; the sequence is chained through `children`.
+  const readGameTree = (): SgfNode => {
+    // Assumes text[pos] === '('
+    pos++;
+    skipWhitespace();
+    if (text[pos] !== ';') fail('对局树必须以节点 ";" 开始');
+
+    const first = readNode();
+    let current = first;
+    skipWhitespace();
+    while (text[pos] === ';') {
+      const next = readNode();
+      current.children.push(next);
+      current = next;
+      skipWhitespace();
+    }
+    while (text[pos] === '(') {
+      current.children.push(readGameTree());
+      skipWhitespace();
+    }
+    if (text[pos] !== ')') fail(pos >= text.length ? '文件意外结束，缺少 ")"' : `意外字符 "${text[pos]}"`);
+    pos++;
+    return first;
+  };
+
+  const trees: SgfNode[] = [];
+  skipWhitespace();
+  while (pos < text.length) {
+    if (text[pos] !== '(') fail(`意外字符 "${text[pos]}"`);
+    trees.push(readGameTree());
+    skipWhitespace();
+  }
+  if (trees.length === 0) fail('未找到任何对局');
+  return trees;
+};
+
+// Decode a single SGF point. Returns null for a pass ("" or "tt" on boards up to 19).
+export const sgfToPoint = (value: string, size: number): Point | null => {
+  if (value === '' || (value === 'tt' && size <= 19)) return null;
+  if (value.length !== 2) throw new SgfParseError(`坐标 "${value}" 无效`);
+  const x = SGF_ALPHABET.indexOf(value[0]);
+  const y = SGF_ALPHABET.indexOf(value[1]);
+  if (x < 0 || y < 0 || x >= size || y >= size) {
+    throw new SgfParseError(`坐标 "${value}" 超出 ${size} 路棋盘`);
+  }
+  return { x, y };
+};
+
+export const pointToSgf = (p: Point): string => `${SGF_ALPHABET[p.x]}${SGF_ALPHABET[p.y]}`;
+
+// Decode a point list, expanding compressed rectangles such as "aa:cc".
+export const sgfToPointList = (values: string[], size: number): Point[] => {
+  const points: Point[] = [];
+  values.forEach(value => {
+    if (value.includes(':')) {
+      const [from, to] = value.split(':');
+      const a = sgfToPoint(from, size);
+      const b = sgfToPoint(to, size);
+      if (!a || !b) throw new SgfParseError(`坐标区域 "${value}" 无效`);
+      for (let y = Math.min(a.y, b.y); y <= Math.max(a.y, b.y); y++) {
+        for (let x = Math.min(a.x, b.x); x <= Math.max(a.x, b.x); x++) {
+          points.push({ x, y });
+        }
+      }
+    } else {
+      const p = sgfToPoint(value, size);
+      if (p) points.push(p);
+    }
+  });
+  return points;
+};
+
+// --- SGF -> GAME ---
+
+export interface SgfGameInfo {
+  playerBlack?: string;
+  playerWhite?: string;
+  result?: string;
+  date?: string;
+  gameName?: string;
+  comment?: string; // Root comment
+}
+
+export interface SgfGame {
+  config: GameConfig;
+  tree: GameTreeNode; // Variations included; handicap stones lead the main line
+  info: SgfGameInfo;
+}
+
+const firstValue = (node: SgfNode, ident: string): string | undefined => node.props[ident]?.[0];
+
+// Convert the first game of an SGF file into the app's game model.
+// Every variation is replayed and kept in the game tree; the first child at each branch is the main line.
+// Any structural or rule problem throws SgfParseError, so callers never see a half-loaded game.
+export const sgfToGame = (text: string): SgfGame => {
+  const root = parseSGF(text)[0];
+
+  const gm = firstValue(root, 'GM');
+  if (gm !== undefined && gm !== '1') throw new SgfParseError('不是围棋棋谱 (GM 必须为 1)');
+
+  const szValue = firstValue(root, 'SZ') ?? '19';
+  const size = parseInt(szValue, 10);
+  if (!/^\d+$/.test(szValue.trim()) || size < 2 || size > 19) {
+    throw new SgfParseError(`不支持的棋盘大小 SZ[${szValue}]`);
+  }
+
+  const kmValue = firstValue(root, 'KM');
+  const komi = kmValue !== undefined && kmValue.trim() !== '' ? parseFloat(kmValue) : 0;
+  if (Number.isNaN(komi)) throw new SgfParseError(`贴目 KM[${kmValue}] 无效`);
+
+  const haValue = firstValue(root, 'HA');
+  const handicap = haValue !== undefined ? parseInt(haValue, 10) || 0 : 0;
+
+  const grid = createEmptyGrid(size);
+  const setupMoves: Move[] = [];
+  const initialStones: { x: number, y: number, color: StoneColor }[] = [];
+
+  // Root setup stones. Plain handicap (AB only, count == HA) follows the app's own
+  // convention of recording handicap stones as leading black moves.
+  const addBlack = sgfToPointList(root.props['AB'] || [], size);
+  const addWhite = sgfToPointList(root.props['AW'] || [], size);
+  const isPlainHandicap = handicap > 0 && addWhite.length === 0 && addBlack.length === handicap;
+
+  const placeSetup = (points: Point[], color: StoneColor) => {
+    points.forEach(p => {
+      if (grid[p.y][p.x] !== null) throw new SgfParseError(`摆子位置 ${pointToSgf(p)} 重复`);
+      grid[p.y][p.x] = color;
+      if (isPlainHandicap) {
+        setupMoves.push({ x: p.x, y: p.y, color, captures: 0 });
+      } else {
+        initialStones.push({ x: p.x, y: p.y, color });
+      }
+    });
+  };
+  placeSetup(addBlack, 'black');
+  placeSetup(addWhite, 'white');
+
+  // Replay one SGF node (and its subtree) on top of `position`, returning the tree nodes it produces.
+  // Nodes without a move (e.g. pure comments) are folded into their children.
+  const convertNode = (node: SgfNode, position: (StoneColor | null)[][], moveNumber: number): GameTreeNode[] => {
+    if (node !== root && (node.props['AB'] || node.props['AW'] || node.props['AE'])) {
+      throw new SgfParseError(`第 ${moveNumber} 手之后包含摆子 (AB/AW/AE)，暂不支持`);
+    }
+
+    const b = node.props['B'];
+    const w = node.props['W'];
+    if (b && w) throw new SgfParseError(`第 ${moveNumber + 1} 手同时包含黑白两手`);
+
+    const moveValue = b ?? w;
+    if (!moveValue) {
+      return node.children.flatMap(child => convertNode(child, position, moveNumber));
+    }
+
+    const color: StoneColor = b ? 'black' : 'white';
+    const p = sgfToPoint(moveValue[0], size);
+    const comment = node !== root ? firstValue(node, 'C') : undefined;
+    let move: Move;
+    let nextPosition = position;
+    if (!p) {
+      move = { x: -1, y: -1, color, captures: 0, pass: true };
+    } else {
+      const result = makeMove(position, p.x, p.y, color);
+      if (!result.success) {
+        throw new SgfParseError(`第 ${moveNumber + 1} 手 ${color === 'black' ? 'B' : 'W'}[${moveValue[0]}] 不合法`);
+      }
+      nextPosition = result.newGrid;
+      move = { x: p.x, y: p.y, color, captures: result.captures };
+    }
+    if (comment) move.comment = comment;
+
+    return [{
+      move,
+      children: node.children.flatMap(child => convertNode(child, nextPosition, moveNumber + 1))
+    }];
+  };
+
+  // Chain the setup moves (if any) in front of the converted game
+  const tree = createGameTree(setupMoves);
+  let attachTo = tree;
+  while (attachTo.children.length > 0) attachTo = attachTo.children[0];
+  attachTo.children = convertNode(root, grid, 0);
+
+  let lastMove: Move | null = null;
+  for (let n = tree; n.children.length > 0; n = n.children[0]) lastMove = n.children[0].move;
+  const nextTurn: StoneColor = lastMove
+    ? (lastMove.color === 'black' ? 'white' : 'black')
+    : (firstValue(root, 'PL') === 'W' || handicap > 0 ? 'white' : 'black');
+
+  const config: GameConfig = {
+    boardSize: size,
+    boardTheme: 'wood',
+    handicap: isPlainHandicap ? handicap : 0,
+    playerColor: nextTurn, // Resuming lets the user take over the side to move
+    difficulty: 'elementary',
+    komi,
+    ...(initialStones.length > 0 ? { initialStones } : {})
+  };
+
+  return {
+    config,
+    tree,
+    info: {
+      playerBlack: firstValue(root, 'PB'),
+      playerWhite: firstValue(root, 'PW'),
+      result: firstValue(root, 'RE'),
+      date: firstValue(root, 'DT'),
+      gameName: firstValue(root, 'GN'),
+      comment: firstValue(root, 'C'),
+    }
+  };
+};
@@ -0,0 +1,263 @@
+import { StoneColor, Point } from '../types';
+import { makeMove, getGroupInfo, getOpponent, isOnBoard, MoveResult } from './goLogic';
+
+// --- TACTICAL READING ---
+// Bounded search for the local fights a one-ply evaluation can't see:
+//   ladders and nets: can a chain short of liberties be captured, or does it escape?
+//   capture races:    which of two neighbouring chains is taken first?
+// A chain that reaches ESCAPE_LIBERTIES liberties is out of danger. Reads that run out of depth or
+// node budget give the defender the benefit of the doubt, so "dead" always means read out.
+
+type Grid = (StoneColor | null)[][];
+
+export type ChainStatus = 'safe' | 'dead' | 'unsettled';
+
+export interface ChainReading {
+  status: ChainStatus;
+  attack?: Point; // Capturing move when the attacker is to play
+  defense?: Point; // Saving move when the defender is to play ('unsettled' only)
+}
+
+export type RaceOutcome = 'win' | 'lose' | 'seki' | 'unknown';
+
+export interface RaceReading {
+  outcome: RaceOutcome; // For the side to move, i.e. the owner of the first chain
+  move?: Point; // Best first move for that side
+}
+
+export interface ReadingOptions {
+  depth?: number; // Maximum plies
+  budget?: number; // Maximum positions visited
+}
+
+export interface TacticalHint {
+  chain: Point[];
+  color: StoneColor;
+  status: Exclude<ChainStatus, 'safe'>;
+  key?: Point; // Vital point for the side to move: capture or escape
+}
+
+const ESCAPE_LIBERTIES = 3;
+// A ladder across the board is two plies per step, so the depth has to cover a full board edge
+const LADDER_DEPTH = 48;
+const LADDER_BUDGET = 2000;
+// Nets (geta) are only tried for the first few attacking moves; deeper they would swamp the budget
+const NET_PLIES = 3;
+const RACE_DEPTH = 14;
+const RACE_BUDGET = 3000;
+
+interface ReadContext {
+  nodes: number;
+  budget: number;
+  exhausted: boolean;
+}
+
+const createContext = (budget: number): ReadContext => ({ nodes: 0, budget, exhausted: false });
+
+const spend = (ctx: ReadContext): boolean => {
+  if (++ctx.nodes > ctx.budget) ctx.exhausted = true;
+  return !ctx.exhausted;
+};
+
+const samePoint = (a: Point | null | undefined, b: Point) => !!a && a.x === b.x && a.y === b.y;
+
+const adjacent = (p: Point): Point[] => [
+  { x: p.x + 1, y: p.y }, { x: p.x - 1, y: p.y },
+  { x: p.x, y: p.y + 1 }, { x: p.x, y: p.y - 1 }
+];
+
+// Simple ko: a lone stone that captured a lone stone and sits in atari can't be retaken at once
+export const koAfter = (result: MoveResult, move: Point): Point | null => {
+  if (result.captures !== 1) return null;
+  const { group, liberties } = getGroupInfo(result.newGrid, move.x, move.y);
+  return group.length === 1 && liberties.length === 1 ? result.capturedPoints[0] : null;
+};
+
+const playFor = (grid: Grid, move: Point, color: StoneColor, ko: Point | null): MoveResult | null => {
+  if (samePoint(ko, move)) return null;
+  const result = makeMove(grid, move.x, move.y, color);
+  return result.success ? result : null;
+};
+
+const uniquePoints = (points: Point[]): Point[] => {
+  const seen = new Set<string>();
+  return points.filter(p => {
+    const key = `${p.x},${p.y}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Liberties of enemy chains touching `group` that are themselves in atari
+const counterCaptures = (grid: Grid, group: Point[], color: StoneColor): Point[] => {
+  const size = grid.length;
+  const enemy = getOpponent(color);
+  const moves: Point[] = [];
+  for (const stone of group) {
+    for (const n of adjacent(stone)) {
+      if (!isOnBoard(n.x, n.y, size) || grid[n.y][n.x] !== enemy) continue;
+      const { liberties } = getGroupInfo(grid, n.x, n.y);
+      if (liberties.length === 1) moves.push(liberties[0]);
+    }
+  }
+  return uniquePoints(moves);
+};
+
+// --- LADDERS AND NETS ---
+
+// Attacker to move: a move that captures the chain at `target` against any defence, or null
+const attack = (grid: Grid, target: Point, depth: number, ko: Point | null, netPlies: number, ctx: ReadContext): Point | null => {
+  const defender = grid[target.y][target.x];
+  if (!defender) return null;
+  const attacker = getOpponent(defender);
+  const { liberties } = getGroupInfo(grid, target.x, target.y);
+
+  if (liberties.length === 1) {
+    return playFor(grid, liberties[0], attacker, ko) ? liberties[0] : null;
+  }
+  if (liberties.length >= ESCAPE_LIBERTIES || depth <= 0 || !spend(ctx)) return null;
+
+  // Ataris first (ladders), then points next to the liberties (nets)
+  const size = grid.length;
+  let candidates = liberties;
+  if (netPlies > 0) {
+    const nets = liberties.flatMap(adjacent).filter(p =>
+      isOnBoard(p.x, p.y, size) && grid[p.y][p.x] === null && !liberties.some(l => samePoint(l, p))
+    );
+    candidates = uniquePoints([...liberties, ...nets]);
+  }
+
+  for (const move of candidates) {
+    const result = playFor(grid, move, attacker, ko);
+    if (!result) continue;
+    if (result.newGrid[target.y][target.x] !== defender) return move;
+    if (!defend(result.newGrid, target, depth - 1, koAfter(result, move), netPlies - 1, ctx).saved) return move;
+  }
+  return null;
+};
+
+// Defender to move: can the chain at `target` be saved, and with which move (none needed if already safe)?
+const defend = (grid: Grid, target: Point, depth: number, ko: Point | null, netPlies: number, ctx: ReadContext): { saved: boolean, move?: Point } => {
+  const defender = grid[target.y][target.x];
+  if (!defender) return { saved: false };
+  const { group, liberties } = getGroupInfo(grid, target.x, target.y);
+  if (liberties.length >= ESCAPE_LIBERTIES || depth <= 0 || !spend(ctx)) return { saved: true };
+
+  // Capturing an attacking stone comes first: it is how most broken ladders are escaped
+  const candidates = uniquePoints([...counterCaptures(grid, group, defender), ...liberties]);
+  for (const move of candidates) {
+    const result = playFor(grid, move, defender, ko);
+    if (!result || result.newGrid[target.y][target.x] !== defender) continue;
+    if (!attack(result.newGrid, target, depth - 1, koAfter(result, move), netPlies - 1, ctx)) {
+      return { saved: true, move };
+    }
+  }
+
+  // A chain with two liberties may already be safe without a reply
+  if (liberties.length >= 2 && !attack(grid, target, depth - 1, null, netPlies - 1, ctx)) return { saved: true };
+  return { saved: false };
+};
+
+// Can the side to move capture the chain at (x, y)? Returns the capturing move.
+export const findCapture = (grid: Grid, x: number, y: number, options: ReadingOptions = {}): Point | null => {
+  if (!grid[y][x]) return null;
+  const ctx = createContext(options.budget ?? LADDER_BUDGET);
+  return attack(grid, { x, y }, options.depth ?? LADDER_DEPTH, null, NET_PLIES, ctx);
+};
+
+// Can the owner of the chain at (x, y), to move, keep it alive? `move` is absent when no move is needed.
+export const findEscape = (grid: Grid, x: number, y: number, options: ReadingOptions = {}): { saved: boolean, move?: Point } => {
+  if (!grid[y][x]) return { saved: false };
+  const ctx = createContext(options.budget ?? LADDER_BUDGET);
+  return defend(grid, { x, y }, options.depth ?? LADDER_DEPTH, null, NET_PLIES, ctx);
+};
+
+// Status of the chain at (x, y) whoever moves first
+export const readChain = (grid: Grid, x: number, y: number, options: ReadingOptions = {}): ChainReading => {
+  const attackMove = findCapture(grid, x, y, options);
+  if (!attackMove) return { status: 'safe' };
+  const escape = findEscape(grid, x, y, options);
+  if (!escape.saved) return { status: 'dead', attack: attackMove };
+  return { status: 'unsettled', attack: attackMove, defense: escape.move };
+};
+
+// --- CAPTURE RACES ---
+
+// Value for `us`: 1 we capture theirs, -1 ours is captured, 0 seki or unresolved
+const race = (
+  grid: Grid, ours: Point, theirs: Point, us: StoneColor, toMove: StoneColor,
+  depth: number, ko: Point | null, passes: number, ctx: ReadContext
+): { value: number, move?: Point } => {
+  const them = getOpponent(us);
+  if (grid[ours.y][ours.x] !== us) return { value: -1 };
+  if (grid[theirs.y][theirs.x] !== them) return { value: 1 };
+  if (passes >= 2) return { value: 0 };
+  if (depth <= 0 || !spend(ctx)) {
+    ctx.exhausted = true;
+    return { value: 0 };
+  }
+
+  const target = toMove === us ? theirs : ours;
+  const own = toMove === us ? ours : theirs;
+  const ownGroup = getGroupInfo(grid, own.x, own.y);
+  const candidates = uniquePoints([
+    ...counterCaptures(grid, ownGroup.group, toMove),
+    ...getGroupInfo(grid, target.x, target.y).liberties,
+    // Extending matters only when the own chain is short of liberties
+    ...(ownGroup.liberties.length <= 2 ? ownGroup.liberties : [])
+  ]);
+
+  const maximizing = toMove === us;
+  let best: { value: number, move?: Point } = { value: maximizing ? -Infinity : Infinity };
+  const consider = (value: number, move?: Point) => {
+    if (maximizing ? value > best.value : value < best.value) best = { value, move };
+  };
+
+  for (const move of candidates) {
+    const result = playFor(grid, move, toMove, ko);
+    if (!result) continue;
+    consider(race(result.newGrid, ours, theirs, us, getOpponent(toMove), depth - 1, koAfter(result, move), 0, ctx).value, move);
+    if (best.value === (maximizing ? 1 : -1)) return best;
+  }
+  // Passing (tenuki) is always possible; it is how a seki ends
+  consider(race(grid, ours, theirs, us, getOpponent(toMove), depth - 1, null, passes + 1, ctx).value);
+  return best;
+};
+
+// Capture race between the chain at `ours` (whose owner is to move) and the enemy chain at `theirs`
+export const readCaptureRace = (grid: Grid, ours: Point, theirs: Point, options: ReadingOptions = {}): RaceReading => {
+  const us = grid[ours.y][ours.x];
+  if (!us || grid[theirs.y][theirs.x] !== getOpponent(us)) return { outcome: 'unknown' };
+  const ctx = createContext(options.budget ?? RACE_BUDGET);
+  const { value, move } = race(grid, ours, theirs, us, us, options.depth ?? RACE_DEPTH, null, 0, ctx);
+  if (value > 0) return { outcome: 'win', move };
+  if (value < 0) return { outcome: 'lose', move };
+  return { outcome: ctx.exhausted ? 'unknown' : 'seki', move };
+};
+
+// --- HINTS ---
+
+// Every chain short of liberties whose fate depends on (or is already decided by) reading.
+// `key` is the vital point for `toMove`: capture an enemy chain, or rescue an own one.
+export const findTacticalHints = (grid: Grid, toMove: StoneColor): TacticalHint[] => {
+  const size = grid.length;
+  const seen = new Set<string>();
+  const hints: TacticalHint[] = [];
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const color = grid[y][x];
+      if (!color || seen.has(`${x},${y}`)) continue;
+      const { group, liberties } = getGroupInfo(grid, x, y);
+      group.forEach(p => seen.add(`${p.x},${p.y}`));
+      if (liberties.length >= ESCAPE_LIBERTIES) continue;
+
+      const reading = readChain(grid, x, y);
+      if (reading.status === 'safe') continue;
+      const key = color === toMove ? reading.defense : reading.attack;
+      hints.push({ chain: group, color, status: reading.status, key });
+    }
+  }
+  return hints;
+};
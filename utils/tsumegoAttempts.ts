@@ -0,0 +1,32 @@
+// --- TSUMEGO ATTEMPT LOG ---
+// Every finished attempt at a problem, newest first, kept in localStorage next to the solved ids.
+
+export interface TsumegoAttempt {
+  date: number; // Epoch milliseconds
+  result: 'success' | 'partial' | 'fail'; // Partial: the problem was answered with a ko where it has better
+  moves: string[]; // GTP vertices, the side to move first
+  explanation?: string; // Why the attempt failed, when explanations are on
+}
+
+const STORAGE_KEY = 'zenGoTsumegoAttempts';
+const MAX_ATTEMPTS = 20; // Per problem
+
+const loadAll = (): Record<string, TsumegoAttempt[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (e) {
+    console.error("Failed to load tsumego attempts", e);
+    return {};
+  }
+};
+
+export const loadAttempts = (problemId: string): TsumegoAttempt[] => loadAll()[problemId] || [];
+
+// Returns the problem's updated log
+export const recordAttempt = (problemId: string, attempt: TsumegoAttempt): TsumegoAttempt[] => {
+  const all = loadAll();
+  const attempts = [attempt, ...(all[problemId] || [])].slice(0, MAX_ATTEMPTS);
+  all[problemId] = attempts;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  return attempts;
+};
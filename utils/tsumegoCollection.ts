@@ -0,0 +1,46 @@
+import { TsumegoProblem } from '../types';
+
+// --- USER TSUMEGO COLLECTION ---
+// Problems made in the editor, kept in localStorage and listed after the bundled ones.
+
+const STORAGE_KEY = 'zenGoUserTsumego';
+
+export const loadUserProblems = (): TsumegoProblem[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch (e) {
+    console.error("Failed to load user tsumego", e);
+    return [];
+  }
+};
+
+const store = (problems: TsumegoProblem[]) => localStorage.setItem(STORAGE_KEY, JSON.stringify(problems));
+
+let idCounter = 0;
+
+// Ids of user problems never collide with the bundled ones, which are also stored as solved progress.
+// The counter keeps ids unique when a whole pack is imported within one millisecond.
+export const createUserProblemId = (): string => `user_${Date.now().toString(36)}${(idCounter++).toString(36)}`;
+
+// Adds the problem, or replaces the one with the same id; returns the updated collection
+export const saveUserProblem = (problem: TsumegoProblem): TsumegoProblem[] => {
+  const problems = loadUserProblems();
+  const index = problems.findIndex(p => p.id === problem.id);
+  if (index >= 0) problems[index] = problem;
+  else problems.push(problem);
+  store(problems);
+  return problems;
+};
+
+// Appends imported problems; returns the updated collection
+export const addUserProblems = (added: TsumegoProblem[]): TsumegoProblem[] => {
+  const problems = [...loadUserProblems(), ...added];
+  store(problems);
+  return problems;
+};
+
+export const deleteUserProblem = (id: string): TsumegoProblem[] => {
+  const problems = loadUserProblems().filter(p => p.id !== id);
+  store(problems);
+  return problems;
+};
@@ -1,4 +1,5 @@
 import { TsumegoProblem, StoneColor, Difficulty, TsumegoNode, Point } from '../types';
+import { createRng } from './random';
 
 // --- Helper Functions for generating data ---
 const isValid = (x: number, y: number) => x >= 0 && x < 9 && y >= 0 && y < 9;
@@ -31,13 +32,13 @@ const CLASSIC_PROBLEMS: TsumegoProblem[] = [
         difficulty: 'novice',
         boardSize: 9,
         initialStones: [
-            {x: 1, y: 1, color: 'white'}, {x: 3, y: 1, color: 'white'},
-            {x: 1, y: 2, color: 'white'}, {x: 3, y: 2, color: 'white'},
-            {x: 0, y: 1, color: 'black'}, {x: 4, y: 1, color: 'black'},
-            {x: 0, y: 2, color: 'black'}, {x: 4, y: 2, color: 'black'}
+            // Two white stones on the edge, two liberties each, sharing C9
+            {x: 1, y: 0, color: 'white'}, {x: 3, y: 0, color: 'white'},
+            {x: 0, y: 0, color: 'black'}, {x: 0, y: 1, color: 'black'}, {x: 2, y: 1, color: 'black'},
+            {x: 4, y: 0, color: 'black'}, {x: 4, y: 1, color: 'black'}
         ],
         solutionTree: {
-            "2,1": { status: 'correct', message: '正解！双打吃，白棋必死其一。' }
+            "2,0": { status: 'correct', message: '正解！双打吃，白棋必死其一。' }
         }
     },
     
@@ -88,13 +89,17 @@ const CLASSIC_PROBLEMS: TsumegoProblem[] = [
         boardSize: 9,
         initialStones: [
             // White surrounds 0,0 1,0 0,1 (Bent 3)
-            {x: 2, y: 0, color: 'white'}, {x: 1, y: 1, color: 'white'}, {x: 0, y: 2, color: 'white'},
+            {x: 2, y: 0, color: 'white'}, {x: 2, y: 1, color: 'white'}, {x: 1, y: 1, color: 'white'},
+            {x: 1, y: 2, color: 'white'}, {x: 0, y: 2, color: 'white'},
             // Black surrounds
-            {x: 3, y: 0, color: 'black'}, {x: 2, y: 1, color: 'black'}, {x: 1, y: 2, color: 'black'}, {x: 0, y: 3, color: 'black'}
+            {x: 3, y: 0, color: 'black'}, {x: 3, y: 1, color: 'black'}, {x: 3, y: 2, color: 'black'}, {x: 2, y: 2, color: 'black'},
+            {x: 2, y: 3, color: 'black'}, {x: 1, y: 3, color: 'black'}, {x: 0, y: 3, color: 'black'}
         ],
+        // The corner of the bent three, (0,0), touches both other points: it is the vital point
         solutionTree: {
-            "0,0": { status: 'wrong', message: '失败。白下1,0做眼。' },
-            "1,0": { status: 'correct', message: '正解！占据弯三拐角要点。' } // Often the vital point for bent 3 is the corner of the shape
+            "0,0": { status: 'correct', message: '正解！占据弯三拐角要点。' },
+            "1,0": { status: 'wrong', response: {x: 0, y: 0}, message: '失败。白提子后做成两只眼。' },
+            "0,1": { status: 'wrong', response: {x: 0, y: 0}, message: '失败。白提子后做成两只眼。' }
         }
     },
     {
@@ -104,27 +109,21 @@ const CLASSIC_PROBLEMS: TsumegoProblem[] = [
         difficulty: 'intermediate',
         boardSize: 9,
         initialStones: [
-            // White Wall
-            {x: 1, y: 0, color: 'white'}, {x: 2, y: 0, color: 'white'}, {x: 3, y: 0, color: 'white'},
-            {x: 0, y: 1, color: 'white'}, {x: 4, y: 1, color: 'white'},
-            {x: 1, y: 2, color: 'white'}, {x: 3, y: 2, color: 'white'},
-            {x: 2, y: 3, color: 'white'},
-            // Black Outside
-            {x: 0, y: 0, color: 'black'}, {x: 4, y: 0, color: 'black'}, 
-            {x: 0, y: 2, color: 'black'}, {x: 4, y: 2, color: 'black'},
-            {x: 2, y: 4, color: 'black'}
+            // White wall around the eye space
+            {x: 0, y: 0, color: 'white'}, {x: 0, y: 1, color: 'white'}, {x: 1, y: 1, color: 'white'},
+            {x: 1, y: 2, color: 'white'}, {x: 2, y: 2, color: 'white'}, {x: 3, y: 2, color: 'white'},
+            {x: 3, y: 1, color: 'white'}, {x: 4, y: 1, color: 'white'}, {x: 4, y: 0, color: 'white'},
+            // Black outside
+            {x: 0, y: 2, color: 'black'}, {x: 0, y: 3, color: 'black'}, {x: 1, y: 3, color: 'black'},
+            {x: 2, y: 3, color: 'black'}, {x: 3, y: 3, color: 'black'}, {x: 4, y: 3, color: 'black'},
+            {x: 4, y: 2, color: 'black'}, {x: 5, y: 2, color: 'black'}, {x: 5, y: 1, color: 'black'},
+            {x: 5, y: 0, color: 'black'}
         ],
-        // Empty spots inside: 1,1; 2,1; 3,1; 2,2
-        // Vital point for Pyramid 4 is center (2,1 in this coord system, or 2,2 relative?)
-        // Let's visualize: 
-        // . W W W .
         // W . . . W
-        // . W . W .
-        // . . W . .
-        // Empty: (1,1), (2,1), (3,1), (2,2). This is the T shape.
-        // Center of T is (2,1).
+        // W W . W W
+        // Empty: (1,0), (2,0), (3,0), (2,1). The vital point is the middle of the T, (2,0).
         solutionTree: {
-            "2,1": { status: 'correct', message: '正解！点在花心。' }
+            "2,0": { status: 'correct', message: '正解！点在花心。' }
         }
     },
     {
@@ -134,25 +133,21 @@ const CLASSIC_PROBLEMS: TsumegoProblem[] = [
         difficulty: 'advanced',
         boardSize: 9,
         initialStones: [
-            // White Border
-            {x: 1, y: 0, color: 'white'}, {x: 2, y: 0, color: 'white'}, {x: 3, y: 0, color: 'white'}, {x: 4, y: 0, color: 'white'},
-            {x: 0, y: 1, color: 'white'}, {x: 4, y: 1, color: 'white'},
-            {x: 1, y: 2, color: 'white'}, {x: 3, y: 2, color: 'white'},
-            {x: 2, y: 3, color: 'white'},
-            // Black
-            {x: 0, y: 0, color: 'black'}, {x: 5, y: 0, color: 'black'}, 
-            {x: 0, y: 2, color: 'black'}, {x: 5, y: 2, color: 'black'},
-            {x: 2, y: 4, color: 'black'}
+            // White wall around the eye space
+            {x: 0, y: 0, color: 'white'}, {x: 0, y: 1, color: 'white'}, {x: 0, y: 2, color: 'white'},
+            {x: 1, y: 2, color: 'white'}, {x: 2, y: 2, color: 'white'}, {x: 3, y: 2, color: 'white'},
+            {x: 3, y: 1, color: 'white'}, {x: 4, y: 1, color: 'white'}, {x: 4, y: 0, color: 'white'},
+            // Black outside
+            {x: 0, y: 3, color: 'black'}, {x: 1, y: 3, color: 'black'}, {x: 2, y: 3, color: 'black'},
+            {x: 3, y: 3, color: 'black'}, {x: 4, y: 3, color: 'black'}, {x: 4, y: 2, color: 'black'},
+            {x: 5, y: 2, color: 'black'}, {x: 5, y: 1, color: 'black'}, {x: 5, y: 0, color: 'black'}
         ],
-        // Empty: (1,1), (2,1), (3,1) and (2,2). And maybe (something else). 
-        // Classic "Cross 5" or "Bulky 5"
-        // Let's do a simpler "Flower 5" (Cross shape)
-        // . . X . .
-        // . X X X .
-        // . . X . .
-        // Center is vital.
+        // W . . . W
+        // W . . W W
+        // Empty: the square (1,0), (2,0), (1,1), (2,1) and the handle (3,0). The vital point is (2,0),
+        // where the handle meets the square.
         solutionTree: {
-            "2,1": { status: 'correct', message: '正解！' }
+            "2,0": { status: 'correct', message: '正解！点在刀把五的要点。' }
         }
     },
 
@@ -188,7 +183,7 @@ const CLASSIC_PROBLEMS: TsumegoProblem[] = [
         boardSize: 9,
         initialStones: [
             {x: 2, y: 2, color: 'white'},
-            {x: 2, y: 1, color: 'black'}, {x: 1, y: 2, color: 'black'}
+            {x: 2, y: 1, color: 'black'}, {x: 1, y: 2, color: 'black'}, {x: 4, y: 2, color: 'black'}
         ],
         solutionTree: {
             "2,3": { status: 'correct', message: '正解！' },
@@ -202,12 +197,14 @@ const CLASSIC_PROBLEMS: TsumegoProblem[] = [
         difficulty: 'entry',
         boardSize: 9,
         initialStones: [
-            {x: 3, y: 3, color: 'white'}, {x: 3, y: 2, color: 'white'},
-            {x: 3, y: 1, color: 'black'}, {x: 2, y: 2, color: 'black'}, {x: 2, y: 3, color: 'black'}
+            {x: 3, y: 3, color: 'white'}, {x: 6, y: 6, color: 'white'},
+            {x: 3, y: 2, color: 'black'}, {x: 2, y: 3, color: 'black'}, {x: 4, y: 2, color: 'black'}, {x: 2, y: 4, color: 'black'}
         ],
-        // White trying to run to (4,3) or (4,2)
+        // White runs for the lower right, where its stone at (6,6) breaks the ladder
         solutionTree: {
-            "4,2": { status: 'correct', message: '正解！枷吃。' }
+            "4,4": { status: 'correct', message: '正解！枷吃。' },
+            "4,3": { status: 'wrong', message: '征子不利，白棋逃向右下。' },
+            "3,4": { status: 'wrong', message: '征子不利，白棋逃向右下。' }
         }
     }
 ];
@@ -328,6 +325,7 @@ for(let x=3; x<6; x++) {
             title: `逃子练习 ${pId}`,
             description: '【基础】黑先。黑子危险，向唯一的缺口逃跑。',
             difficulty: 'entry',
+            goal: 'live',
             boardSize: 9,
             initialStones: [
                 {x: x, y: y, color: 'black'}, // Victim
@@ -358,14 +356,17 @@ for(let x=3; x<6; x++) {
 // Need ~60 more.
 
 // --- F. RANDOM ATARI (Fuzzing) ---
-// Generate simple Ataris all over the board
+// Generate simple Ataris all over the board.
+// Fixed seed: the ids are stored as solved progress, so each must name the same position on every load.
+const DRILL_SEED = 20240601;
+const drillRng = createRng(DRILL_SEED);
 for(let i=0; i<60; i++) {
-    let x = Math.floor(Math.random() * 7) + 1; // 1-7
-    let y = Math.floor(Math.random() * 7) + 1; // 1-7
+    let x = Math.floor(drillRng() * 7) + 1; // 1-7
+    let y = Math.floor(drillRng() * 7) + 1; // 1-7
     
-    // Avoid duplicates roughly
+    // Avoid duplicates roughly. Stay within 1-7: on the first line the surrounding stones would fall off the board.
     if (DRILL_PROBLEMS.some(p => p.initialStones[0].x === x && p.initialStones[0].y === y)) {
-        x = (x + 1) % 8;
+        x = x % 7 + 1;
     }
 
     const libs = [
@@ -0,0 +1,346 @@
+import { StoneColor, Point, Difficulty, TsumegoProblem, TsumegoNode, TsumegoGoal, TsumegoOutcome } from '../types';
+import { escapeSGFText, isOnBoard, getOpponent } from './goLogic';
+import { toggleStones } from './rules';
+import { SgfNode, SgfParseError, parseSGF, sgfToPoint, sgfToPointList, pointToSgf } from './sgf';
+import { validateTsumego } from './tsumegoValidation';
+import { createUserProblemId } from './tsumegoCollection';
+import { OUTCOME_LABELS, tsumegoPlayer } from './tsumegoPlay';
+
+// --- TSUMEGO PACKS ---
+// Problem sets move in and out of the app in two formats:
+//   SGF  - one game tree per problem: AB/AW setup, the side to move's tries as variations, the first answer
+//          to each as the reply, and lines marked correct by a "RIGHT"/"Correct"/"正解" comment
+//          (goproblems.com style). Comments naming a ko or seki set the line's outcome.
+//   JSON - a pack mirroring TsumegoProblem, lossless.
+// Imported problems are checked with the validator and compared with the existing ones by position hash.
+
+export const PACK_FORMAT = 'zengo-tsumego';
+export const PACK_VERSION = 1;
+
+export interface TsumegoPack {
+  format: typeof PACK_FORMAT;
+  version: number;
+  problems: TsumegoProblem[];
+}
+
+export class TsumegoPackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TsumegoPackError';
+  }
+}
+
+export interface TsumegoImportResult {
+  added: TsumegoProblem[]; // With fresh user ids, ready to save
+  duplicates: { title: string, existing: string }[]; // Title of the problem with the same position
+  skipped: { title: string, reason: string }[];
+}
+
+const DIFFICULTIES: Difficulty[] = ['novice', 'entry', 'beginner', 'elementary', 'intermediate', 'advanced', 'master', 'grandmaster'];
+const DEFAULT_DIFFICULTY: Difficulty = 'elementary';
+
+// --- POSITION HASH ---
+
+// The same position under any of the 8 board symmetries gets the same hash, so a mirrored copy of a
+// problem from another collection is still recognised.
+export const positionHash = (problem: TsumegoProblem): string => {
+  const n = problem.boardSize - 1;
+  const transforms: ((p: Point) => Point)[] = [
+    p => p, p => ({ x: n - p.x, y: p.y }), p => ({ x: p.x, y: n - p.y }), p => ({ x: n - p.x, y: n - p.y }),
+    p => ({ x: p.y, y: p.x }), p => ({ x: n - p.y, y: p.x }), p => ({ x: p.y, y: n - p.x }), p => ({ x: n - p.y, y: n - p.x })
+  ];
+  const stones = (color: StoneColor) => problem.initialStones.filter(s => s.color === color && isOnBoard(s.x, s.y, problem.boardSize));
+  const hashes = transforms.map(t => {
+    const black = toggleStones(0n, problem.boardSize, stones('black').map(t), 'black');
+    return toggleStones(black, problem.boardSize, stones('white').map(t), 'white');
+  });
+  const min = hashes.reduce((a, b) => (b < a ? b : a));
+  return `${problem.boardSize}:${min.toString(16)}`;
+};
+
+// --- SGF -> PROBLEMS ---
+
+const CORRECT_MARK = /(^|[^a-z])(right|correct)(?![a-z])|正解|正确/i;
+const WRONG_MARK = /wrong|incorrect|失败|错误|不正确/i;
+const LEADING_MARK = /^\s*(right|correct|wrong|incorrect|正解|正确|失败|错误)[\s:：!！.。,，]*/i;
+// The outcome line written by the export, right after the marker
+const LEADING_OUTCOME = new RegExp(`^(${Object.values(OUTCOME_LABELS).join('|')})\\s*(\\n|$)`);
+
+type Mark = 'correct' | 'wrong' | undefined;
+
+const commentOf = (node?: SgfNode): string | undefined => node?.props['C']?.[0];
+
+// A marker word at the start decides; otherwise any mention, with "wrong" winning over "correct"
+const markOf = (comment?: string): Mark => {
+  if (!comment) return undefined;
+  const leading = LEADING_MARK.exec(comment)?.[1];
+  if (leading) return WRONG_MARK.test(leading) ? 'wrong' : 'correct';
+  if (WRONG_MARK.test(comment)) return 'wrong';
+  return CORRECT_MARK.test(comment) ? 'correct' : undefined;
+};
+
+// The comment as shown after the answer, without the marker word
+const messageOf = (comment?: string): string | undefined =>
+  comment?.replace(LEADING_MARK, '').replace(LEADING_OUTCOME, '').trim() || undefined;
+
+const outcomeOf = (comment?: string): TsumegoOutcome | undefined => {
+  if (!comment) return undefined;
+  if (/双活|\bseki\b/i.test(comment)) return 'seki';
+  if (/劫|\bko\b/i.test(comment)) return 'ko';
+  if (comment.includes(OUTCOME_LABELS.kill)) return 'kill';
+  if (comment.includes(OUTCOME_LABELS.live)) return 'live';
+  return undefined;
+};
+
+const colorName = (color: StoneColor) => color === 'black' ? '黑' : '白';
+
+const allComments = (node: SgfNode): string[] => [
+  ...(commentOf(node) ? [commentOf(node)!] : []),
+  ...node.children.flatMap(allComments)
+];
+
+const guessGoal = (text: string): TsumegoGoal => {
+  const plain = text.replace(/死活/g, '');
+  return /活|\blives?\b/i.test(plain) && !/杀|\bkill\b/i.test(plain) ? 'live' : 'kill';
+};
+
+// Convert one SGF game tree. Throws SgfParseError for anything the tsumego tree cannot express.
+const sgfToProblem = (root: SgfNode, title: string): TsumegoProblem => {
+  const szValue = root.props['SZ']?.[0] ?? '19';
+  const size = parseInt(szValue, 10);
+  if (!/^\d+$/.test(szValue.trim()) || size < 2 || size > 19) {
+    throw new SgfParseError(`不支持的棋盘大小 SZ[${szValue}]`);
+  }
+
+  // Moves and setup nodes below the root; nodes with neither (pure comments) are skipped over
+  const movesFrom = (nodes: SgfNode[]): SgfNode[] => nodes.flatMap(node => {
+    if (node.props['AB'] || node.props['AW'] || node.props['AE']) throw new SgfParseError('变化中包含摆子 (AB/AW/AE)，暂不支持');
+    return node.props['B'] || node.props['W'] ? [node] : movesFrom(node.children);
+  });
+
+  // PL, or else the first move, says who is to play
+  const firstMove = movesFrom(root.children)[0];
+  const pl = root.props['PL']?.[0];
+  const toMove: StoneColor = pl ? (pl === 'W' ? 'white' : 'black') : firstMove?.props['W'] ? 'white' : 'black';
+  const opponent = getOpponent(toMove);
+  const colorOf = (node: SgfNode): StoneColor => node.props['B'] ? 'black' : 'white';
+  const pointOf = (node: SgfNode): Point => {
+    const value = (node.props['B'] ?? node.props['W'])[0];
+    const p = sgfToPoint(value, size);
+    if (!p) throw new SgfParseError('变化中包含停一手，暂不支持');
+    return p;
+  };
+
+  // Problems that only mark the wrong lines have their unmarked lines as the answers
+  const marks = root.children.flatMap(allComments).map(markOf);
+  const unmarked: 'correct' | 'wrong' = !marks.includes('correct') && marks.includes('wrong') ? 'correct' : 'wrong';
+
+  const convert = (nodes: SgfNode[]): TsumegoNode => {
+    const tree: TsumegoNode = {};
+    movesFrom(nodes).forEach(node => {
+      const move = pointOf(node);
+      if (colorOf(node) !== toMove) throw new SgfParseError(`${pointToSgf(move)} 处连走两手${colorName(opponent)}棋`);
+      const key = `${move.x},${move.y}`;
+      if (tree[key]) return; // A repeated variation; the first one wins
+
+      // Only one answer per try fits in the tree: the first variation, as in the main line
+      const reply = movesFrom(node.children)[0];
+      if (reply && colorOf(reply) !== opponent) throw new SgfParseError(`${pointToSgf(move)} 之后连走两手${colorName(toMove)}棋`);
+      const comment = commentOf(reply) ?? commentOf(node);
+      const message = messageOf(comment);
+      const outcome = outcomeOf(comment);
+      const follow = reply ? movesFrom(reply.children) : [];
+
+      if (reply && follow.length > 0) {
+        tree[key] = { response: pointOf(reply), next: convert(reply.children), status: 'continue', ...(message ? { message } : {}) };
+      } else if ((markOf(commentOf(reply)) ?? markOf(commentOf(node)) ?? unmarked) === 'correct') {
+        tree[key] = { status: 'correct', ...(outcome ? { outcome } : {}), ...(message ? { message } : {}) };
+      } else {
+        tree[key] = {
+          ...(reply ? { response: pointOf(reply) } : {}), status: 'wrong', ...(outcome ? { outcome } : {}), ...(message ? { message } : {})
+        };
+      }
+    });
+    return tree;
+  };
+
+  const setup = (ident: string, color: StoneColor) => sgfToPointList(root.props[ident] || [], size).map(p => ({ ...p, color }));
+
+  const rootComment = commentOf(root)?.trim();
+  const goal = guessGoal(`${root.props['GN']?.[0] ?? ''} ${rootComment ?? ''}`);
+  const defaultDescription = `${colorName(toMove)}先${goal === 'live' ? '做活' : `杀${colorName(opponent)}`}。`;
+
+  return {
+    id: '',
+    title: root.props['GN']?.[0]?.trim() || title,
+    description: rootComment || defaultDescription,
+    difficulty: DEFAULT_DIFFICULTY,
+    boardSize: size,
+    initialStones: [...setup('AB', 'black'), ...setup('AW', 'white')],
+    solutionTree: convert(root.children),
+    goal,
+    ...(toMove === 'white' ? { toMove } : {})
+  };
+};
+
+// --- JSON -> PROBLEMS ---
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const STATUSES: TsumegoNode[string]['status'][] = ['correct', 'wrong', 'continue'];
+const OUTCOMES = Object.keys(OUTCOME_LABELS) as TsumegoOutcome[];
+
+const readPoint = (value: unknown, what: string): Point => {
+  if (!isObject(value) || !Number.isInteger(value.x) || !Number.isInteger(value.y)) throw new TsumegoPackError(`${what}坐标无效`);
+  return { x: value.x as number, y: value.y as number };
+};
+
+const readStone = (value: unknown): TsumegoProblem['initialStones'][number] => {
+  const { x, y } = readPoint(value, '摆子');
+  const color = (value as Json).color;
+  if (color !== 'black' && color !== 'white') throw new TsumegoPackError(`摆子 (${x},${y}) 的颜色无效`);
+  return { x, y, color };
+};
+
+// Rebuilt field by field, so nothing but the known fields reaches the collection
+const readNode = (value: unknown): TsumegoNode => {
+  if (!isObject(value)) throw new TsumegoPackError('解答树格式不对');
+  const node: TsumegoNode = {};
+  Object.entries(value).forEach(([key, branch]) => {
+    if (!isObject(branch)) throw new TsumegoPackError(`解答 ${key} 格式不对`);
+    const status = STATUSES.find(st => st === branch.status);
+    if (!status) throw new TsumegoPackError(`解答 ${key} 的状态无效`);
+    const outcome = OUTCOMES.find(o => o === branch.outcome);
+    if (branch.outcome !== undefined && !outcome) throw new TsumegoPackError(`解答 ${key} 的结果无效`);
+    if (branch.message !== undefined && typeof branch.message !== 'string') throw new TsumegoPackError(`解答 ${key} 的提示无效`);
+    node[key] = {
+      status,
+      ...(branch.response !== undefined ? { response: readPoint(branch.response, `解答 ${key} 的应手`) } : {}),
+      ...(branch.next !== undefined ? { next: readNode(branch.next) } : {}),
+      ...(outcome ? { outcome } : {}),
+      ...(typeof branch.message === 'string' ? { message: branch.message } : {})
+    };
+  });
+  return node;
+};
+
+// Checks the structure down to every stone and branch; the validator checks that it makes a problem
+const readPackProblem = (value: unknown, title: string): TsumegoProblem => {
+  if (!isObject(value) || !Number.isInteger(value.boardSize) || !Array.isArray(value.initialStones) || value.solutionTree === undefined) {
+    throw new TsumegoPackError('缺少棋盘大小、摆子或解答');
+  }
+  const difficulty = DIFFICULTIES.find(d => d === value.difficulty) ?? DEFAULT_DIFFICULTY;
+  return {
+    id: '',
+    title: typeof value.title === 'string' && value.title.trim() ? value.title.trim() : title,
+    description: typeof value.description === 'string' ? value.description : '',
+    difficulty,
+    boardSize: value.boardSize as number,
+    initialStones: value.initialStones.map(readStone),
+    solutionTree: readNode(value.solutionTree),
+    ...(value.goal === 'kill' || value.goal === 'live' ? { goal: value.goal } : {}),
+    ...(value.toMove === 'white' ? { toMove: 'white' as const } : {})
+  };
+};
+
+const parsePack = (text: string): unknown[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new TsumegoPackError('不是有效的 JSON 文件');
+  }
+  if (Array.isArray(data)) return data;
+  if (!isObject(data) || data.format !== PACK_FORMAT || !Array.isArray(data.problems)) throw new TsumegoPackError('不是死活题题包');
+  if (typeof data.version !== 'number' || data.version > PACK_VERSION) throw new TsumegoPackError(`题包版本 ${data.version} 过新，请升级应用`);
+  return data.problems;
+};
+
+// --- IMPORT ---
+
+// Read a .sgf or .json file into problems (ids left empty). Entries that cannot be converted are
+// reported as skipped; a file that cannot be read at all throws SgfParseError or TsumegoPackError.
+export const parseTsumegoFile = (text: string, fileName: string): { problems: TsumegoProblem[], skipped: TsumegoImportResult['skipped'] } => {
+  const baseName = fileName.replace(/\.[^.]*$/, '') || '导入题目';
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  const entries: unknown[] = isJson ? parsePack(text) : parseSGF(text);
+  const problems: TsumegoProblem[] = [];
+  const skipped: TsumegoImportResult['skipped'] = [];
+
+  entries.forEach((entry, i) => {
+    const title = entries.length > 1 ? `${baseName} ${i + 1}` : baseName;
+    try {
+      problems.push(isJson ? readPackProblem(entry, title) : sgfToProblem(entry as SgfNode, title));
+    } catch (err) {
+      if (!(err instanceof SgfParseError || err instanceof TsumegoPackError)) throw err;
+      skipped.push({ title, reason: err.message });
+    }
+  });
+  return { problems, skipped };
+};
+
+// Parse, validate (without the solver) and de-duplicate against `existing`
+export const importTsumego = (text: string, fileName: string, existing: TsumegoProblem[]): TsumegoImportResult => {
+  const { problems, skipped } = parseTsumegoFile(text, fileName);
+  const known = new Map(existing.map(p => [positionHash(p), p.title]));
+  const result: TsumegoImportResult = { added: [], duplicates: [], skipped };
+
+  problems.forEach(parsed => {
+    const problem = { ...parsed, id: createUserProblemId() };
+    const error = validateTsumego(problem, { solver: false }).find(issue => issue.severity === 'error');
+    if (error) {
+      result.skipped.push({ title: problem.title, reason: error.message });
+      return;
+    }
+    const hash = positionHash(problem);
+    const same = known.get(hash);
+    if (same !== undefined) {
+      result.duplicates.push({ title: problem.title, existing: same });
+      return;
+    }
+    known.set(hash, problem.title);
+    result.added.push(problem);
+  });
+  return result;
+};
+
+// --- EXPORT ---
+
+export const exportTsumegoPack = (problems: TsumegoProblem[]): string => {
+  const pack: TsumegoPack = { format: PACK_FORMAT, version: PACK_VERSION, problems };
+  return JSON.stringify(pack, null, 2);
+};
+
+// One game tree per problem. Lines end in a "RIGHT" or "WRONG" comment so other tsumego tools read them too,
+// followed by the outcome's name; the difficulty and goal only survive in the JSON pack.
+export const exportTsumegoSgf = (problems: TsumegoProblem[]): string => problems.map(problem => {
+  const text = (value: string) => `[${escapeSGFText(value)}]`;
+  const setup = (color: StoneColor) => problem.initialStones.filter(s => s.color === color).map(s => `[${pointToSgf(s)}]`).join('');
+  const player = tsumegoPlayer(problem);
+  const [own, other] = player === 'black' ? ['B', 'W'] : ['W', 'B'];
+
+  const writeTree = (node: TsumegoNode): string => Object.entries(node).map(([key, branch]) => {
+    const [x, y] = key.split(',').map(Number);
+    const outcome = branch.outcome ? OUTCOME_LABELS[branch.outcome] : '';
+    let sgf = `(;${own}[${pointToSgf({ x, y })}]`;
+    if (branch.status === 'correct') {
+      sgf += `C${text(['RIGHT', outcome, branch.message].filter(Boolean).join('\n'))}`;
+    } else {
+      if (branch.response) sgf += `;${other}[${pointToSgf(branch.response)}]`;
+      const mark = branch.status === 'wrong' ? 'WRONG' : '';
+      const comment = [mark, mark && outcome, branch.message].filter(Boolean).join('\n');
+      if (comment) sgf += `C${text(comment)}`;
+      if (branch.status === 'continue' && branch.next) sgf += writeTree(branch.next);
+    }
+    return sgf + ')';
+  }).join('\n');
+
+  const black = setup('black');
+  const white = setup('white');
+  return `(;GM[1]FF[4]CA[UTF-8]AP[ZenGo]SZ[${problem.boardSize}]GN${text(problem.title)}`
+    + (problem.description ? `C${text(problem.description)}` : '')
+    + `PL[${own}]` + (black ? `AB${black}` : '') + (white ? `AW${white}` : '')
+    + `\n${writeTree(problem.solutionTree)})`;
+}).join('\n');
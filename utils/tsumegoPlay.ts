@@ -0,0 +1,43 @@
+import { StoneColor, TsumegoProblem, TsumegoNode, TsumegoGoal, TsumegoOutcome } from '../types';
+import { getOpponent } from './goLogic';
+
+// --- PLAYING A TSUMEGO ---
+// Who moves first, the colour-swapped version of a problem, and how much credit a finished line earns.
+// Trees are written for the side to move: keys are its moves, responses the opponent's.
+
+export type TsumegoCredit = 'full' | 'partial' | 'none';
+
+export const OUTCOME_LABELS: Record<TsumegoOutcome, string> = {
+  kill: '净杀',
+  live: '净活',
+  ko: '打劫',
+  seki: '双活'
+};
+
+export const tsumegoPlayer = (problem: TsumegoProblem): StoneColor => problem.toMove ?? 'black';
+
+// The same problem for the other colour: stones and side to move swapped, the tree and goal unchanged
+export const swapTsumegoColors = (problem: TsumegoProblem): TsumegoProblem => ({
+  ...problem,
+  toMove: getOpponent(tsumegoPlayer(problem)),
+  initialStones: problem.initialStones.map(s => ({ ...s, color: getOpponent(s.color) }))
+});
+
+// Whether an outcome is what the goal asks for; null for a ko, which is neither
+export const meetsGoal = (goal: TsumegoGoal, outcome: TsumegoOutcome): boolean | null => {
+  if (outcome === 'ko') return null;
+  return goal === 'kill' ? outcome === 'kill' : outcome !== 'kill';
+};
+
+// Does some correct line end without a ko? Then a ko is only the second-best answer.
+const hasUnconditionalAnswer = (node: TsumegoNode): boolean => Object.values(node).some(branch =>
+  branch.status === 'continue'
+    ? !branch.next || hasUnconditionalAnswer(branch.next)
+    : branch.status === 'correct' && branch.outcome !== 'ko'
+);
+
+// Credit for a line ending in `branch`. A ko is the full answer only when the problem has nothing better.
+export const branchCredit = (problem: TsumegoProblem, branch: TsumegoNode[string]): TsumegoCredit => {
+  if (branch.status === 'wrong') return 'none';
+  return branch.outcome === 'ko' && hasUnconditionalAnswer(problem.solutionTree) ? 'partial' : 'full';
+};
@@ -0,0 +1,297 @@
+import { StoneColor, Point, TsumegoProblem, TsumegoGoal } from '../types';
+import { makeMove, getGroupInfo, getOpponent, isOnBoard, createEmptyGrid } from './goLogic';
+import { findCapture, findEscape, koAfter } from './tactics';
+
+// --- TSUMEGO SOLVER ---
+// Life-and-death search for moves the hand-written solution tree doesn't cover. Alpha-beta over the empty
+// points around the problem's stones, with the player's goal (kill or live) fixed on one target chain.
+// A line is decided when the target is captured, when it is alive unconditionally (Benson), when both
+// sides pass, or, once the target has a liberty outside the problem's stones, by the ladder reader.
+// Lines still open when the depth or node budget runs out are 'unknown', never a guess.
+
+type Grid = (StoneColor | null)[][];
+
+export interface TsumegoSpec {
+  goal: TsumegoGoal;
+  player: StoneColor; // Whose goal it is: the side to move in the problem
+  target: Point; // A stone of the chain whose fate decides the problem
+  area: { minX: number, minY: number, maxX: number, maxY: number }; // Bounding box of the problem's stones
+}
+
+// For the player's goal, whoever is to move
+export type GoalStatus = 'achieved' | 'failed' | 'unknown';
+
+export interface TsumegoReading {
+  status: GoalStatus;
+  // Best move for the side to move: the quickest win, or the longest resistance when every move loses.
+  // Absent when the goal is already decided on the board.
+  move?: Point | 'PASS';
+}
+
+export interface SolverOptions {
+  ko?: Point | null; // Point the side to move may not retake (simple ko)
+  depth?: number; // Maximum plies
+  budget?: number; // Maximum positions visited
+}
+
+const SOLVER_DEPTH = 16;
+const SOLVER_BUDGET = 40000;
+// Ladder reads for a target outside the area run once per position, so they get a small budget of their own
+const ESCAPE_BUDGET = 400;
+// Moves are searched this far around the area
+const MARGIN = 1;
+
+const adjacent = (p: Point): Point[] => [
+  { x: p.x + 1, y: p.y }, { x: p.x - 1, y: p.y },
+  { x: p.x, y: p.y + 1 }, { x: p.x, y: p.y - 1 }
+];
+
+const pointKey = (p: Point) => `${p.x},${p.y}`;
+
+const targetColor = ({ goal, player }: Pick<TsumegoSpec, 'goal' | 'player'>): StoneColor =>
+  goal === 'kill' ? getOpponent(player) : player;
+
+const inArea = (spec: TsumegoSpec, p: Point) =>
+  p.x >= spec.area.minX && p.x <= spec.area.maxX && p.y >= spec.area.minY && p.y <= spec.area.maxY;
+
+// --- SETUP ---
+
+// The goal and target of a problem. The target is the biggest chain of the goal's colour, the one
+// shortest of liberties among equals. Null when the problem has no stone to aim at.
+export const createTsumegoSpec = (problem: TsumegoProblem): TsumegoSpec | null => {
+  const size = problem.boardSize;
+  const grid = createEmptyGrid(size);
+  problem.initialStones.forEach(s => grid[s.y][s.x] = s.color);
+  const goal = problem.goal ?? 'kill';
+  const player = problem.toMove ?? 'black';
+  const color = targetColor({ goal, player });
+
+  const seen = new Set<string>();
+  const chains: { group: Point[], liberties: Point[] }[] = [];
+  problem.initialStones.forEach(s => {
+    if (s.color !== color || seen.has(pointKey(s))) return;
+    const chain = getGroupInfo(grid, s.x, s.y);
+    chain.group.forEach(p => seen.add(pointKey(p)));
+    chains.push(chain);
+  });
+  if (chains.length === 0) return null;
+  chains.sort((a, b) => b.group.length - a.group.length || a.liberties.length - b.liberties.length);
+
+  const xs = problem.initialStones.map(s => s.x);
+  const ys = problem.initialStones.map(s => s.y);
+  return {
+    goal,
+    player,
+    target: chains[0].group[0],
+    area: { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) }
+  };
+};
+
+// --- UNCONDITIONAL LIFE ---
+
+// Benson's algorithm: can the chain at `target` not be captured even if its owner never plays again?
+// Points are indexed y * size + x; this runs at most once per searched position.
+const unconditionallyAlive = (grid: Grid, target: Point): boolean => {
+  const size = grid.length;
+  const color = grid[target.y][target.x];
+  const neighbours = (i: number): number[] => {
+    const x = i % size, y = (i - x) / size;
+    const result: number[] = [];
+    if (x > 0) result.push(i - 1);
+    if (x < size - 1) result.push(i + 1);
+    if (y > 0) result.push(i - size);
+    if (y < size - 1) result.push(i + size);
+    return result;
+  };
+  const at = (i: number) => grid[Math.floor(i / size)][i % size];
+
+  // Label the chains of `color`, then the regions of everything else and the chains bordering them
+  const flood = (labels: Int32Array, own: boolean, visit: (i: number, label: number) => void): number => {
+    let count = 0;
+    for (let start = 0; start < size * size; start++) {
+      if ((at(start) === color) !== own || labels[start] >= 0) continue;
+      const stack = [start];
+      labels[start] = count;
+      while (stack.length > 0) {
+        const i = stack.pop()!;
+        visit(i, count);
+        for (const n of neighbours(i)) {
+          if ((at(n) === color) === own && labels[n] < 0) {
+            labels[n] = count;
+            stack.push(n);
+          }
+        }
+      }
+      count++;
+    }
+    return count;
+  };
+  const chainOf = new Int32Array(size * size).fill(-1);
+  const chainCount = flood(chainOf, true, () => {});
+  const regions: { empties: number[], chains: Set<number> }[] = [];
+  flood(new Int32Array(size * size).fill(-1), false, (i, label) => {
+    const region = regions[label] ?? (regions[label] = { empties: [], chains: new Set() });
+    if (at(i) === null) region.empties.push(i);
+    neighbours(i).forEach(n => chainOf[n] >= 0 && region.chains.add(chainOf[n]));
+  });
+
+  // A region is vital to a chain when every empty point in it is one of the chain's liberties
+  const vital = (region: typeof regions[number], chain: number) =>
+    region.empties.length > 0 && region.empties.every(i => neighbours(i).some(n => chainOf[n] === chain));
+
+  let alive = new Set(Array.from({ length: chainCount }, (_, c) => c));
+  let remaining = regions;
+  for (;;) {
+    const keep = new Set([...alive].filter(c => remaining.filter(r => vital(r, c)).length >= 2));
+    const next = remaining.filter(r => [...r.chains].every(c => keep.has(c)));
+    if (keep.size === alive.size && next.length === remaining.length) break;
+    alive = keep;
+    remaining = next;
+  }
+  return alive.has(chainOf[target.y * size + target.x]);
+};
+
+// Benson needs two regions whose empty points are all liberties of the chain; most positions fail this cheaply
+const mayBeAlive = (grid: Grid, target: Point, liberties: Point[]): boolean => {
+  const size = grid.length;
+  const color = grid[target.y][target.x];
+  const isLiberty = new Set(liberties.map(pointKey));
+  const seen = new Set<string>();
+  let vital = 0;
+  for (const start of liberties) {
+    if (seen.has(pointKey(start))) continue;
+    const queue = [start];
+    seen.add(pointKey(start));
+    let small = true;
+    while (queue.length > 0 && small) {
+      const p = queue.pop()!;
+      if (grid[p.y][p.x] === null && !isLiberty.has(pointKey(p))) small = false;
+      for (const n of adjacent(p)) {
+        if (!isOnBoard(n.x, n.y, size) || grid[n.y][n.x] === color || seen.has(pointKey(n))) continue;
+        seen.add(pointKey(n));
+        queue.push(n);
+      }
+    }
+    if (small && ++vital >= 2) return true;
+  }
+  return false;
+};
+
+// --- SEARCH ---
+
+// Values are for the player's goal: 1 achieved, -1 failed, 0 unknown
+type Value = 1 | 0 | -1;
+
+const toStatus = (value: Value): GoalStatus => value > 0 ? 'achieved' : value < 0 ? 'failed' : 'unknown';
+
+interface Result {
+  value: Value;
+  plies: number; // Until the line is decided
+  move?: Point | 'PASS';
+}
+
+// Decided without searching: captured, unconditionally alive, or out of the area and read as a ladder
+const settle = (grid: Grid, spec: TsumegoSpec, toMove: StoneColor): Result | null => {
+  const { target } = spec;
+  const kill = spec.goal === 'kill';
+  const decided = (captured: boolean, move?: Point): Result => ({ value: captured === kill ? 1 : -1, plies: 0, move });
+  if (grid[target.y][target.x] !== targetColor(spec)) return decided(true);
+  const { liberties } = getGroupInfo(grid, target.x, target.y);
+  if (mayBeAlive(grid, target, liberties) && unconditionallyAlive(grid, target)) return decided(false);
+  if (liberties.every(p => inArea(spec, p))) return null;
+
+  const options = { budget: ESCAPE_BUDGET };
+  if (toMove === targetColor(spec)) {
+    const escape = findEscape(grid, target.x, target.y, options);
+    return decided(!escape.saved, escape.move);
+  }
+  const capture = findCapture(grid, target.x, target.y, options);
+  return decided(!!capture, capture ?? undefined);
+};
+
+interface SearchContext {
+  spec: TsumegoSpec;
+  nodes: number;
+  budget: number;
+  proven: Map<string, Result>; // Only decided values, which hold at any depth
+}
+
+
+const positionKey = (grid: Grid, toMove: StoneColor, ko: Point | null, passes: number) =>
+  `${grid.map(row => row.map(c => c ? c[0] : '.').join('')).join('/')} ${toMove[0]} ${ko ? pointKey(ko) : '-'} ${passes}`;
+
+// The target's liberties first, then the points next to them, then the rest of the area and its margin
+const candidateMoves = (grid: Grid, spec: TsumegoSpec): Point[] => {
+  const { target, area } = spec;
+  const size = grid.length;
+  const liberties = getGroupInfo(grid, target.x, target.y).liberties;
+  const near = new Set(liberties.flatMap(adjacent).map(pointKey));
+  const first = new Set(liberties.map(pointKey));
+  const moves: Point[] = [];
+  for (let y = Math.max(0, area.minY - MARGIN); y <= Math.min(size - 1, area.maxY + MARGIN); y++) {
+    for (let x = Math.max(0, area.minX - MARGIN); x <= Math.min(size - 1, area.maxX + MARGIN); x++) {
+      if (grid[y][x] === null) moves.push({ x, y });
+    }
+  }
+  const rank = (p: Point) => first.has(pointKey(p)) ? 0 : near.has(pointKey(p)) ? 1 : 2;
+  return moves.sort((a, b) => rank(a) - rank(b));
+};
+
+// Whether `a` is better than `b` for the side to move: the player wants the goal, the opponent wants it
+// failed. Wins are taken by the shortest line and losses put off as long as possible.
+const better = (a: Result, b: Result, toMove: StoneColor, spec: TsumegoSpec): boolean => {
+  const sign = toMove === spec.player ? 1 : -1;
+  if (a.value !== b.value) return a.value * sign > b.value * sign;
+  if (a.value === 0) return false;
+  return a.value * sign > 0 ? a.plies < b.plies : a.plies > b.plies;
+};
+
+const search = (
+  grid: Grid, toMove: StoneColor, ko: Point | null, passes: number, depth: number, ctx: SearchContext
+): Result => {
+  if (++ctx.nodes > ctx.budget) return { value: 0, plies: 0 };
+  const settled = settle(grid, ctx.spec, toMove);
+  if (settled) return settled;
+  // Two passes in a row: the target is still standing, so it lives (possibly in seki)
+  if (passes >= 2) return { value: ctx.spec.goal === 'kill' ? -1 : 1, plies: 0 };
+  if (depth <= 0) return { value: 0, plies: 0 };
+
+  const key = positionKey(grid, toMove, ko, passes);
+  const known = ctx.proven.get(key);
+  if (known) return known;
+
+  const opponent = getOpponent(toMove);
+  const winning = toMove === ctx.spec.player ? 1 : -1;
+  let best: Result | null = null;
+  const consider = (child: Result, move: Point | 'PASS') => {
+    const result: Result = { value: child.value, plies: child.plies + 1, move };
+    if (!best || better(result, best, toMove, ctx.spec)) best = result;
+  };
+
+  for (const move of candidateMoves(grid, ctx.spec)) {
+    if (ko && ko.x === move.x && ko.y === move.y) continue;
+    const result = makeMove(grid, move.x, move.y, toMove);
+    if (!result.success) continue;
+    consider(search(result.newGrid, opponent, koAfter(result, move), 0, depth - 1, ctx), move);
+    if (best!.value === winning) break;
+  }
+  if (!best || best.value !== winning) consider(search(grid, opponent, null, passes + 1, depth - 1, ctx), 'PASS');
+
+  const result: Result = best!;
+  if (result.value !== 0) ctx.proven.set(key, result);
+  return result;
+};
+
+// Read the position with `toMove` to play. Deepens two plies at a time so the quickest lines are found first.
+export const solveTsumego = (grid: Grid, toMove: StoneColor, spec: TsumegoSpec, options: SolverOptions = {}): TsumegoReading => {
+  const settled = settle(grid, spec, toMove);
+  if (settled) return { status: toStatus(settled.value), move: settled.move };
+
+  const ctx: SearchContext = { spec, nodes: 0, budget: options.budget ?? SOLVER_BUDGET, proven: new Map() };
+  let result: Result = { value: 0, plies: 0 };
+  for (let depth = 2; depth <= (options.depth ?? SOLVER_DEPTH) && ctx.nodes <= ctx.budget; depth += 2) {
+    result = search(grid, toMove, options.ko ?? null, 0, depth, ctx);
+    if (result.value !== 0) break;
+  }
+  return { status: toStatus(result.value), move: result.move };
+};
@@ -0,0 +1,202 @@
+import { StoneColor, Point, TsumegoProblem, TsumegoNode } from '../types';
+import { makeMove, getGroupInfo, getOpponent, isOnBoard, createEmptyGrid, pointToGtp, IllegalMoveReason } from './goLogic';
+import { koAfter } from './tactics';
+import { TsumegoSpec, createTsumegoSpec, solveTsumego } from './tsumegoSolver';
+import { OUTCOME_LABELS, tsumegoPlayer, meetsGoal } from './tsumegoPlay';
+
+// --- TSUMEGO VALIDATION ---
+// Checks a problem the way the app will play it: the setup, every branch of the solution tree, and
+// (optionally) whether the solver agrees with the answers marked correct or wrong. Issues are in Chinese
+// so the same list can be shown in the app; `path` locates them in the tree.
+
+type Grid = (StoneColor | null)[][];
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface TsumegoIssue {
+  severity: IssueSeverity;
+  path: string[]; // GTP vertices from the start position, the side to move first; empty for the setup
+  message: string;
+}
+
+export interface ValidationOptions {
+  solver?: boolean; // Read the answers with the solver (default true); the slow part
+}
+
+const MIN_SIZE = 5;
+const MAX_SIZE = 19;
+
+const ILLEGAL_REASONS: Record<IllegalMoveReason, string> = {
+  occupied: '该点已有棋子',
+  suicide: '自杀',
+  ko: '打劫禁着'
+};
+
+const colorName = (color: StoneColor) => color === 'black' ? '黑' : '白';
+
+const isKo = (ko: Point | null, p: Point) => !!ko && ko.x === p.x && ko.y === p.y;
+
+// "x,y" tree keys; null when malformed
+const parseKey = (key: string): Point | null => {
+  const match = /^(\d+),(\d+)$/.exec(key);
+  return match ? { x: Number(match[1]), y: Number(match[2]) } : null;
+};
+
+const checkSetup = (problem: TsumegoProblem, issues: TsumegoIssue[]): Grid | null => {
+  const size = problem.boardSize;
+  const error = (message: string) => issues.push({ severity: 'error', path: [], message });
+  if (!Number.isInteger(size) || size < MIN_SIZE || size > MAX_SIZE) {
+    error(`棋盘大小 ${size} 无效`);
+    return null;
+  }
+
+  const grid = createEmptyGrid(size);
+  problem.initialStones.forEach(s => {
+    if (!Number.isInteger(s.x) || !Number.isInteger(s.y) || !isOnBoard(s.x, s.y, size)) {
+      error(`棋子 (${s.x},${s.y}) 在棋盘外`);
+    } else if (grid[s.y][s.x]) {
+      error(`${pointToGtp(s, size)} 重复摆放了棋子`);
+    } else {
+      grid[s.y][s.x] = s.color;
+    }
+  });
+  const opponent = getOpponent(tsumegoPlayer(problem));
+  if (!problem.initialStones.some(s => s.color === opponent)) error(`没有${colorName(opponent)}子`);
+
+  const seen = new Set<string>();
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!grid[y][x] || seen.has(`${x},${y}`)) continue;
+      const { group, liberties } = getGroupInfo(grid, x, y);
+      group.forEach(p => seen.add(`${p.x},${p.y}`));
+      if (liberties.length === 0) error(`${pointToGtp({ x, y }, size)} 一带的棋子开局就没有气`);
+    }
+  }
+  return grid;
+};
+
+interface WalkContext {
+  problem: TsumegoProblem;
+  player: StoneColor;
+  spec: TsumegoSpec | null;
+  solver: boolean;
+  issues: TsumegoIssue[];
+}
+
+// Walks one node of the tree; returns whether some line from it reaches a correct answer
+const checkNode = (node: TsumegoNode, grid: Grid, ko: Point | null, path: string[], ctx: WalkContext): boolean => {
+  const size = ctx.problem.boardSize;
+  const keys = Object.keys(node);
+  const report = (severity: IssueSeverity, at: string[], message: string) => ctx.issues.push({ severity, path: at, message });
+  const player = colorName(ctx.player);
+  const opponent = colorName(getOpponent(ctx.player));
+  if (keys.length === 0) {
+    report('error', path, `分支为空，${player}棋无棋可下`);
+    return false;
+  }
+
+  let solvable = false;
+  for (const key of keys) {
+    const branch = node[key];
+    const point = parseKey(key);
+    if (!point || !isOnBoard(point.x, point.y, size)) {
+      report('error', path, `坐标 "${key}" 无效`);
+      continue;
+    }
+    const vertex = pointToGtp(point, size);
+    const here = [...path, vertex];
+    const played = isKo(ko, point) ? null : makeMove(grid, point.x, point.y, ctx.player);
+    if (!played?.success) {
+      report('error', path, `${player} ${vertex} 不能落子（${ILLEGAL_REASONS[played?.reason ?? 'ko']}）`);
+      continue;
+    }
+
+    // The opponent's answer, if any
+    let after = played.newGrid;
+    let nextKo = koAfter(played, point);
+    if (branch.response) {
+      const response = branch.response;
+      if (!isOnBoard(response.x, response.y, size)) {
+        report('error', here, `${opponent}棋应手 (${response.x},${response.y}) 在棋盘外`);
+        continue;
+      }
+      const answered = isKo(nextKo, response) ? null : makeMove(after, response.x, response.y, getOpponent(ctx.player));
+      if (!answered?.success) {
+        report('error', here, `${opponent} ${pointToGtp(response, size)} 不能落子（${ILLEGAL_REASONS[answered?.reason ?? 'ko']}）`);
+        continue;
+      }
+      if (branch.status === 'correct') report('warning', here, `正解分支带有${opponent}棋应手，应用不会走出`);
+      after = answered.newGrid;
+      nextKo = koAfter(answered, response);
+    }
+
+    if (branch.status === 'continue') {
+      if (branch.outcome) report('warning', here, '继续分支的结果不会被用到');
+      if (!branch.response) {
+        report('error', here, `继续分支缺少${opponent}棋应手`);
+        continue;
+      }
+      if (!branch.next) {
+        report('error', here, '继续分支没有后续，没有以正解或失败结束');
+        continue;
+      }
+      const responseVertex = pointToGtp(branch.response, size);
+      if (checkNode(branch.next, after, nextKo, [...here, responseVertex], ctx)) solvable = true;
+      continue;
+    }
+
+    if (branch.next) report('warning', here, `${branch.status === 'correct' ? '正解' : '失败'}分支后面的变化不会被用到`);
+    if (branch.status === 'correct') solvable = true;
+    // Seki counts as living; a ko fits either mark
+    const goal = ctx.problem.goal ?? 'kill';
+    const meets = branch.outcome ? meetsGoal(goal, branch.outcome) : null;
+    if (meets !== null && meets !== (branch.status === 'correct')) {
+      report('warning', here, `标为${branch.status === 'correct' ? '正解' : '失败'}，但结果是${OUTCOME_LABELS[branch.outcome!]}`);
+    }
+    // The solver reads kos as plain fights, so it has no say on lines that end in one
+    if (ctx.solver && ctx.spec && branch.outcome !== 'ko') checkVerdict(branch.status, played.newGrid, koAfter(played, point), here, ctx);
+  }
+  return solvable;
+};
+
+// Does the solver agree with the answer's mark? Read with the opponent to move, right after the answer.
+const checkVerdict = (status: 'correct' | 'wrong', after: Grid, ko: Point | null, path: string[], ctx: WalkContext) => {
+  const opponent = getOpponent(ctx.player);
+  const reading = solveTsumego(after, opponent, ctx.spec!, { ko });
+  const goal = ctx.spec!.goal === 'kill' ? `杀${colorName(opponent)}` : '做活';
+  const reply = reading.move && reading.move !== 'PASS' ? `（${colorName(opponent)} ${pointToGtp(reading.move, ctx.problem.boardSize)}）` : '';
+  if (status === 'correct' && reading.status === 'failed') {
+    ctx.issues.push({ severity: 'error', path, message: `标为正解，但解算器认为不能${goal}${reply}` });
+  } else if (status === 'correct' && reading.status === 'unknown') {
+    ctx.issues.push({ severity: 'warning', path, message: '标为正解，解算器未能读清' });
+  } else if (status === 'wrong' && reading.status === 'achieved') {
+    ctx.issues.push({ severity: 'warning', path, message: `标为失败，但解算器认为这步也能${goal}` });
+  }
+};
+
+export const validateTsumego = (problem: TsumegoProblem, options: ValidationOptions = {}): TsumegoIssue[] => {
+  const issues: TsumegoIssue[] = [];
+  if (!problem.id) issues.push({ severity: 'error', path: [], message: '缺少题目编号' });
+  const grid = checkSetup(problem, issues);
+  if (!grid || issues.some(i => i.severity === 'error')) return issues;
+
+  const solver = options.solver ?? true;
+  const spec = solver ? createTsumegoSpec(problem) : null;
+  if (solver && !spec) issues.push({ severity: 'warning', path: [], message: '找不到目标棋子，跳过解算' });
+  if (!checkNode(problem.solutionTree, grid, null, [], { problem, player: tsumegoPlayer(problem), spec, solver, issues })) {
+    issues.push({ severity: 'error', path: [], message: '没有任何一条变化以正解结束' });
+  }
+  return issues;
+};
+
+// Every problem's issues by id, plus ids used more than once
+export const validateCollection = (problems: TsumegoProblem[], options: ValidationOptions = {}): Map<string, TsumegoIssue[]> => {
+  const report = new Map<string, TsumegoIssue[]>();
+  problems.forEach(problem => {
+    const issues = validateTsumego(problem, options);
+    const existing = report.get(problem.id);
+    if (existing) existing.push({ severity: 'error', path: [], message: '题目编号重复' }, ...issues);
+    else report.set(problem.id, issues);
+  });
+  return report;
+};
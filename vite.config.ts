@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GTP_BRIDGE_URL': JSON.stringify(env.GTP_BRIDGE_URL),
+        'process.env.GEMINI_PROMPT_TEMPLATE': JSON.stringify(env.GEMINI_PROMPT_TEMPLATE),
+        'process.env.GEMINI_MOCK': JSON.stringify(env.GEMINI_MOCK)
       },
       resolve: {
         alias: {